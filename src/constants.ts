@@ -1,15 +1,126 @@
 // Google Chat API constants
 export const API_BASE_URL = "https://chat.googleapis.com/v1";
+export const UPLOAD_BASE_URL = "https://chat.googleapis.com/upload/v1";
 export const CHARACTER_LIMIT = 25000;
 export const DEFAULT_PAGE_SIZE = 25;
 export const MAX_PAGE_SIZE = 100;
 
+// Auto-pagination for list tools: pages walked by default, and hard caps
+export const DEFAULT_MAX_PAGES = 20;
+export const MAX_PAGES_LIMIT = 100;
+export const MAX_ITEMS_LIMIT = 10000;
+
+// Pages of 100 messages read per thread; longer threads continue with a pageToken
+export const MAX_THREAD_PAGES = 10;
+
+// Message search: spaces scanned at once, spaces per search and messages scanned per space
+export const SEARCH_CONCURRENCY = 4;
+export const MAX_SEARCH_SPACES = 50;
+export const DEFAULT_SEARCH_SCAN_LIMIT = 1000;
+export const MAX_SEARCH_SCAN_LIMIT = 5000;
+
+// Regular expression search: longest pattern accepted, and how long matching one space may take
+export const MAX_SEARCH_REGEX_LENGTH = 200;
+export const SEARCH_REGEX_TIMEOUT_MS = 1000;
+
+// Space exports: written under GOOGLE_CHAT_EXPORT_DIR, or this directory in the working directory
+export const DEFAULT_EXPORT_DIR = "exports";
+
+// Transcript file formats
+export enum ExportFormat {
+  MARKDOWN = "markdown",
+  JSONL = "jsonl",
+  HTML = "html"
+}
+
+// Import mode: historical messages and memberships per tool call, and where
+// migration sources are read from unless GOOGLE_CHAT_IMPORT_DIR is set
+export const MAX_IMPORT_MESSAGES = 100;
+export const MAX_IMPORT_MEMBERS = 100;
+export const DEFAULT_IMPORT_DIR = "imports";
+// Longest text one imported message can carry; longer migrated posts are split
+export const MAX_IMPORT_TEXT_LENGTH = 4096;
+
+// Chat platforms whose exports can be migrated
+export enum MigrationPlatform {
+  SLACK = "slack",
+  MATTERMOST = "mattermost"
+}
+
+// Space event types (Google Workspace Events CloudEvent types)
+export enum SpaceEventType {
+  MESSAGE_CREATED = "google.workspace.chat.message.v1.created",
+  MESSAGE_UPDATED = "google.workspace.chat.message.v1.updated",
+  MESSAGE_DELETED = "google.workspace.chat.message.v1.deleted",
+  MESSAGE_BATCH_CREATED = "google.workspace.chat.message.v1.batchCreated",
+  MESSAGE_BATCH_UPDATED = "google.workspace.chat.message.v1.batchUpdated",
+  MESSAGE_BATCH_DELETED = "google.workspace.chat.message.v1.batchDeleted",
+  SPACE_UPDATED = "google.workspace.chat.space.v1.updated",
+  SPACE_BATCH_UPDATED = "google.workspace.chat.space.v1.batchUpdated",
+  MEMBERSHIP_CREATED = "google.workspace.chat.membership.v1.created",
+  MEMBERSHIP_UPDATED = "google.workspace.chat.membership.v1.updated",
+  MEMBERSHIP_DELETED = "google.workspace.chat.membership.v1.deleted",
+  MEMBERSHIP_BATCH_CREATED = "google.workspace.chat.membership.v1.batchCreated",
+  MEMBERSHIP_BATCH_UPDATED = "google.workspace.chat.membership.v1.batchUpdated",
+  MEMBERSHIP_BATCH_DELETED = "google.workspace.chat.membership.v1.batchDeleted",
+  REACTION_CREATED = "google.workspace.chat.reaction.v1.created",
+  REACTION_DELETED = "google.workspace.chat.reaction.v1.deleted",
+  REACTION_BATCH_CREATED = "google.workspace.chat.reaction.v1.batchCreated",
+  REACTION_BATCH_DELETED = "google.workspace.chat.reaction.v1.batchDeleted"
+}
+
+// How long the auth command waits for the browser to return from the consent screen
+export const OAUTH_CONSENT_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Retry policy defaults
+export const DEFAULT_RETRY_MAX_ATTEMPTS = 5;
+export const DEFAULT_RETRY_DEADLINE_MS = 60000;
+export const RETRY_BASE_DELAY_MS = 500;
+export const RETRY_MAX_DELAY_MS = 30000;
+
+// Card v2 limits enforced by Google Chat
+export const MAX_CARD_WIDGETS = 100;
+// Text plus cards must fit in a 32,000 byte message
+export const MAX_MESSAGE_BYTES = 32000;
+
+// Space event subscriptions
+export const DEFAULT_SUBSCRIPTION_INTERVAL_MS = 30000;
+export const MAX_SUBSCRIPTION_BACKOFF_MS = 5 * 60 * 1000;
+export const MAX_SUBSCRIPTIONS_PER_SESSION = 20;
+// Google Chat keeps space events for 28 days
+export const SPACE_EVENT_RETENTION_MS = 28 * 24 * 60 * 60 * 1000;
+// Pushed events kept in memory for google_chat_list_recent_events
+export const MAX_RECENT_EVENTS = 500;
+
+// Attachment upload limits
+export const MAX_ATTACHMENT_SIZE = 200 * 1024 * 1024;
+export const MULTIPART_UPLOAD_THRESHOLD = 5 * 1024 * 1024;
+// Resumable chunks must be a multiple of 256 KiB
+export const RESUMABLE_CHUNK_SIZE = 8 * 256 * 1024;
+
+// Attachment download limits
+export const DEFAULT_DOWNLOAD_SIZE = 10 * 1024 * 1024;
+export const MAX_DOWNLOAD_SIZE = 50 * 1024 * 1024;
+
+// Upload strategy
+export enum UploadType {
+  AUTO = "auto",
+  MULTIPART = "multipart",
+  RESUMABLE = "resumable"
+}
+
 // Response format enum
 export enum ResponseFormat {
   MARKDOWN = "markdown",
   JSON = "json"
 }
 
+// How message text is written: Chat's own formatting, or Markdown to convert
+export enum TextFormat {
+  CHAT = "chat",
+  MARKDOWN = "markdown"
+}
+
 // Space types
 export enum SpaceType {
   SPACE = "SPACE",
@@ -4,32 +4,114 @@
  *
  * This MCP server provides tools to interact with the Google Chat API,
  * enabling LLMs to manage spaces, messages, members, reactions, and attachments
- * in Google Chat.
+ * in Google Chat. Spaces, messages and threads are also exposed as resources.
  *
  * Authentication:
  * Set one of the following environment variables:
  *   - GOOGLE_APPLICATION_CREDENTIALS: Path to service account JSON file
  *   - GOOGLE_SERVICE_ACCOUNT_JSON: Service account JSON as a string
+ *   - GOOGLE_OAUTH_CLIENT_ID + GOOGLE_OAUTH_CLIENT_SECRET: OAuth2 client; the
+ *     refresh token comes from GOOGLE_OAUTH_REFRESH_TOKEN or the token cache
  *   - GOOGLE_OAUTH_TOKEN: OAuth2 access token
  *
  * Usage:
  *   - stdio (default): Run as a subprocess
- *   - http: Set TRANSPORT=http for streamable HTTP mode
+ *   - http: Set TRANSPORT=http for streamable HTTP mode. HTTP_GOOGLE_AUTH picks
+ *     the Google identity per request: shared (default), passthrough (token in
+ *     X-Google-Access-Token) or mapped (identity header -> impersonated user)
+ *   - EVENTS_PUSH_AUDIENCE: In HTTP mode, receive Google Workspace Events
+ *     Pub/Sub pushes on EVENTS_PUSH_PATH (default /events)
+ *   - GOOGLE_CHAT_READ_ONLY=true: Register only read-only tools and request
+ *     only read-only scopes
+ *   - auth: Run `google-chat-mcp-server auth` once to complete OAuth consent
+ *     and write the refresh token to the token cache
+ *   - export: Run `google-chat-mcp-server export spaces/AAAA` to write a space's
+ *     transcript to disk; run it again to resume an interrupted export
  */
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { initializeApiClient } from "./services/api-client.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { randomUUID } from "node:crypto";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import type { Request, Response } from "express";
+import { initializeApiClient, getChatScopes, handleApiError } from "./services/api-client.js";
+import { getOAuthClientConfig, runConsentFlow } from "./services/oauth.js";
+import {
+  HttpGoogleAuthMode,
+  getHttpGoogleAuthMode,
+  resolveGoogleCredentials,
+  resolveCallerIdentity,
+  withGoogleCredentials,
+  type GoogleCredentials
+} from "./services/tenancy.js";
+import { createInMemoryEventStore } from "./services/event-store.js";
+import {
+  loadInboundAuthConfig,
+  checkApiKeyTools,
+  createTokenVerifier,
+  originValidation,
+  type InboundAuthConfig
+} from "./services/http-auth.js";
+import {
+  addSession,
+  getSession,
+  touchSession,
+  closeSession,
+  closeAllSessions,
+  startIdleSweeper,
+  type McpSession
+} from "./services/sessions.js";
+import { loadPushReceiverConfig, createPushHandler, type PushReceiverConfig } from "./services/push-receiver.js";
+import { exportSpace, resolveExportPath, checkExportTarget } from "./services/export.js";
+import { ExportFormat } from "./constants.js";
 import { registerAllTools } from "./tools/index.js";
+import { getToolNames } from "./tools/register.js";
+import { registerAllResources } from "./resources/index.js";
+import { registerAllPrompts } from "./prompts/index.js";
 
-// Create MCP server instance
-const server = new McpServer({
-  name: "google-chat-mcp-server",
-  version: "1.0.0"
-});
+/**
+ * Who an HTTP request comes from, as far as session binding is concerned.
+ */
+interface Caller {
+  // Authenticated MCP client (API key name or OAuth client)
+  owner?: string;
+  credentials: GoogleCredentials | null;
+  identity?: string;
+}
 
-// Register all tools
-registerAllTools(server);
+/**
+ * Create an MCP server instance with all tools, resources and prompts registered.
+ * HTTP mode creates one per session so sessions never share protocol state.
+ */
+function createServer(): McpServer {
+  const server = new McpServer({
+    name: "google-chat-mcp-server",
+    version: "1.0.0"
+  }, {
+    // Subscriptions deliver space events as log notifications
+    capabilities: { logging: {} }
+  });
+
+  registerAllTools(server);
+  registerAllResources(server);
+  registerAllPrompts(server);
+  return server;
+}
+
+/**
+ * Names of every tool the server offers, recorded by registering them into a
+ * server that is never connected. Its close handler releases the event listener
+ * the subscription tools add.
+ */
+function listToolNames(): string[] {
+  const server = new McpServer({ name: "google-chat-mcp-server", version: "1.0.0" });
+  registerAllTools(server);
+  server.server.onclose?.();
+  return getToolNames();
+}
 
 /**
  * Run the server using stdio transport.
@@ -45,64 +127,358 @@ async function runStdio(): Promise<void> {
     console.error("Please configure authentication by setting one of:");
     console.error("  - GOOGLE_APPLICATION_CREDENTIALS: Path to service account JSON file");
     console.error("  - GOOGLE_SERVICE_ACCOUNT_JSON: Service account JSON as a string");
+    console.error("  - GOOGLE_OAUTH_CLIENT_ID + GOOGLE_OAUTH_CLIENT_SECRET: OAuth2 client with a refresh token");
     console.error("  - GOOGLE_OAUTH_TOKEN: OAuth2 access token");
     process.exit(1);
   }
 
+  const server = createServer();
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error("Google Chat MCP server running via stdio");
 }
 
+/**
+ * Split a comma-separated environment value into trimmed entries.
+ */
+function splitList(value: string | undefined): string[] {
+  return (value || "").split(",").map(entry => entry.trim()).filter(Boolean);
+}
+
 /**
  * Run the server using streamable HTTP transport.
  */
 async function runHTTP(): Promise<void> {
   // Dynamic import to avoid requiring express if not using HTTP
-  const express = await import("express");
+  const { createMcpExpressApp } = await import("@modelcontextprotocol/sdk/server/express.js");
+  const { requireBearerAuth } = await import("@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js");
+  const { mcpAuthMetadataRouter, getOAuthProtectedResourceMetadataUrl } = await import(
+    "@modelcontextprotocol/sdk/server/auth/router.js"
+  );
   const { StreamableHTTPServerTransport } = await import(
     "@modelcontextprotocol/sdk/server/streamableHttp.js"
   );
+  type StreamableHTTPServerTransport = InstanceType<typeof StreamableHTTPServerTransport>;
 
-  // Initialize the API client
+  const googleAuthMode = getHttpGoogleAuthMode();
+
+  // Initialize the shared API client; passthrough mode needs no server credentials
+  if (googleAuthMode !== HttpGoogleAuthMode.PASSTHROUGH) {
+    try {
+      await initializeApiClient();
+    } catch (error) {
+      console.error("Failed to initialize Google Chat API client:");
+      console.error(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  }
+
+  let inboundAuth: InboundAuthConfig | null;
   try {
-    await initializeApiClient();
+    inboundAuth = await loadInboundAuthConfig();
+    if (inboundAuth) {
+      checkApiKeyTools(inboundAuth.apiKeys, listToolNames());
+    }
   } catch (error) {
-    console.error("Failed to initialize Google Chat API client:");
+    console.error("Failed to configure HTTP authentication:");
     console.error(error instanceof Error ? error.message : String(error));
     process.exit(1);
   }
 
-  const app = express.default();
-  app.use(express.default.json());
+  const host = process.env.HOST || "127.0.0.1";
+  const allowedHosts = splitList(process.env.HTTP_ALLOWED_HOSTS);
 
-  app.post("/mcp", async (req, res) => {
-    const transport = new StreamableHTTPServerTransport({
-      sessionIdGenerator: undefined,
-      enableJsonResponse: true
+  // Host header validation guards against DNS rebinding; localhost binds get it by default
+  const app = createMcpExpressApp({ host, allowedHosts: allowedHosts.length > 0 ? allowedHosts : undefined });
+  app.use("/mcp", originValidation(splitList(process.env.HTTP_ALLOWED_ORIGINS)));
+
+  // Pub/Sub authenticates pushes with its own signed JWT, not the /mcp bearer auth
+  let pushReceiver: PushReceiverConfig | null;
+  try {
+    pushReceiver = loadPushReceiverConfig();
+  } catch (error) {
+    console.error("Failed to configure the Workspace Events push receiver:");
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+  if (pushReceiver) {
+    if (pushReceiver.skipVerify) {
+      console.error(`Warning: ${pushReceiver.path} accepts pushes without verifying their token (EVENTS_PUSH_SKIP_VERIFY).`);
+    }
+    app.post(pushReceiver.path, createPushHandler(pushReceiver));
+  }
+
+  if (inboundAuth) {
+    let resourceMetadataUrl: string | undefined;
+    if (inboundAuth.oauth) {
+      // Advertise the authorization server per the MCP authorization spec
+      app.use(mcpAuthMetadataRouter({
+        oauthMetadata: inboundAuth.oauth.metadata,
+        resourceServerUrl: inboundAuth.oauth.resourceUrl,
+        scopesSupported: inboundAuth.oauth.requiredScopes,
+        resourceName: "Google Chat MCP Server"
+      }));
+      resourceMetadataUrl = getOAuthProtectedResourceMetadataUrl(inboundAuth.oauth.resourceUrl);
+    }
+
+    app.use("/mcp", requireBearerAuth({
+      verifier: createTokenVerifier(inboundAuth),
+      requiredScopes: inboundAuth.oauth?.requiredScopes,
+      resourceMetadataUrl
+    }));
+  } else if (!["127.0.0.1", "localhost", "::1"].includes(host)) {
+    console.error(`Warning: /mcp on ${host} has no authentication. Set MCP_API_KEYS or MCP_OAUTH_ISSUER.`);
+  }
+
+  const jsonRpcError = (res: Response, status: number, code: number, message: string) => {
+    res.status(status).json({ jsonrpc: "2.0", error: { code, message }, id: null });
+  };
+
+  /**
+   * Open a new session: its own server instance, transport and event store.
+   */
+  const openSession = async (caller: Caller): Promise<StreamableHTTPServerTransport> => {
+    const { owner, credentials, identity } = caller;
+    const server = createServer();
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      eventStore: createInMemoryEventStore(),
+      onsessioninitialized: (sessionId) => {
+        addSession({ id: sessionId, server, transport, owner, credentials, identity, lastActivity: Date.now() });
+      },
+      onsessionclosed: (sessionId) => closeSession(sessionId)
     });
 
-    res.on("close", () => transport.close());
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        void closeSession(transport.sessionId);
+      }
+    };
 
     await server.connect(transport);
+    return transport;
+  };
+
+  /**
+   * Work out who is calling: the authenticated client, the Google credentials the request
+   * carries and the stable Google identity behind them. Answers 401 and returns null when
+   * the request lacks or has invalid Google credentials.
+   */
+  const identifyCaller = async (req: Request & { auth?: AuthInfo }, res: Response): Promise<Caller | null> => {
+    let credentials: GoogleCredentials | null;
+    let identity: string | undefined;
+    try {
+      credentials = resolveGoogleCredentials(googleAuthMode, req.headers);
+      identity = await resolveCallerIdentity(credentials);
+    } catch (error) {
+      jsonRpcError(res, 401, -32001, error instanceof Error ? error.message : String(error));
+      return null;
+    }
+    const owner = req.auth?.clientId;
+    if (credentials) {
+      req.auth = withGoogleCredentials(req.auth, credentials);
+    }
+    return { owner, credentials, identity };
+  };
+
+  /**
+   * Find the session a request names, answering with an error when it is unknown or was
+   * opened by someone else. A session stays bound to the caller and identity that opened it.
+   */
+  const findCallerSession = (sessionId: string | undefined, caller: Caller, res: Response): McpSession | null => {
+    const session = sessionId ? getSession(sessionId) : undefined;
+    if (!session) {
+      jsonRpcError(res, sessionId ? 404 : 400, -32001, sessionId ? "Session not found" : "Missing session ID");
+      return null;
+    }
+    if (session.owner !== caller.owner || session.identity !== caller.identity) {
+      jsonRpcError(res, 403, -32001, "Session belongs to a different identity");
+      return null;
+    }
+    touchSession(session);
+    return session;
+  };
+
+  app.post("/mcp", async (req: Request & { auth?: AuthInfo }, res) => {
+    // Resolve per-request Google credentials so tools use an isolated API client
+    const caller = await identifyCaller(req, res);
+    if (!caller) {
+      return;
+    }
+
+    const sessionId = req.header("mcp-session-id");
+    if (sessionId) {
+      const session = findCallerSession(sessionId, caller, res);
+      if (session) {
+        await session.transport.handleRequest(req, res, req.body);
+      }
+      return;
+    }
+
+    if (!isInitializeRequest(req.body)) {
+      jsonRpcError(res, 400, -32000, "Bad Request: No valid session ID provided");
+      return;
+    }
+
+    const transport = await openSession(caller);
     await transport.handleRequest(req, res, req.body);
   });
 
+  // SSE stream for server-initiated notifications (GET) and session termination (DELETE)
+  const handleSessionRequest = async (req: Request & { auth?: AuthInfo }, res: Response) => {
+    const caller = await identifyCaller(req, res);
+    const session = caller && findCallerSession(req.header("mcp-session-id"), caller, res);
+    if (session) {
+      await session.transport.handleRequest(req, res);
+    }
+  };
+
+  app.get("/mcp", handleSessionRequest);
+  app.delete("/mcp", handleSessionRequest);
+
   // Health check endpoint
   app.get("/health", (_req, res) => {
     res.json({ status: "ok", service: "google-chat-mcp-server" });
   });
 
+  const idleTimeout = Number(process.env.HTTP_SESSION_IDLE_TIMEOUT_MS || "1800000");
+  if (!Number.isInteger(idleTimeout) || idleTimeout <= 0) {
+    console.error(`Invalid HTTP_SESSION_IDLE_TIMEOUT_MS '${process.env.HTTP_SESSION_IDLE_TIMEOUT_MS}': expected a positive number of milliseconds`);
+    process.exit(1);
+  }
+  const stopSweeper = startIdleSweeper(idleTimeout);
+
   const port = parseInt(process.env.PORT || "3000", 10);
-  app.listen(port, () => {
-    console.error(`Google Chat MCP server running on http://localhost:${port}/mcp`);
+  const httpServer = app.listen(port, host, () => {
+    console.error(`Google Chat MCP server running on http://${host}:${port}/mcp`);
+  });
+
+  // Close sessions and stop accepting connections before exiting
+  const shutdown = async () => {
+    console.error("Shutting down...");
+    stopSweeper();
+    await closeAllSessions();
+    httpServer.close(() => process.exit(0));
+  };
+  process.once("SIGINT", shutdown);
+  process.once("SIGTERM", shutdown);
+}
+
+/**
+ * Run the one-time OAuth consent flow and write the refresh token to the cache.
+ */
+async function runAuth(): Promise<void> {
+  const config = getOAuthClientConfig();
+  if (!config) {
+    console.error("Set GOOGLE_OAUTH_CLIENT_ID and GOOGLE_OAUTH_CLIENT_SECRET to a Desktop app OAuth client first.");
+    process.exit(1);
+  }
+
+  await runConsentFlow(config, getChatScopes());
+  console.error(`Authorization complete. Refresh token written to ${config.tokenCachePath}`);
+}
+
+/**
+ * Export a space's transcript from the command line. Ctrl-C stops after the
+ * current page; running the same command again resumes from the checkpoint.
+ */
+async function runExport(args: string[]): Promise<void> {
+  const usage = "Usage: google-chat-mcp-server export <spaces/...> [--format markdown|jsonl|html] [--output FILE] " +
+    "[--start DATE] [--end DATE] [--no-threads] [--reactions] [--no-attachments] [--restart]";
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        format: { type: "string", default: ExportFormat.MARKDOWN },
+        output: { type: "string" },
+        start: { type: "string" },
+        end: { type: "string" },
+        "no-threads": { type: "boolean", default: false },
+        reactions: { type: "boolean", default: false },
+        "no-attachments": { type: "boolean", default: false },
+        restart: { type: "boolean", default: false }
+      }
+    });
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    console.error(usage);
+    process.exit(1);
+  }
+  const { values, positionals } = parsed;
+
+  const spaceName = positionals[0];
+  const format = values.format as ExportFormat;
+  if (!spaceName || !/^spaces\/[^/]+$/.test(spaceName) || !Object.values(ExportFormat).includes(format)) {
+    console.error(usage);
+    process.exit(1);
+  }
+  const startTime = values.start ? Date.parse(values.start) : undefined;
+  const endTime = values.end ? Date.parse(values.end) : undefined;
+  if (Number.isNaN(startTime) || Number.isNaN(endTime)) {
+    console.error("--start and --end must be dates like 2024-05-01 or RFC 3339 times.");
+    process.exit(1);
+  }
+
+  await initializeApiClient();
+
+  // Outside the tool, any path the user can write to is fine
+  const file = values.output ? path.resolve(values.output) : resolveExportPath(spaceName, format)!;
+  const options = {
+    spaceName,
+    format,
+    startTime: startTime !== undefined ? new Date(startTime).toISOString() : undefined,
+    endTime: endTime !== undefined ? new Date(endTime).toISOString() : undefined,
+    includeThreads: !values["no-threads"],
+    includeReactions: values.reactions,
+    includeAttachments: !values["no-attachments"],
+    restart: values.restart
+  };
+  const targetError = await checkExportTarget(file, options, "pass --restart");
+  if (targetError) {
+    console.error(targetError);
+    process.exit(1);
+  }
+
+  const controller = new AbortController();
+  process.once("SIGINT", () => {
+    console.error("Stopping after the current page...");
+    controller.abort();
   });
+
+  let result;
+  try {
+    result = await exportSpace(file, options, async (_progress, _total, message) => {
+      console.error(message);
+    }, controller.signal);
+  } catch (error) {
+    console.error("Export failed:", handleApiError(error).replace(/^Error: /, ""));
+    console.error("Messages fetched so far are kept; run the same command again to resume.");
+    process.exit(1);
+  }
+
+  if (!result.complete) {
+    console.error(`Paused after ${result.messageCount} messages. Run the same command again to resume.`);
+    process.exit(130);
+  }
+  console.error(`Exported ${result.messageCount} messages in ${result.threadCount} threads to ${result.path}`);
 }
 
 // Main entry point
 const transport = process.env.TRANSPORT || "stdio";
 
-if (transport === "http") {
+if (process.argv[2] === "auth") {
+  runAuth().catch((error) => {
+    console.error("Authorization failed:", error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  });
+} else if (process.argv[2] === "export") {
+  runExport(process.argv.slice(3)).catch((error) => {
+    console.error("Export failed:", error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  });
+} else if (transport === "http") {
   runHTTP().catch((error) => {
     console.error("Server error:", error);
     process.exit(1);
@@ -0,0 +1,241 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { AxiosError } from "axios";
+import { makeApiRequest, handleApiError } from "../services/api-client.js";
+import { runWithRequestCredentials } from "../services/tenancy.js";
+import { resolveMentionNames } from "../services/mentions.js";
+import { isToolPermitted } from "../services/http-auth.js";
+import { paginate } from "../services/pagination.js";
+import type { ToolExtra } from "../services/progress.js";
+import { formatSpace, formatMessagesList } from "../services/formatters.js";
+import { MAX_PAGE_SIZE, ResponseFormat } from "../constants.js";
+import type { Space, Message, ListSpacesResponse, ListMessagesResponse } from "../types.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_MESSAGES_PER_SPACE = 200;
+const MAX_DIGEST_SPACES = 10;
+
+interface History {
+  messages: Message[];
+  // Older messages matched the filter but were left out
+  truncated: boolean;
+}
+
+/**
+ * Register prompts for common Chat workflows. Each prompt fetches the
+ * messages it needs up front and embeds them in the prompt text.
+ */
+export function registerAllPrompts(server: McpServer): void {
+  server.registerPrompt(
+    "catch_up",
+    {
+      title: "Catch Up on a Space",
+      description: "Summarize what happened in a space since a given time",
+      argsSchema: {
+        space: z.string().describe("Space resource name (e.g., 'spaces/AAAA')"),
+        since: z.string().optional().describe("Date or RFC 3339 time to start from (default: 24 hours ago)")
+      }
+    },
+    (args, extra) => buildPrompt(extra, async () => {
+      const since = parseSince(args.since, DAY_MS);
+      const space = await makeApiRequest<Space>(args.space, "GET");
+      const history = await fetchMessages(args.space, `createTime > "${since}"`);
+
+      return [
+        `Catch me up on the Google Chat space below. Summarize what was discussed since ${since}: ` +
+        "decisions made, open questions, action items (with owners) and anything that needs my attention. " +
+        "Cite message IDs for important points.",
+        formatSpace(space, ResponseFormat.MARKDOWN),
+        formatHistory(history)
+      ];
+    })
+  );
+
+  server.registerPrompt(
+    "draft_thread_reply",
+    {
+      title: "Draft a Thread Reply",
+      description: "Draft a reply to a thread using the whole conversation as context",
+      argsSchema: {
+        thread: z.string().describe("Thread resource name (e.g., 'spaces/AAAA/threads/BBBB')"),
+        intent: z.string().optional().describe("What the reply should say or achieve")
+      }
+    },
+    (args, extra) => buildPrompt(extra, async () => {
+      const spaceName = args.thread.split("/threads/")[0];
+      if (!/^spaces\/[^/]+$/.test(spaceName) || spaceName === args.thread) {
+        throw new Error(`Invalid thread '${args.thread}': expected spaces/{space}/threads/{thread}`);
+      }
+      const history = await fetchMessages(spaceName, `thread.name = ${args.thread}`);
+
+      return [
+        "Draft a reply to the Google Chat thread below. Match the tone of the conversation and keep it concise. " +
+        (args.intent ? `The reply should: ${args.intent}. ` : "") +
+        "Show me the draft first. When I approve it, send it with google_chat_create_message " +
+        `using spaceName='${spaceName}' and threadName='${args.thread}'.`,
+        formatHistory(history)
+      ];
+    })
+  );
+
+  server.registerPrompt(
+    "weekly_digest",
+    {
+      title: "Weekly Digest",
+      description: "Prepare a digest of activity across several spaces",
+      argsSchema: {
+        spaces: z.string().describe("Comma-separated space resource names (e.g., 'spaces/AAAA,spaces/BBBB')"),
+        since: z.string().optional().describe("Date or RFC 3339 time to start from (default: 7 days ago)")
+      }
+    },
+    (args, extra) => buildPrompt(extra, async () => {
+      const since = parseSince(args.since, 7 * DAY_MS);
+      const spaceNames = args.spaces.split(",").map(name => name.trim()).filter(Boolean);
+      if (spaceNames.length === 0 || spaceNames.length > MAX_DIGEST_SPACES) {
+        throw new Error(`Provide between 1 and ${MAX_DIGEST_SPACES} spaces`);
+      }
+
+      const sections: string[] = [];
+      for (const spaceName of spaceNames) {
+        const space = await makeApiRequest<Space>(spaceName, "GET");
+        const history = await fetchMessages(spaceName, `createTime > "${since}"`);
+        sections.push(`# ${space.displayName || space.name} (\`${space.name}\`)\n\n` + formatHistory(history));
+      }
+
+      return [
+        `Prepare a digest of activity since ${since} across the Google Chat spaces below. ` +
+        "Give each space a short section with highlights, decisions and open items, then finish with " +
+        "a list of follow-ups across all spaces. Skip spaces with no meaningful activity.",
+        ...sections
+      ];
+    })
+  );
+
+  server.registerPrompt(
+    "triage_mentions",
+    {
+      title: "Triage My Mentions",
+      description: "Find messages that mention me and sort them by what needs a response",
+      argsSchema: {
+        user: z.string().optional().describe("Your user resource name (e.g., 'users/123'); without it every mention is included"),
+        spaces: z.string().optional().describe("Comma-separated spaces to check (default: your most recently active spaces)"),
+        since: z.string().optional().describe("Date or RFC 3339 time to start from (default: 3 days ago)")
+      }
+    },
+    (args, extra) => buildPrompt(extra, async () => {
+      const since = parseSince(args.since, 3 * DAY_MS);
+      const spaceNames = args.spaces
+        ? args.spaces.split(",").map(name => name.trim()).filter(Boolean).slice(0, MAX_DIGEST_SPACES)
+        : await findActiveSpaces(since);
+
+      const mentions: Message[] = [];
+      const truncated: string[] = [];
+      for (const spaceName of spaceNames) {
+        const history = await fetchMessages(spaceName, `createTime > "${since}"`);
+        mentions.push(...history.messages.filter(message => mentionsUser(message, args.user)));
+        if (history.truncated) {
+          truncated.push(spaceName);
+        }
+      }
+      const list = formatMessagesList(mentions, ResponseFormat.MARKDOWN, false);
+
+      return [
+        `Triage the Google Chat messages below that mention ${args.user ? `me (${args.user})` : "someone"} since ${since}. ` +
+        (args.user ? "" : "Focus on mentions of me and @all. ") +
+        "Group them into: needs my reply, needs action, FYI. For each, give the space, the message ID and a one-line summary.",
+        truncated.length > 0
+          ? `Note: only the newest ${MAX_MESSAGES_PER_SPACE} messages of ${truncated.join(", ")} were checked; ` +
+            `earlier mentions there are not included.\n\n${list}`
+          : list
+      ];
+    })
+  );
+}
+
+/**
+ * Run a prompt's fetches with the caller's credentials and join the parts into one user message.
+ * API keys restricted to certain tools need access to google_chat_list_messages.
+ */
+async function buildPrompt(extra: ToolExtra, build: () => Promise<string[]>): Promise<GetPromptResult> {
+  if (!isToolPermitted(extra.authInfo, "google_chat_list_messages")) {
+    throw new Error("This API key is not permitted to read messages.");
+  }
+
+  let parts: string[];
+  try {
+    parts = await runWithRequestCredentials(extra, build);
+  } catch (error) {
+    // Argument problems are already readable; API errors get the usual explanation
+    throw error instanceof AxiosError ? new Error(handleApiError(error)) : error;
+  }
+
+  return {
+    messages: [{ role: "user", content: { type: "text", text: parts.join("\n\n---\n\n") } }]
+  };
+}
+
+/**
+ * Fetch the newest MAX_MESSAGES_PER_SPACE messages matching a filter, returned
+ * oldest first with mentioned users' names filled in.
+ */
+async function fetchMessages(spaceName: string, filter: string): Promise<History> {
+  // Newest first, so the cap leaves out the oldest messages rather than the latest
+  const result = await paginate<Message>(async (pageToken, pageSize) => {
+    const response = await makeApiRequest<ListMessagesResponse>(
+      `${spaceName}/messages`,
+      "GET",
+      undefined,
+      { pageSize, pageToken, filter, orderBy: "createTime desc" }
+    );
+    return { items: response.messages || [], nextPageToken: response.nextPageToken };
+  }, { pageSize: MAX_PAGE_SIZE, maxItems: MAX_MESSAGES_PER_SPACE });
+
+  const messages = result.items.reverse();
+  await resolveMentionNames(messages);
+  return { messages, truncated: Boolean(result.nextPageToken) };
+}
+
+/**
+ * Format fetched messages, saying so when older ones were left out.
+ */
+function formatHistory(history: History): string {
+  const list = formatMessagesList(history.messages, ResponseFormat.MARKDOWN, false);
+  if (!history.truncated) {
+    return list;
+  }
+  return `Note: only the newest ${MAX_MESSAGES_PER_SPACE} messages are included; earlier ones were left out.\n\n${list}`;
+}
+
+/**
+ * The caller's spaces with activity since the given time, most recent first.
+ */
+async function findActiveSpaces(since: string): Promise<string[]> {
+  const response = await makeApiRequest<ListSpacesResponse>("spaces", "GET", undefined, { pageSize: 100 });
+  return (response.spaces || [])
+    .filter(space => !space.lastActiveTime || space.lastActiveTime > since)
+    .sort((a, b) => (b.lastActiveTime || "").localeCompare(a.lastActiveTime || ""))
+    .slice(0, MAX_DIGEST_SPACES)
+    .map(space => space.name);
+}
+
+function mentionsUser(message: Message, user: string | undefined): boolean {
+  return (message.annotations || []).some(annotation =>
+    annotation.type === "USER_MENTION" &&
+    (!user || [user, "users/all"].includes(annotation.userMention?.user?.name || ""))
+  );
+}
+
+/**
+ * Normalize a prompt's `since` argument to RFC 3339, defaulting to a time in the past.
+ */
+function parseSince(value: string | undefined, defaultAgoMs: number): string {
+  if (!value) {
+    return new Date(Date.now() - defaultAgoMs).toISOString();
+  }
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid date '${value}': use a date like 2024-05-01 or an RFC 3339 time`);
+  }
+  return new Date(time).toISOString();
+}
@@ -0,0 +1,333 @@
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { Variables } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type ReadResourceResult
+} from "@modelcontextprotocol/sdk/types.js";
+import path from "node:path";
+import { makeApiRequest, handleApiError } from "../services/api-client.js";
+import {
+  runWithRequestCredentials,
+  resolveCallerKey,
+  getGoogleCredentials,
+  getAccessTokenExpiry
+} from "../services/tenancy.js";
+import { resolveMentionNames } from "../services/mentions.js";
+import { readThreadMessages } from "../services/threads.js";
+import { isToolPermitted } from "../services/http-auth.js";
+import { createSubscriptionManager } from "../services/subscriptions.js";
+import { onSpaceEvent } from "../services/event-hub.js";
+import { listExports, readExport, getExportUri, getExportDir, EXPORT_URI_PREFIX } from "../services/export.js";
+import type { ToolExtra } from "../services/progress.js";
+import { formatSpace, formatMessage, formatMessagesList, formatThread } from "../services/formatters.js";
+import { ResponseFormat } from "../constants.js";
+import type { Space, Message, ListSpacesResponse, ListMessagesResponse } from "../types.js";
+
+const URI_SCHEME = "gchat://";
+const RECENT_MESSAGES = 25;
+// Pages of spaces fetched when listing resources
+const MAX_SPACE_PAGES = 10;
+
+// gchat://spaces/AAAA, gchat://spaces/AAAA/messages/BBBB, gchat://spaces/AAAA/threads/CCCC
+const RESOURCE_URI = /^gchat:\/\/(spaces\/[^/]+)(?:\/(messages|threads)\/([^/]+))?$/;
+
+/**
+ * Register Google Chat spaces, messages and threads, and finished space exports,
+ * as MCP resources, including resources/subscribe support backed by space event polling.
+ */
+export function registerAllResources(server: McpServer): void {
+  server.registerResource(
+    "space",
+    new ResourceTemplate(`${URI_SCHEME}spaces/{space}`, { list: listSpaceResources }),
+    {
+      title: "Google Chat Space",
+      description: "A space's details and its most recent messages",
+      mimeType: "text/markdown"
+    },
+    (uri, variables, extra) => readResource(uri, extra, "google_chat_get_space", async () => {
+      const spaceName = `spaces/${variable(variables, "space")}`;
+      const space = await makeApiRequest<Space>(spaceName, "GET");
+      const response = await makeApiRequest<ListMessagesResponse>(
+        `${spaceName}/messages`,
+        "GET",
+        undefined,
+        { pageSize: RECENT_MESSAGES, orderBy: "createTime desc" }
+      );
+      const messages = (response.messages || []).reverse();
+      await resolveMentionNames(messages);
+
+      return {
+        markdown: `${formatSpace(space, ResponseFormat.MARKDOWN)}\n\n${formatMessagesList(messages, ResponseFormat.MARKDOWN, false)}`,
+        json: JSON.stringify({ space, messages }, null, 2)
+      };
+    })
+  );
+
+  server.registerResource(
+    "message",
+    new ResourceTemplate(`${URI_SCHEME}spaces/{space}/messages/{message}`, { list: undefined }),
+    {
+      title: "Google Chat Message",
+      description: "A single message with its sender, thread and attachments",
+      mimeType: "text/markdown"
+    },
+    (uri, variables, extra) => readResource(uri, extra, "google_chat_get_message", async () => {
+      const message = await makeApiRequest<Message>(
+        `spaces/${variable(variables, "space")}/messages/${variable(variables, "message")}`,
+        "GET"
+      );
+      await resolveMentionNames([message]);
+      return {
+        markdown: formatMessage(message, ResponseFormat.MARKDOWN),
+        json: formatMessage(message, ResponseFormat.JSON)
+      };
+    })
+  );
+
+  server.registerResource(
+    "thread",
+    new ResourceTemplate(`${URI_SCHEME}spaces/{space}/threads/{thread}`, { list: undefined }),
+    {
+      title: "Google Chat Thread",
+      description: "All messages in a thread, oldest first",
+      mimeType: "text/markdown"
+    },
+    (uri, variables, extra) => readResource(uri, extra, "google_chat_get_thread", async () => {
+      const spaceName = `spaces/${variable(variables, "space")}`;
+      const threadName = `${spaceName}/threads/${variable(variables, "thread")}`;
+      const result = await readThreadMessages(threadName, {}, extra);
+      const messages = result.items;
+      const hasMore = !!result.nextPageToken;
+      await resolveMentionNames(messages);
+
+      return {
+        markdown: formatThread(threadName, messages, ResponseFormat.MARKDOWN, hasMore, result.nextPageToken),
+        json: formatThread(threadName, messages, ResponseFormat.JSON, hasMore, result.nextPageToken)
+      };
+    })
+  );
+
+  server.registerResource(
+    "export",
+    new ResourceTemplate(`${EXPORT_URI_PREFIX}{file}`, { list: listExportResources }),
+    {
+      title: "Google Chat Space Export",
+      description: "A transcript written by google_chat_export_space, readable only by the caller that wrote it"
+    },
+    async (uri, variables, extra) => {
+      if (!isToolPermitted(extra.authInfo, "google_chat_export_space")) {
+        throw new Error(`This API key is not permitted to read ${uri.href}.`);
+      }
+
+      let relativePath: string;
+      try {
+        relativePath = decodeURIComponent(variable(variables, "file"));
+      } catch {
+        throw new Error(`Export not found: ${uri.href}`);
+      }
+      const exported = await readExport(relativePath, await resolveCallerKey(extra.authInfo));
+      if (!exported) {
+        throw new Error(`Export not found: ${uri.href}`);
+      }
+      return {
+        contents: [{ uri: uri.href, mimeType: exported.mimeType, text: exported.text }]
+      };
+    }
+  );
+
+  registerResourceSubscriptions(server);
+}
+
+/**
+ * List the finished exports in the caller's export directory as resources.
+ */
+async function listExportResources(extra: ToolExtra) {
+  if (!isToolPermitted(extra.authInfo, "google_chat_export_space")) {
+    return { resources: [] };
+  }
+
+  const callerKey = await resolveCallerKey(extra.authInfo);
+  const dir = getExportDir(callerKey);
+  const files = await listExports(callerKey);
+  return {
+    resources: files.map(file => ({
+      uri: getExportUri(path.join(dir, file), callerKey),
+      name: file,
+      description: "Space export"
+    }))
+  };
+}
+
+/**
+ * List the caller's spaces as resources.
+ */
+async function listSpaceResources(extra: ToolExtra) {
+  if (!isToolPermitted(extra.authInfo, "google_chat_list_spaces")) {
+    return { resources: [] };
+  }
+
+  return runWithRequestCredentials(extra, async () => {
+    const spaces: Space[] = [];
+    let pageToken: string | undefined;
+    let pages = 0;
+    try {
+      do {
+        const response = await makeApiRequest<ListSpacesResponse>("spaces", "GET", undefined, {
+          pageSize: 100,
+          pageToken
+        });
+        spaces.push(...(response.spaces || []));
+        pageToken = response.nextPageToken;
+      } while (pageToken && ++pages < MAX_SPACE_PAGES);
+    } catch (error) {
+      throw new Error(handleApiError(error));
+    }
+
+    return {
+      resources: spaces.map(space => ({
+        uri: `${URI_SCHEME}${space.name}`,
+        name: space.displayName || space.name,
+        title: space.displayName || space.name,
+        description: `${space.spaceType || "Space"} ${space.name}`,
+        mimeType: "text/markdown"
+      }))
+    };
+  });
+}
+
+/**
+ * Read a resource with the caller's credentials and return it as both markdown and JSON.
+ * API keys restricted to certain tools may only read what the matching tool would return.
+ */
+async function readResource(
+  uri: URL,
+  extra: ToolExtra,
+  toolName: string,
+  read: () => Promise<{ markdown: string; json: string }>
+): Promise<ReadResourceResult> {
+  if (!isToolPermitted(extra.authInfo, toolName)) {
+    throw new Error(`This API key is not permitted to read ${uri.href}.`);
+  }
+
+  try {
+    const { markdown, json } = await runWithRequestCredentials(extra, read);
+    return {
+      contents: [
+        { uri: uri.href, mimeType: "text/markdown", text: markdown },
+        { uri: uri.href, mimeType: "application/json", text: json }
+      ]
+    };
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+}
+
+function variable(variables: Variables, name: string): string {
+  const value = variables[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Handle resources/subscribe and resources/unsubscribe. Each subscribed space
+ * is polled for events; a resource is reported updated when an event touches it.
+ */
+function registerResourceSubscriptions(server: McpServer): void {
+  // Subscribed URI -> space name
+  const subscribedUris = new Map<string, string>();
+  // Space name -> event subscription id
+  const spaceSubscriptions = new Map<string, string>();
+
+  const manager = createSubscriptionManager(async (subscription, events) => {
+    if (!server.isConnected()) {
+      return;
+    }
+    const payload = JSON.stringify(events);
+    for (const [uri, spaceName] of subscribedUris) {
+      if (spaceName === subscription.spaceName && isAffected(uri, payload)) {
+        await server.server.sendResourceUpdated({ uri });
+      }
+    }
+  }, {
+    // A space whose polling ended (e.g. its token expired) can be subscribed to again
+    onEnd: (subscription) => {
+      spaceSubscriptions.delete(subscription.spaceName);
+      for (const [uri, spaceName] of subscribedUris) {
+        if (spaceName === subscription.spaceName) {
+          subscribedUris.delete(uri);
+        }
+      }
+    }
+  });
+
+  const stopListening = onSpaceEvent((spaceName, event) => {
+    void manager.deliver(spaceName, [event]);
+  });
+
+  const onclose = server.server.onclose;
+  server.server.onclose = () => {
+    stopListening();
+    manager.stopAll();
+    onclose?.();
+  };
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+    const uri = request.params.uri;
+    const match = RESOURCE_URI.exec(uri);
+    if (!match) {
+      throw new Error(`Cannot subscribe to ${uri}: not a Google Chat resource`);
+    }
+    const spaceName = match[1];
+    if (!isToolPermitted(extra.authInfo, "google_chat_list_space_events")) {
+      throw new Error(`This API key is not permitted to subscribe to ${uri}.`);
+    }
+
+    if (!spaceSubscriptions.has(spaceName)) {
+      // Background polls keep using this request's token, which cannot be refreshed
+      const accessToken = getGoogleCredentials(extra.authInfo)?.accessToken;
+      const expiry = accessToken ? getAccessTokenExpiry(accessToken) : undefined;
+      await runWithRequestCredentials(extra, async () => {
+        const subscription = manager.subscribe({
+          spaceName,
+          expiresAt: expiry ? new Date(expiry).toISOString() : undefined
+        });
+        try {
+          // Fail now if the caller cannot read this space's events
+          await manager.poll(subscription.id);
+        } catch (error) {
+          manager.unsubscribe(subscription.id);
+          throw new Error(handleApiError(error));
+        }
+        spaceSubscriptions.set(spaceName, subscription.id);
+      });
+    }
+    subscribedUris.set(uri, spaceName);
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    const spaceName = subscribedUris.get(request.params.uri);
+    subscribedUris.delete(request.params.uri);
+
+    if (spaceName && ![...subscribedUris.values()].includes(spaceName)) {
+      manager.unsubscribe(spaceSubscriptions.get(spaceName)!);
+      spaceSubscriptions.delete(spaceName);
+    }
+    return {};
+  });
+}
+
+/**
+ * Whether a batch of events (serialized) touches the resource at uri.
+ * A space changes with any of its events; a message or thread only when named.
+ */
+function isAffected(uri: string, payload: string): boolean {
+  const [, spaceName, kind, id] = RESOURCE_URI.exec(uri) || [];
+  if (!kind) {
+    return true;
+  }
+  const name = `${spaceName}/${kind}/${id}`;
+  return payload.includes(`${name}"`) || payload.includes(`${name}/`);
+}
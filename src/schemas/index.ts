@@ -1,11 +1,36 @@
 import { z } from "zod";
-import { ResponseFormat, SpaceType, MembershipRole } from "../constants.js";
+import {
+  ResponseFormat,
+  SpaceType,
+  MembershipRole,
+  UploadType,
+  SpaceEventType,
+  TextFormat,
+  ExportFormat,
+  MigrationPlatform,
+  DEFAULT_DOWNLOAD_SIZE,
+  MAX_DOWNLOAD_SIZE,
+  MAX_CARD_WIDGETS,
+  DEFAULT_MAX_PAGES,
+  MAX_PAGES_LIMIT,
+  MAX_ITEMS_LIMIT,
+  MAX_SEARCH_SPACES,
+  DEFAULT_SEARCH_SCAN_LIMIT,
+  MAX_SEARCH_SCAN_LIMIT,
+  MAX_IMPORT_MESSAGES,
+  MAX_IMPORT_MEMBERS,
+  MAX_IMPORT_TEXT_LENGTH
+} from "../constants.js";
 
 // Common schemas
 export const ResponseFormatSchema = z.nativeEnum(ResponseFormat)
   .default(ResponseFormat.MARKDOWN)
   .describe("Output format: 'markdown' for human-readable or 'json' for machine-readable");
 
+export const TextFormatSchema = z.nativeEnum(TextFormat)
+  .default(TextFormat.CHAT)
+  .describe("How text is written: 'chat' sends it as-is using Chat formatting, 'markdown' converts standard Markdown first");
+
 export const PaginationSchema = z.object({
   pageSize: z.number()
     .int()
@@ -18,6 +43,16 @@ export const PaginationSchema = z.object({
     .describe("Token for pagination to get the next page of results")
 }).strict();
 
+// Auto-pagination options shared by list tools
+const AutoPaginationShape = {
+  all: z.boolean().default(false)
+    .describe("Fetch every page instead of one, bounded by maxItems and maxPages"),
+  maxItems: z.number().int().min(1).max(MAX_ITEMS_LIMIT).optional()
+    .describe("Fetch pages until this many items are collected"),
+  maxPages: z.number().int().min(1).max(MAX_PAGES_LIMIT).optional()
+    .describe(`Most pages to fetch when walking pages (default: ${DEFAULT_MAX_PAGES})`)
+};
+
 // Space schemas
 export const ListSpacesInputSchema = z.object({
   pageSize: z.number().int().min(1).max(100).default(25)
@@ -26,6 +61,7 @@ export const ListSpacesInputSchema = z.object({
     .describe("Token for pagination"),
   filter: z.string().optional()
     .describe("Filter for spaces (e.g., 'spaceType = \"SPACE\"')"),
+  ...AutoPaginationShape,
   response_format: ResponseFormatSchema
 }).strict();
 
@@ -92,6 +128,7 @@ export const SearchSpacesInputSchema = z.object({
     .describe("Maximum number of results (1-100)"),
   pageToken: z.string().optional()
     .describe("Token for pagination"),
+  ...AutoPaginationShape,
   response_format: ResponseFormatSchema
 }).strict();
 
@@ -117,6 +154,80 @@ export const ListMessagesInputSchema = z.object({
     .describe("Order messages by a field (e.g., 'createTime desc')"),
   showDeleted: z.boolean().default(false)
     .describe("Whether to include deleted messages"),
+  groupByThread: z.boolean().default(false)
+    .describe("Group the page of messages into threads, each root followed by its replies"),
+  ...AutoPaginationShape,
+  response_format: ResponseFormatSchema
+}).strict();
+
+export const GetThreadInputSchema = z.object({
+  threadName: z.string()
+    .regex(/^spaces\/[^/]+\/threads\/[^/]+$/, "Expected spaces/{space}/threads/{thread}")
+    .optional()
+    .describe("The resource name of the thread (e.g., 'spaces/AAAA/threads/BBBB')"),
+  messageName: z.string()
+    .regex(/^spaces\/[^/]+\/messages\/[^/]+$/, "Expected spaces/{space}/messages/{message}")
+    .optional()
+    .describe("Any message in the thread, used when the thread name is not known"),
+  pageToken: z.string().optional()
+    .describe("Token to continue a thread too long to return at once"),
+  showDeleted: z.boolean().default(false)
+    .describe("Whether to include deleted messages"),
+  response_format: ResponseFormatSchema
+}).strict();
+
+export const SearchMessagesInputSchema = z.object({
+  query: z.string()
+    .min(1)
+    .max(500)
+    .describe("Keywords that must all appear (case-insensitive), or a regular expression when regex is true"),
+  regex: z.boolean().default(false)
+    .describe("Treat query as a JavaScript regular expression (matched case-insensitively)"),
+  sender: z.string().optional()
+    .describe("Only messages from this sender: a user resource name ('users/123'), an email or a display name"),
+  startTime: z.string().optional()
+    .describe("Only messages created after this date or RFC 3339 time"),
+  endTime: z.string().optional()
+    .describe("Only messages created before this date or RFC 3339 time"),
+  spaces: z.array(z.string().regex(/^spaces\/[^/]+$/, "Expected spaces/{space}"))
+    .min(1)
+    .max(MAX_SEARCH_SPACES)
+    .optional()
+    .describe("Spaces to search (default: all of the caller's spaces)"),
+  hasAttachment: z.boolean().optional()
+    .describe("Only messages with (true) or without (false) attachments"),
+  hasReaction: z.boolean().optional()
+    .describe("Only messages with (true) or without (false) reactions"),
+  maxResults: z.number().int().min(1).max(100).default(20)
+    .describe("Maximum number of hits to return (1-100)"),
+  maxMessagesPerSpace: z.number().int().min(1).max(MAX_SEARCH_SCAN_LIMIT).default(DEFAULT_SEARCH_SCAN_LIMIT)
+    .describe("Most messages to scan in each space, newest first"),
+  response_format: ResponseFormatSchema
+}).strict();
+
+export const ExportSpaceInputSchema = z.object({
+  spaceName: z.string()
+    .regex(/^spaces\/[^/]+$/, "Expected spaces/{space}")
+    .describe("The resource name of the space to export (e.g., 'spaces/AAAA1234567')"),
+  format: z.nativeEnum(ExportFormat).default(ExportFormat.MARKDOWN)
+    .describe("Transcript format: 'markdown', 'jsonl' (one message per line) or 'html' (a self-contained page)"),
+  outputPath: z.string()
+    .min(1)
+    .max(255)
+    .optional()
+    .describe("File to write, relative to your export directory (default: the space ID plus the format's extension)"),
+  startTime: z.string().optional()
+    .describe("Only messages created after this date or RFC 3339 time"),
+  endTime: z.string().optional()
+    .describe("Only messages created before this date or RFC 3339 time"),
+  includeThreads: z.boolean().default(true)
+    .describe("Include thread replies, grouped under the message that started each thread"),
+  includeReactions: z.boolean().default(false)
+    .describe("Include reactions and who added them (one extra request per message with reactions)"),
+  includeAttachments: z.boolean().default(true)
+    .describe("Include attachment metadata: file names, types and Drive references"),
+  restart: z.boolean().default(false)
+    .describe("Discard any checkpoint and existing file at the output path and start over"),
   response_format: ResponseFormatSchema
 }).strict();
 
@@ -127,6 +238,119 @@ export const GetMessageInputSchema = z.object({
   response_format: ResponseFormatSchema
 }).strict();
 
+export const MessageAttachmentInputSchema = z.union([
+  z.object({
+    attachmentDataRef: z.object({
+      resourceName: z.string().min(1)
+        .describe("Resource name returned by google_chat_upload_attachment"),
+      attachmentUploadToken: z.string().optional()
+        .describe("Upload token returned alongside the resource name")
+    }).strict()
+  }).strict(),
+  z.object({
+    driveFileId: z.string()
+      .min(1)
+      .describe("ID of a Google Drive file to attach")
+  }).strict(),
+  z.object({
+    filename: z.string()
+      .min(1)
+      .describe("The filename for the attachment"),
+    contentType: z.string()
+      .min(1)
+      .describe("The MIME type of the file"),
+    contentBase64: z.string()
+      .min(1)
+      .describe("The file content encoded as base64; uploaded before the message is sent")
+  }).strict()
+]);
+
+// Card v2 schemas (a subset of the Google Workspace card format)
+const OnClickSchema = z.object({
+  openLink: z.object({
+    url: z.string().url().describe("URL to open")
+  }).strict()
+}).strict().describe("Action when clicked; only openLink is supported");
+
+const IconSchema = z.union([
+  z.object({
+    knownIcon: z.string().min(1).describe("Built-in icon name, e.g. 'STAR', 'CLOCK', 'EMAIL', 'PERSON'")
+  }).strict(),
+  z.object({
+    iconUrl: z.string().url().describe("HTTPS URL of a custom icon"),
+    altText: z.string().optional().describe("Accessibility text")
+  }).strict()
+]);
+
+const CardButtonSchema = z.object({
+  text: z.string().min(1).describe("Button label"),
+  icon: IconSchema.optional(),
+  disabled: z.boolean().optional(),
+  onClick: OnClickSchema
+}).strict();
+
+const CardWidgetSchema = z.union([
+  z.object({
+    textParagraph: z.object({
+      text: z.string().min(1).describe("Text; supports Chat's basic HTML formatting (<b>, <i>, <a href>, <br>)")
+    }).strict()
+  }).strict(),
+  z.object({
+    decoratedText: z.object({
+      topLabel: z.string().optional(),
+      text: z.string().min(1),
+      bottomLabel: z.string().optional(),
+      startIcon: IconSchema.optional(),
+      wrapText: z.boolean().optional(),
+      button: CardButtonSchema.optional(),
+      onClick: OnClickSchema.optional()
+    }).strict()
+  }).strict(),
+  z.object({
+    image: z.object({
+      imageUrl: z.string().url().describe("HTTPS URL of the image"),
+      altText: z.string().optional(),
+      onClick: OnClickSchema.optional()
+    }).strict()
+  }).strict(),
+  z.object({
+    buttonList: z.object({
+      buttons: z.array(CardButtonSchema).min(1)
+    }).strict()
+  }).strict(),
+  z.object({
+    divider: z.object({}).strict()
+  }).strict()
+]).describe("Exactly one of textParagraph, decoratedText, image, buttonList or divider");
+
+const CardSectionSchema = z.object({
+  header: z.string().optional().describe("Section header"),
+  collapsible: z.boolean().optional(),
+  uncollapsibleWidgetsCount: z.number().int().min(1).optional()
+    .describe("Widgets shown while a collapsible section is collapsed"),
+  widgets: z.array(CardWidgetSchema).min(1)
+}).strict().refine(
+  section => !section.uncollapsibleWidgetsCount || section.uncollapsibleWidgetsCount <= section.widgets.length,
+  { message: "uncollapsibleWidgetsCount cannot exceed the number of widgets" }
+);
+
+export const CardV2InputSchema = z.object({
+  cardId: z.string().min(1).describe("Identifier of the card within the message"),
+  card: z.object({
+    header: z.object({
+      title: z.string().min(1),
+      subtitle: z.string().optional(),
+      imageUrl: z.string().url().optional(),
+      imageType: z.enum(["SQUARE", "CIRCLE"]).optional(),
+      imageAltText: z.string().optional()
+    }).strict().optional(),
+    sections: z.array(CardSectionSchema).min(1)
+  }).strict()
+}).strict().refine(
+  cardV2 => cardV2.card.sections.reduce((total, section) => total + section.widgets.length, 0) <= MAX_CARD_WIDGETS,
+  { message: `A card can contain at most ${MAX_CARD_WIDGETS} widgets` }
+);
+
 export const CreateMessageInputSchema = z.object({
   spaceName: z.string()
     .min(1)
@@ -134,7 +358,25 @@ export const CreateMessageInputSchema = z.object({
   text: z.string()
     .min(1)
     .max(4096)
-    .describe("The message text content"),
+    .optional()
+    .describe("The message text content (optional when attachments or cards are given)"),
+  format: TextFormatSchema,
+  mentions: z.array(z.string()
+    .regex(/^(@?all|users\/\S+|@?[^\s@]+@[^\s@]+\.[^\s@]+)$/, "Use an email address, a user resource name ('users/123') or 'all'"))
+    .max(50)
+    .optional()
+    .describe("Users to mention at the start of the message: email addresses, user resource names or 'all'"),
+  cardsV2: z.array(CardV2InputSchema)
+    .min(1)
+    .optional()
+    .describe("Cards to send with the message"),
+  fallbackText: z.string()
+    .optional()
+    .describe("Plain-text summary of the cards, shown in notifications and where cards can't render"),
+  attachments: z.array(MessageAttachmentInputSchema)
+    .max(10)
+    .optional()
+    .describe("Attachments: uploaded attachmentDataRefs, Drive file ids, or inline files to upload"),
   threadKey: z.string()
     .optional()
     .describe("Thread key to reply to a specific thread"),
@@ -157,7 +399,12 @@ export const UpdateMessageInputSchema = z.object({
   text: z.string()
     .min(1)
     .max(4096)
+    .optional()
     .describe("The new message text content"),
+  format: TextFormatSchema,
+  cardsV2: z.array(CardV2InputSchema)
+    .optional()
+    .describe("Replacement cards; an empty array removes all cards"),
   response_format: ResponseFormatSchema
 }).strict();
 
@@ -185,6 +432,7 @@ export const ListMembersInputSchema = z.object({
     .describe("Whether to include Google Groups"),
   showInvited: z.boolean().default(false)
     .describe("Whether to include invited members"),
+  ...AutoPaginationShape,
   response_format: ResponseFormatSchema
 }).strict();
 
@@ -208,6 +456,22 @@ export const CreateMemberInputSchema = z.object({
   response_format: ResponseFormatSchema
 }).strict();
 
+export const UpdateMemberInputSchema = z.object({
+  memberName: z.string()
+    .min(1)
+    .describe("The resource name of the membership to update (e.g., 'spaces/AAAA/members/BBBB')"),
+  role: z.enum([MembershipRole.ROLE_MEMBER, MembershipRole.ROLE_MANAGER])
+    .describe("The new role for the member"),
+  response_format: ResponseFormatSchema
+}).strict();
+
+export const ListManagersInputSchema = z.object({
+  spaceName: z.string()
+    .min(1)
+    .describe("The resource name of the space"),
+  response_format: ResponseFormatSchema
+}).strict();
+
 export const DeleteMemberInputSchema = z.object({
   memberName: z.string()
     .min(1)
@@ -225,6 +489,7 @@ export const ListReactionsInputSchema = z.object({
     .describe("Token for pagination"),
   filter: z.string().optional()
     .describe("Filter for reactions (e.g., 'emoji.unicode = \"\\U0001F44D\"')"),
+  ...AutoPaginationShape,
   response_format: ResponseFormatSchema
 }).strict();
 
@@ -244,6 +509,195 @@ export const DeleteReactionInputSchema = z.object({
     .describe("The resource name of the reaction to delete")
 }).strict();
 
+// Import mode schemas
+const ImportSpaceNameSchema = z.string()
+  .regex(/^spaces\/[^/]+$/, "Expected spaces/{space}")
+  .describe("The resource name of a space in import mode (e.g., 'spaces/AAAA')");
+
+const HistoricalTimeSchema = z.string()
+  .datetime({ offset: true });
+
+export const CreateImportSpaceInputSchema = z.object({
+  displayName: z.string()
+    .min(1)
+    .max(128)
+    .describe("Display name of the space"),
+  spaceType: z.nativeEnum(SpaceType)
+    .default(SpaceType.SPACE)
+    .describe("Type of space to create"),
+  createTime: HistoricalTimeSchema.optional()
+    .describe("When the space was originally created (RFC 3339); must not be after its first imported message"),
+  externalUserAllowed: z.boolean()
+    .default(false)
+    .describe("Whether external users can join"),
+  description: z.string()
+    .max(500)
+    .optional()
+    .describe("Description of the space"),
+  response_format: ResponseFormatSchema
+}).strict();
+
+export const ImportMessageInputSchema = z.object({
+  sender: z.string()
+    .email()
+    .describe("Email of the workspace user who originally sent the message; they are impersonated to post it"),
+  text: z.string()
+    .min(1)
+    .max(MAX_IMPORT_TEXT_LENGTH)
+    .describe("The message text, in Chat formatting"),
+  createTime: HistoricalTimeSchema
+    .describe("When the message was originally sent (RFC 3339)"),
+  threadKey: z.string()
+    .max(4000)
+    .optional()
+    .describe("Messages with the same threadKey form a thread; give the first message one too"),
+  messageId: z.string()
+    .regex(/^[a-z0-9-]{1,56}$/, "Use 1-56 lowercase letters, digits and hyphens")
+    .optional()
+    .describe("Stable ID from the source system; makes re-running an import skip messages already imported"),
+  reactions: z.array(z.object({
+    emoji: z.string().min(1).describe("Unicode emoji"),
+    users: z.array(z.string().email()).min(1).describe("Emails of the users who reacted")
+  }).strict())
+    .optional()
+    .describe("Reactions to add, each as the users who originally reacted")
+}).strict();
+
+export const ImportMessagesInputSchema = z.object({
+  spaceName: ImportSpaceNameSchema,
+  messages: z.array(ImportMessageInputSchema)
+    .min(1)
+    .max(MAX_IMPORT_MESSAGES)
+    .describe(`Historical messages to post in order, oldest first (at most ${MAX_IMPORT_MESSAGES})`),
+  response_format: ResponseFormatSchema
+}).strict();
+
+export const ImportMembersInputSchema = z.object({
+  spaceName: ImportSpaceNameSchema,
+  members: z.array(z.object({
+    user: z.string()
+      .min(1)
+      .describe("Email or user resource name (e.g., 'users/123456789')"),
+    role: z.nativeEnum(MembershipRole)
+      .default(MembershipRole.ROLE_MEMBER)
+      .describe("The member's role"),
+    createTime: HistoricalTimeSchema.optional()
+      .describe("When they joined (RFC 3339)"),
+    deleteTime: HistoricalTimeSchema.optional()
+      .describe("When they left (RFC 3339), for people who are no longer members")
+  }).strict())
+    .min(1)
+    .max(MAX_IMPORT_MEMBERS)
+    .describe(`Memberships to import (at most ${MAX_IMPORT_MEMBERS})`),
+  response_format: ResponseFormatSchema
+}).strict();
+
+export const CompleteImportInputSchema = z.object({
+  spaceName: ImportSpaceNameSchema,
+  response_format: ResponseFormatSchema
+}).strict();
+
+export const MigrateExportInputSchema = z.object({
+  platform: z.nativeEnum(MigrationPlatform)
+    .describe("Where the export comes from: 'slack' or 'mattermost'"),
+  path: z.string()
+    .min(1)
+    .max(255)
+    .describe("Export directory, relative to the import directory (an unzipped Slack export, or a directory holding a Mattermost bulk export .jsonl file)"),
+  channels: z.array(z.string().min(1))
+    .max(500)
+    .optional()
+    .describe("Channel names to migrate, as team/channel for Mattermost (default: all public and private channels)"),
+  userMap: z.record(z.string().email())
+    .optional()
+    .describe("Source user ID or username -> workspace email, for users whose export has no email or a different one"),
+  spacePrefix: z.string()
+    .max(40)
+    .default("")
+    .describe("Text placed before each channel name to form the space's display name"),
+  targetSpaces: z.record(z.string().regex(/^spaces\/[^/]+$/, "Expected spaces/{space}"))
+    .optional()
+    .describe("Channel name -> import-mode space created by an earlier run, to continue it instead of creating a new space"),
+  dryRun: z.boolean()
+    .default(true)
+    .describe("Only report what would be migrated (default: true)"),
+  completeImport: z.boolean()
+    .default(false)
+    .describe("Complete each space's import once its messages are in, making it visible to members"),
+  response_format: ResponseFormatSchema
+}).strict();
+
+// Space event schemas
+export const ListSpaceEventsInputSchema = z.object({
+  spaceName: z.string()
+    .min(1)
+    .describe("The resource name of the space (e.g., 'spaces/AAAA1234567')"),
+  eventTypes: z.array(z.nativeEnum(SpaceEventType))
+    .min(1)
+    .default(Object.values(SpaceEventType))
+    .describe("Event types to include (default: all message, membership, reaction and space events)"),
+  startTime: z.string()
+    .datetime({ offset: true })
+    .describe("Only events at or after this RFC 3339 time (required; at most 28 days ago)"),
+  endTime: z.string()
+    .datetime({ offset: true })
+    .optional()
+    .describe("Only events before this RFC 3339 time (default: now)"),
+  pageSize: z.number().int().min(1).max(1000).default(100)
+    .describe("Maximum number of events to return (1-1000)"),
+  pageToken: z.string().optional()
+    .describe("Token for pagination"),
+  response_format: ResponseFormatSchema
+}).strict();
+
+export const GetSpaceEventInputSchema = z.object({
+  eventName: z.string()
+    .min(1)
+    .describe("The resource name of the space event (e.g., 'spaces/AAAA/spaceEvents/BBBB')"),
+  response_format: ResponseFormatSchema
+}).strict();
+
+export const ListRecentSpaceEventsInputSchema = z.object({
+  spaceName: z.string()
+    .min(1)
+    .describe("The resource name of the space (e.g., 'spaces/AAAA1234567')"),
+  eventTypes: z.array(z.nativeEnum(SpaceEventType))
+    .min(1)
+    .default(Object.values(SpaceEventType))
+    .describe("Event types to include (default: all)"),
+  limit: z.number().int().min(1).max(500).default(50)
+    .describe("Maximum number of events to return, newest first (1-500)"),
+  response_format: ResponseFormatSchema
+}).strict();
+
+// Subscription schemas
+export const SubscribeSpaceInputSchema = z.object({
+  spaceName: z.string()
+    .min(1)
+    .describe("The resource name of the space to watch (e.g., 'spaces/AAAA1234567')"),
+  eventTypes: z.array(z.nativeEnum(SpaceEventType))
+    .min(1)
+    .default(Object.values(SpaceEventType))
+    .describe("Event types to deliver (default: all message, membership, reaction and space events)"),
+  intervalSeconds: z.number().int().min(10).max(3600).default(30)
+    .describe("How often to check for new events, in seconds (10-3600)"),
+  startTime: z.string()
+    .datetime({ offset: true })
+    .optional()
+    .describe("Also deliver events since this RFC 3339 time (default: only new events)"),
+  response_format: ResponseFormatSchema
+}).strict();
+
+export const UnsubscribeSpaceInputSchema = z.object({
+  subscriptionId: z.string()
+    .min(1)
+    .describe("The subscription id returned by google_chat_subscribe_space")
+}).strict();
+
+export const ListSubscriptionsInputSchema = z.object({
+  response_format: ResponseFormatSchema
+}).strict();
+
 // Attachment schemas
 export const GetAttachmentInputSchema = z.object({
   attachmentName: z.string()
@@ -252,6 +706,18 @@ export const GetAttachmentInputSchema = z.object({
   response_format: ResponseFormatSchema
 }).strict();
 
+export const DownloadAttachmentInputSchema = z.object({
+  attachmentName: z.string()
+    .min(1)
+    .describe("The resource name of the attachment (e.g., 'spaces/AAAA/messages/BBBB/attachments/CCCC')"),
+  maxBytes: z.number()
+    .int()
+    .min(1)
+    .max(MAX_DOWNLOAD_SIZE)
+    .default(DEFAULT_DOWNLOAD_SIZE)
+    .describe("Maximum number of bytes to download; larger attachments are rejected")
+}).strict();
+
 export const UploadAttachmentInputSchema = z.object({
   spaceName: z.string()
     .min(1)
@@ -265,6 +731,9 @@ export const UploadAttachmentInputSchema = z.object({
   contentBase64: z.string()
     .min(1)
     .describe("The file content encoded as base64"),
+  uploadType: z.nativeEnum(UploadType)
+    .default(UploadType.AUTO)
+    .describe("Upload strategy: 'multipart' for small files, 'resumable' for large ones, or 'auto' to pick by size"),
   response_format: ResponseFormatSchema
 }).strict();
 
@@ -277,16 +746,36 @@ export type DeleteSpaceInput = z.infer<typeof DeleteSpaceInputSchema>;
 export type SearchSpacesInput = z.infer<typeof SearchSpacesInputSchema>;
 export type FindDirectMessageInput = z.infer<typeof FindDirectMessageInputSchema>;
 export type ListMessagesInput = z.infer<typeof ListMessagesInputSchema>;
+export type GetThreadInput = z.infer<typeof GetThreadInputSchema>;
+export type SearchMessagesInput = z.infer<typeof SearchMessagesInputSchema>;
+export type ExportSpaceInput = z.infer<typeof ExportSpaceInputSchema>;
 export type GetMessageInput = z.infer<typeof GetMessageInputSchema>;
+export type MessageAttachmentInput = z.infer<typeof MessageAttachmentInputSchema>;
+export type CardV2Input = z.infer<typeof CardV2InputSchema>;
 export type CreateMessageInput = z.infer<typeof CreateMessageInputSchema>;
 export type UpdateMessageInput = z.infer<typeof UpdateMessageInputSchema>;
 export type DeleteMessageInput = z.infer<typeof DeleteMessageInputSchema>;
 export type ListMembersInput = z.infer<typeof ListMembersInputSchema>;
 export type GetMemberInput = z.infer<typeof GetMemberInputSchema>;
 export type CreateMemberInput = z.infer<typeof CreateMemberInputSchema>;
+export type UpdateMemberInput = z.infer<typeof UpdateMemberInputSchema>;
+export type ListManagersInput = z.infer<typeof ListManagersInputSchema>;
 export type DeleteMemberInput = z.infer<typeof DeleteMemberInputSchema>;
 export type ListReactionsInput = z.infer<typeof ListReactionsInputSchema>;
 export type CreateReactionInput = z.infer<typeof CreateReactionInputSchema>;
 export type DeleteReactionInput = z.infer<typeof DeleteReactionInputSchema>;
+export type CreateImportSpaceInput = z.infer<typeof CreateImportSpaceInputSchema>;
+export type ImportMessageInput = z.infer<typeof ImportMessageInputSchema>;
+export type ImportMessagesInput = z.infer<typeof ImportMessagesInputSchema>;
+export type ImportMembersInput = z.infer<typeof ImportMembersInputSchema>;
+export type CompleteImportInput = z.infer<typeof CompleteImportInputSchema>;
+export type MigrateExportInput = z.infer<typeof MigrateExportInputSchema>;
+export type ListSpaceEventsInput = z.infer<typeof ListSpaceEventsInputSchema>;
+export type GetSpaceEventInput = z.infer<typeof GetSpaceEventInputSchema>;
+export type ListRecentSpaceEventsInput = z.infer<typeof ListRecentSpaceEventsInputSchema>;
+export type SubscribeSpaceInput = z.infer<typeof SubscribeSpaceInputSchema>;
+export type UnsubscribeSpaceInput = z.infer<typeof UnsubscribeSpaceInputSchema>;
+export type ListSubscriptionsInput = z.infer<typeof ListSubscriptionsInputSchema>;
 export type GetAttachmentInput = z.infer<typeof GetAttachmentInputSchema>;
+export type DownloadAttachmentInput = z.infer<typeof DownloadAttachmentInputSchema>;
 export type UploadAttachmentInput = z.infer<typeof UploadAttachmentInputSchema>;
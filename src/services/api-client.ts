@@ -1,6 +1,14 @@
-import axios, { AxiosError, AxiosInstance } from "axios";
-import { GoogleAuth, OAuth2Client } from "google-auth-library";
-import { API_BASE_URL } from "../constants.js";
+import { AsyncLocalStorage } from "node:async_hooks";
+import axios, { AxiosError, AxiosInstance, AxiosRequestConfig, AxiosResponse } from "axios";
+import { GoogleAuth, OAuth2Client, type GoogleAuthOptions } from "google-auth-library";
+import { API_BASE_URL, UPLOAD_BASE_URL } from "../constants.js";
+import { getOAuthClientConfig, createUserOAuthClient } from "./oauth.js";
+import { getActingUser, getDefaultSubject } from "./impersonation.js";
+import { withRetry, getRetryPolicy, getAttempts, type RetryPolicy } from "./retry.js";
+
+export interface RequestOptions {
+  retry?: Partial<RetryPolicy>;
+}
 
 // Google Chat API scopes
 const CHAT_SCOPES = [
@@ -15,23 +23,51 @@ const CHAT_SCOPES = [
   "https://www.googleapis.com/auth/chat.import"
 ];
 
+// Scopes requested in read-only mode
+const CHAT_READONLY_SCOPES = [
+  "https://www.googleapis.com/auth/chat.spaces.readonly",
+  "https://www.googleapis.com/auth/chat.messages.readonly",
+  "https://www.googleapis.com/auth/chat.memberships.readonly"
+];
+
+/**
+ * Whether the server runs in read-only mode (GOOGLE_CHAT_READ_ONLY=true).
+ * Only read-only tools are registered and only read-only scopes are requested.
+ */
+export function isReadOnlyMode(): boolean {
+  return ["1", "true", "yes"].includes((process.env.GOOGLE_CHAT_READ_ONLY || "").toLowerCase());
+}
+
+/**
+ * OAuth scopes to request for the current mode.
+ */
+export function getChatScopes(): string[] {
+  return isReadOnlyMode() ? CHAT_READONLY_SCOPES : CHAT_SCOPES;
+}
+
 let apiClient: AxiosInstance | null = null;
 let authClient: GoogleAuth | OAuth2Client | null = null;
+let serviceAccountOptions: GoogleAuthOptions | null = null;
+// Service account clients with a JWT subject, one per impersonated user
+const delegatedAuthClients = new Map<string, GoogleAuth>();
+// API client bound to the current request when it carries its own credentials
+const requestClient = new AsyncLocalStorage<AxiosInstance>();
 
 /**
  * Initialize the Google Chat API client with authentication.
- * Supports both service account and OAuth2 authentication.
+ * Supports service account, OAuth2 refresh-token and static OAuth2 token authentication.
  */
 export async function initializeApiClient(): Promise<void> {
   // Check for service account credentials
   const serviceAccountPath = process.env.GOOGLE_APPLICATION_CREDENTIALS;
   const serviceAccountJson = process.env.GOOGLE_SERVICE_ACCOUNT_JSON;
   const oauthToken = process.env.GOOGLE_OAUTH_TOKEN;
+  const oauthConfig = getOAuthClientConfig();
 
   if (serviceAccountPath || serviceAccountJson) {
     // Use service account authentication
-    const authOptions: { scopes: string[]; credentials?: object } = {
-      scopes: CHAT_SCOPES
+    const authOptions: GoogleAuthOptions = {
+      scopes: getChatScopes()
     };
 
     if (serviceAccountJson) {
@@ -42,7 +78,18 @@ export async function initializeApiClient(): Promise<void> {
       }
     }
 
+    serviceAccountOptions = authOptions;
+    delegatedAuthClients.clear();
     authClient = new GoogleAuth(authOptions);
+  } else if (getDefaultSubject()) {
+    // Only a service account can act as another user; any other client would fail on every request
+    throw new Error(
+      "GOOGLE_IMPERSONATE_USER requires service account authentication with domain-wide delegation. " +
+      "Set GOOGLE_APPLICATION_CREDENTIALS or GOOGLE_SERVICE_ACCOUNT_JSON, or unset GOOGLE_IMPERSONATE_USER."
+    );
+  } else if (oauthConfig) {
+    // Use OAuth2 client credentials with a refresh token; access tokens renew automatically
+    authClient = await createUserOAuthClient(oauthConfig);
   } else if (oauthToken) {
     // Use OAuth2 token directly
     authClient = new OAuth2Client();
@@ -52,11 +99,19 @@ export async function initializeApiClient(): Promise<void> {
       "Authentication required. Set one of:\n" +
       "  - GOOGLE_APPLICATION_CREDENTIALS: Path to service account JSON file\n" +
       "  - GOOGLE_SERVICE_ACCOUNT_JSON: Service account JSON as a string\n" +
+      "  - GOOGLE_OAUTH_CLIENT_ID + GOOGLE_OAUTH_CLIENT_SECRET: OAuth2 client with a refresh token\n" +
       "  - GOOGLE_OAUTH_TOKEN: OAuth2 access token"
     );
   }
 
-  apiClient = axios.create({
+  apiClient = createAxiosClient(getAccessToken);
+}
+
+/**
+ * Create an axios instance for the Chat API that authenticates with tokens from getToken.
+ */
+function createAxiosClient(getToken: () => Promise<string>): AxiosInstance {
+  const client = axios.create({
     baseURL: API_BASE_URL,
     timeout: 30000,
     headers: {
@@ -66,11 +121,57 @@ export async function initializeApiClient(): Promise<void> {
   });
 
   // Add request interceptor to attach auth token
-  apiClient.interceptors.request.use(async (config) => {
-    const token = await getAccessToken();
+  client.interceptors.request.use(async (config) => {
+    const token = await getToken();
     config.headers.Authorization = `Bearer ${token}`;
     return config;
   });
+
+  return client;
+}
+
+/**
+ * Create an isolated API client that always uses the given access token.
+ */
+export function createTokenApiClient(accessToken: string): AxiosInstance {
+  return createAxiosClient(async () => accessToken);
+}
+
+/**
+ * Create an isolated API client that always acts as the given workspace user.
+ * Requires service account authentication with domain-wide delegation.
+ */
+export function createDelegatedApiClient(subject: string): AxiosInstance {
+  return createAxiosClient(() => getDelegatedToken(subject));
+}
+
+/**
+ * Run fn with every API request going through the given client instead of the shared one.
+ */
+export function runWithApiClient<T>(client: AxiosInstance, fn: () => Promise<T>): Promise<T> {
+  return requestClient.run(client, fn);
+}
+
+/**
+ * Who API requests in the current context run as: the request's own client, or
+ * the user the shared client acts as. Caches keyed by it are never shared between callers.
+ */
+export function getCallerScope(): AxiosInstance | string {
+  return requestClient.getStore() || getActingUser() || "";
+}
+
+/**
+ * The API client for the current request: its own client if bound, otherwise the shared one.
+ */
+async function getApiClient(): Promise<AxiosInstance> {
+  const bound = requestClient.getStore();
+  if (bound) {
+    return bound;
+  }
+  if (!apiClient) {
+    await initializeApiClient();
+  }
+  return apiClient!;
 }
 
 /**
@@ -81,16 +182,53 @@ async function getAccessToken(): Promise<string> {
     throw new Error("API client not initialized. Call initializeApiClient() first.");
   }
 
+  // Domain-wide delegation: act as a workspace user via the JWT subject
+  const subject = getActingUser();
+  if (subject) {
+    return getDelegatedToken(subject);
+  }
+
   if (authClient instanceof OAuth2Client) {
     const credentials = authClient.credentials;
+    if (credentials.refresh_token) {
+      // Refreshes the access token when it is missing or about to expire
+      const { token } = await authClient.getAccessToken();
+      if (!token) {
+        throw new Error("Failed to refresh OAuth2 access token");
+      }
+      return token;
+    }
     if (credentials.access_token) {
       return credentials.access_token;
     }
-    throw new Error("OAuth2 token expired or invalid");
+    throw new Error("OAuth2 token expired or invalid. Configure a refresh token to renew it automatically.");
   }
 
-  // GoogleAuth (service account)
-  const client = await authClient.getClient();
+  return getServiceAccountToken(authClient);
+}
+
+/**
+ * Get an access token for a workspace user via the service account's JWT subject.
+ */
+async function getDelegatedToken(subject: string): Promise<string> {
+  if (!serviceAccountOptions) {
+    throw new Error(
+      `Cannot act as ${subject}: impersonation requires service account authentication with domain-wide delegation`
+    );
+  }
+  let delegated = delegatedAuthClients.get(subject);
+  if (!delegated) {
+    delegated = new GoogleAuth({ ...serviceAccountOptions, clientOptions: { subject } });
+    delegatedAuthClients.set(subject, delegated);
+  }
+  return getServiceAccountToken(delegated);
+}
+
+/**
+ * Get an access token from a service account GoogleAuth instance.
+ */
+async function getServiceAccountToken(auth: GoogleAuth): Promise<string> {
+  const client = await auth.getClient();
   const tokenResponse = await client.getAccessToken();
   if (!tokenResponse.token) {
     throw new Error("Failed to obtain access token");
@@ -105,22 +243,46 @@ export async function makeApiRequest<T>(
   endpoint: string,
   method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE" = "GET",
   data?: unknown,
-  params?: Record<string, unknown>
+  params?: Record<string, unknown>,
+  options: RequestOptions = {}
 ): Promise<T> {
-  if (!apiClient) {
-    await initializeApiClient();
-  }
+  const client = await getApiClient();
 
-  const response = await apiClient!({
-    method,
-    url: endpoint,
-    data,
-    params
-  });
+  const response = await withRetry(method, getRetryPolicy(options.retry), () =>
+    client({
+      method,
+      url: endpoint,
+      data,
+      params
+    })
+  );
 
   return response.data;
 }
 
+/**
+ * Make a raw authenticated request and return the full response.
+ * Used for media endpoints where headers and status codes matter.
+ */
+export async function makeRawRequest<T = unknown>(
+  config: AxiosRequestConfig,
+  options: RequestOptions = {}
+): Promise<AxiosResponse<T>> {
+  const client = await getApiClient();
+
+  return withRetry(config.method || "GET", getRetryPolicy(options.retry), () =>
+    client.request<T>(config)
+  );
+}
+
+/**
+ * Get the base URL of the Google Chat media upload endpoint.
+ * GOOGLE_CHAT_UPLOAD_BASE_URL points uploads at a local stand-in server.
+ */
+export function getUploadBaseUrl(): string {
+  return (process.env.GOOGLE_CHAT_UPLOAD_BASE_URL || UPLOAD_BASE_URL).replace(/\/+$/, "");
+}
+
 /**
  * Handle API errors and return user-friendly messages.
  */
@@ -142,12 +304,14 @@ export function handleApiError(error: unknown): string {
           return `Error: Resource not found - ${message}. Check that the space/message/member ID is correct.`;
         case 409:
           return `Error: Conflict - ${message}. The resource may already exist or be in an invalid state.`;
+        case 413:
+          return `Error: Payload too large - ${message}. The attachment exceeds the size allowed by Google Chat.`;
         case 429:
-          return "Error: Rate limit exceeded. Please wait before making more requests.";
+          return `Error: Rate limit exceeded${attemptsNote(error)}. Please wait before making more requests.`;
         case 500:
-          return "Error: Google Chat API server error. Please try again later.";
+          return `Error: Google Chat API server error${attemptsNote(error)}. Please try again later.`;
         case 503:
-          return "Error: Google Chat API is temporarily unavailable. Please try again later.";
+          return `Error: Google Chat API is temporarily unavailable${attemptsNote(error)}. Please try again later.`;
         default:
           return `Error: API request failed (${status}) - ${message}`;
       }
@@ -161,6 +325,14 @@ export function handleApiError(error: unknown): string {
   return `Error: Unexpected error - ${error instanceof Error ? error.message : String(error)}`;
 }
 
+/**
+ * Describe how many attempts were made before giving up, if more than one.
+ */
+function attemptsNote(error: unknown): string {
+  const attempts = getAttempts(error);
+  return attempts > 1 ? ` (gave up after ${attempts} attempts)` : "";
+}
+
 /**
  * Check if the API client is initialized.
  */
@@ -0,0 +1,48 @@
+import type { Readable } from "node:stream";
+import { makeRawRequest } from "./api-client.js";
+
+export interface DownloadResult {
+  data: Buffer;
+  contentType?: string;
+}
+
+/**
+ * Stream attachment bytes from the Chat media endpoint.
+ * Aborts as soon as the payload exceeds maxBytes instead of buffering it all.
+ */
+export async function downloadAttachmentMedia(
+  resourceName: string,
+  maxBytes: number
+): Promise<DownloadResult> {
+  const response = await makeRawRequest<Readable>({
+    method: "GET",
+    url: `media/${resourceName}`,
+    params: { alt: "media" },
+    responseType: "stream",
+    headers: { Accept: "*/*" }
+  });
+
+  const stream = response.data;
+  const declared = parseInt(String(response.headers["content-length"] ?? ""), 10);
+  if (!isNaN(declared) && declared > maxBytes) {
+    stream.destroy();
+    throw new Error(`Attachment is ${declared} bytes, which exceeds the maximum of ${maxBytes} bytes`);
+  }
+
+  const chunks: Buffer[] = [];
+  let received = 0;
+  for await (const chunk of stream) {
+    received += chunk.length;
+    if (received > maxBytes) {
+      stream.destroy();
+      throw new Error(`Attachment exceeds the maximum of ${maxBytes} bytes`);
+    }
+    chunks.push(chunk);
+  }
+
+  const contentType = response.headers["content-type"];
+  return {
+    data: Buffer.concat(chunks),
+    contentType: typeof contentType === "string" ? contentType.split(";")[0].trim() : undefined
+  };
+}
@@ -0,0 +1,66 @@
+import { MAX_RECENT_EVENTS, type SpaceEventType } from "../constants.js";
+import type { SpaceEvent } from "../types.js";
+
+export type SpaceEventListener = (spaceName: string, event: SpaceEvent) => void;
+
+interface RecentEvent {
+  spaceName: string;
+  event: SpaceEvent;
+}
+
+const listeners = new Set<SpaceEventListener>();
+// Oldest first; bounded so a busy push subscription cannot grow it without limit
+const recent: RecentEvent[] = [];
+
+/**
+ * Record a pushed space event and hand it to every listener.
+ * Returns false for a redelivery of an event already recorded.
+ */
+export function publishSpaceEvent(spaceName: string, event: SpaceEvent): boolean {
+  // Pub/Sub delivers at least once
+  if (recent.some(entry => entry.event.name === event.name)) {
+    return false;
+  }
+
+  recent.push({ spaceName, event });
+  if (recent.length > MAX_RECENT_EVENTS) {
+    recent.shift();
+  }
+
+  for (const listener of listeners) {
+    try {
+      listener(spaceName, event);
+    } catch (error) {
+      console.error(`Space event listener failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  return true;
+}
+
+/**
+ * Listen for pushed space events. Returns a function that stops listening.
+ */
+export function onSpaceEvent(listener: SpaceEventListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Most recent pushed events for a space, newest first.
+ */
+export function getRecentSpaceEvents(
+  spaceName: string,
+  eventTypes: SpaceEventType[],
+  limit: number
+): SpaceEvent[] {
+  const events: SpaceEvent[] = [];
+  for (let i = recent.length - 1; i >= 0 && events.length < limit; i--) {
+    const { spaceName: space, event } = recent[i];
+    if (space === spaceName && eventTypes.includes(event.eventType as SpaceEventType)) {
+      events.push(event);
+    }
+  }
+  return events;
+}
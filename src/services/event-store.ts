@@ -0,0 +1,48 @@
+import type { EventStore, EventId, StreamId } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+
+const DEFAULT_MAX_EVENTS = 1000;
+
+/**
+ * Bounded in-memory event store so clients can resume SSE streams with
+ * Last-Event-ID after a dropped connection. Oldest events are evicted first.
+ */
+export function createInMemoryEventStore(maxEvents = DEFAULT_MAX_EVENTS): EventStore {
+  const events = new Map<EventId, { streamId: StreamId; message: JSONRPCMessage }>();
+  let sequence = 0;
+
+  return {
+    async storeEvent(streamId, message) {
+      const eventId = `${streamId}_${(++sequence).toString().padStart(10, "0")}`;
+      events.set(eventId, { streamId, message });
+      if (events.size > maxEvents) {
+        events.delete(events.keys().next().value!);
+      }
+      return eventId;
+    },
+
+    async getStreamIdForEventId(eventId) {
+      return events.get(eventId)?.streamId;
+    },
+
+    async replayEventsAfter(lastEventId, { send }) {
+      const last = events.get(lastEventId);
+      if (!last) {
+        return "";
+      }
+
+      // Map iteration follows insertion order, which is event order
+      let found = false;
+      for (const [eventId, event] of events) {
+        if (eventId === lastEventId) {
+          found = true;
+          continue;
+        }
+        if (found && event.streamId === last.streamId) {
+          await send(eventId, event.message);
+        }
+      }
+      return last.streamId;
+    }
+  };
+}
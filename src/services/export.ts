@@ -0,0 +1,377 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { makeApiRequest } from "./api-client.js";
+import { paginate } from "./pagination.js";
+import { resolveMentionNames } from "./mentions.js";
+import type { ProgressCallback } from "./progress.js";
+import { formatTranscript } from "./formatters.js";
+import { DEFAULT_EXPORT_DIR, ExportFormat, MAX_PAGE_SIZE } from "../constants.js";
+import type { Space, Message, Reaction, ListMessagesResponse, ListReactionsResponse } from "../types.js";
+
+export interface ExportOptions {
+  spaceName: string;
+  format: ExportFormat;
+  // RFC 3339
+  startTime?: string;
+  endTime?: string;
+  includeThreads: boolean;
+  includeReactions: boolean;
+  includeAttachments: boolean;
+  restart: boolean;
+}
+
+/**
+ * A message as written to an export, with the full list of reactions when requested.
+ */
+export type ExportedMessage = Message & { reactions?: Reaction[] };
+
+export interface ExportResult {
+  [key: string]: unknown;
+  path: string;
+  format: ExportFormat;
+  spaceName: string;
+  spaceDisplayName?: string;
+  // False when the export was cancelled; calling again with the same options resumes it
+  complete: boolean;
+  resumed: boolean;
+  messageCount: number;
+  threadCount?: number;
+  firstMessageTime?: string;
+  lastMessageTime?: string;
+  bytes?: number;
+}
+
+/**
+ * Progress of an unfinished export, saved next to the output file after every page.
+ */
+interface Checkpoint {
+  spaceName: string;
+  format: ExportFormat;
+  startTime?: string;
+  endTime?: string;
+  includeThreads: boolean;
+  includeReactions: boolean;
+  includeAttachments: boolean;
+  // createTime of the last message fetched; the walk resumes after it
+  lastCreateTime?: string;
+  // Lines in the partial file that the checkpoint accounts for
+  messageCount: number;
+  updatedAt: string;
+}
+
+const EXTENSIONS: Record<ExportFormat, string> = {
+  [ExportFormat.MARKDOWN]: "md",
+  [ExportFormat.JSONL]: "jsonl",
+  [ExportFormat.HTML]: "html"
+};
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  [ExportFormat.MARKDOWN]: "text/markdown",
+  [ExportFormat.JSONL]: "application/x-ndjson",
+  [ExportFormat.HTML]: "text/html"
+};
+
+// Checkpoints and partial files kept next to an unfinished export
+const WORKING_FILE = /\.(partial\.jsonl|checkpoint\.json(\.tmp)?)$/;
+// Per-caller directories, named by resolveCallerKey, inside the export directory
+const CALLER_DIR = /^[0-9a-f]{32}$/;
+
+// Finished exports are readable as resources under this prefix
+export const EXPORT_URI_PREFIX = "gchat://exports/";
+
+/**
+ * Directory exports requested through the tool are written to. Each HTTP caller
+ * gets its own directory inside it, named by its caller key.
+ */
+export function getExportDir(callerKey?: string): string {
+  const dir = path.resolve(process.env.GOOGLE_CHAT_EXPORT_DIR || DEFAULT_EXPORT_DIR);
+  return callerKey ? path.join(dir, callerKey) : dir;
+}
+
+/**
+ * Absolute path for an export: outputPath inside the caller's export directory,
+ * or the space ID with the format's extension. Returns undefined when outputPath
+ * would leave that directory.
+ */
+export function resolveExportPath(
+  spaceName: string,
+  format: ExportFormat,
+  outputPath?: string,
+  callerKey?: string
+): string | undefined {
+  const dir = getExportDir(callerKey);
+  const file = path.resolve(dir, outputPath || `${spaceName.replace(/^spaces\//, "")}.${EXTENSIONS[format]}`);
+  return file.startsWith(dir + path.sep) ? file : undefined;
+}
+
+/**
+ * Finished exports in the caller's export directory, as paths relative to it.
+ */
+export async function listExports(callerKey?: string): Promise<string[]> {
+  const dir = getExportDir(callerKey);
+  const files: string[] = [];
+  const walk = async (relative: string): Promise<void> => {
+    const entries = await fs.readdir(path.join(dir, relative), { withFileTypes: true }).catch(() => []);
+    for (const entry of entries) {
+      const file = path.join(relative, entry.name);
+      if (entry.isDirectory()) {
+        // Without a caller key, leave out the directories of HTTP callers
+        if (relative || callerKey || !CALLER_DIR.test(entry.name)) {
+          await walk(file);
+        }
+      } else if (entry.isFile() && !WORKING_FILE.test(entry.name)) {
+        files.push(file);
+      }
+    }
+  };
+  await walk("");
+  return files.sort();
+}
+
+/**
+ * Resource URI of an export: its path relative to the caller's export directory, encoded as one segment.
+ */
+export function getExportUri(file: string, callerKey?: string): string {
+  const relative = path.relative(getExportDir(callerKey), file).split(path.sep).join("/");
+  return `${EXPORT_URI_PREFIX}${encodeURIComponent(relative)}`;
+}
+
+/**
+ * Read a finished export by its path relative to the caller's export directory.
+ * Returns undefined when there is no such export.
+ */
+export async function readExport(
+  relativePath: string,
+  callerKey?: string
+): Promise<{ text: string; mimeType: string } | undefined> {
+  const dir = getExportDir(callerKey);
+  const file = path.resolve(dir, ...relativePath.split("/"));
+  if (!file.startsWith(dir + path.sep) || WORKING_FILE.test(file)) {
+    return undefined;
+  }
+
+  let text: string;
+  try {
+    text = await fs.readFile(file, "utf8");
+  } catch {
+    return undefined;
+  }
+  const format = (Object.keys(EXTENSIONS) as ExportFormat[])
+    .find(key => file.endsWith(`.${EXTENSIONS[key]}`));
+  return { text, mimeType: format ? EXPORT_MIME_TYPES[format] : "text/plain" };
+}
+
+/**
+ * Explain why an export cannot be written to file, or return undefined when it can.
+ * restartHint tells the caller how to discard what is there, e.g. "set restart".
+ */
+export async function checkExportTarget(
+  file: string,
+  options: ExportOptions,
+  restartHint: string
+): Promise<string | undefined> {
+  if (options.restart) {
+    return undefined;
+  }
+  const checkpoint = await readCheckpoint(file);
+  if (checkpoint) {
+    const matches = checkpoint.spaceName === options.spaceName &&
+      checkpoint.format === options.format &&
+      checkpoint.startTime === options.startTime &&
+      checkpoint.endTime === options.endTime &&
+      checkpoint.includeThreads === options.includeThreads &&
+      checkpoint.includeReactions === options.includeReactions &&
+      checkpoint.includeAttachments === options.includeAttachments;
+    return matches
+      ? undefined
+      : `An unfinished export of ${checkpoint.spaceName} with different options is saved for ${file}. ` +
+        `Repeat it with the same options to resume, ${restartHint} to discard it, or choose another output path.`;
+  }
+  if (await exists(file)) {
+    return `${file} already exists. To overwrite it, ${restartHint}, or choose another output path.`;
+  }
+  return undefined;
+}
+
+/**
+ * Walk a space's messages oldest first and write them to file as a transcript.
+ * Messages are appended to a partial file with a checkpoint after every page,
+ * so a cancelled or failed export continues where it stopped when run again.
+ * The transcript is rendered once every message has been fetched.
+ */
+export async function exportSpace(
+  file: string,
+  options: ExportOptions,
+  onProgress: ProgressCallback,
+  signal?: AbortSignal
+): Promise<ExportResult> {
+  const space = await makeApiRequest<Space>(options.spaceName, "GET");
+  const partialPath = `${file}.partial.jsonl`;
+  if (options.restart) {
+    await fs.rm(checkpointPath(file), { force: true });
+    await fs.rm(partialPath, { force: true });
+  }
+
+  let checkpoint = await readCheckpoint(file);
+  const lines = await readLines(partialPath);
+  if (checkpoint && lines.length < checkpoint.messageCount) {
+    // The partial file lost messages the checkpoint counts, so it cannot be continued
+    checkpoint = null;
+  }
+  const resumed = !!checkpoint;
+  if (checkpoint) {
+    // Drop lines appended after the last checkpoint was saved
+    const kept = lines.slice(0, checkpoint.messageCount);
+    await fs.writeFile(partialPath, kept.map(line => line + "\n").join(""));
+  } else {
+    checkpoint = {
+      spaceName: options.spaceName,
+      format: options.format,
+      startTime: options.startTime,
+      endTime: options.endTime,
+      includeThreads: options.includeThreads,
+      includeReactions: options.includeReactions,
+      includeAttachments: options.includeAttachments,
+      messageCount: 0,
+      updatedAt: new Date().toISOString()
+    };
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(partialPath, "");
+    await writeCheckpoint(file, checkpoint);
+  }
+
+  const after = checkpoint.lastCreateTime || options.startTime;
+  const filter = [
+    after ? `createTime > "${after}"` : undefined,
+    options.endTime ? `createTime < "${options.endTime}"` : undefined
+  ].filter(Boolean).join(" AND ");
+
+  let pageToken: string | undefined;
+  do {
+    const response = await makeApiRequest<ListMessagesResponse>(
+      `${options.spaceName}/messages`,
+      "GET",
+      undefined,
+      { pageSize: MAX_PAGE_SIZE, pageToken, filter: filter || undefined, orderBy: "createTime asc" }
+    );
+    const messages = response.messages || [];
+    await resolveMentionNames(messages);
+
+    const exported: ExportedMessage[] = [];
+    for (const message of messages) {
+      if (options.includeThreads || !message.threadReply) {
+        exported.push(await prepareMessage(message, options));
+      }
+    }
+    await fs.appendFile(partialPath, exported.map(message => JSON.stringify(message) + "\n").join(""));
+
+    checkpoint.messageCount += exported.length;
+    checkpoint.lastCreateTime = messages[messages.length - 1]?.createTime || checkpoint.lastCreateTime;
+    checkpoint.updatedAt = new Date().toISOString();
+    await writeCheckpoint(file, checkpoint);
+    await onProgress(checkpoint.messageCount, undefined, `Exported ${checkpoint.messageCount} messages`);
+
+    pageToken = response.nextPageToken;
+  } while (pageToken && !signal?.aborted);
+
+  const result: ExportResult = {
+    path: file,
+    format: options.format,
+    spaceName: options.spaceName,
+    spaceDisplayName: space.displayName,
+    complete: !pageToken,
+    resumed,
+    messageCount: checkpoint.messageCount
+  };
+  if (pageToken) {
+    return result;
+  }
+
+  const messages = (await readLines(partialPath)).map(line => JSON.parse(line) as ExportedMessage);
+  if (options.format === ExportFormat.JSONL) {
+    await fs.rename(partialPath, file);
+  } else {
+    const transcript = formatTranscript({
+      space,
+      messages,
+      exportedAt: new Date().toISOString(),
+      startTime: options.startTime,
+      endTime: options.endTime
+    }, options.format);
+    await fs.writeFile(`${file}.tmp`, transcript);
+    await fs.rename(`${file}.tmp`, file);
+    await fs.rm(partialPath, { force: true });
+  }
+  await fs.rm(checkpointPath(file), { force: true });
+
+  return {
+    ...result,
+    threadCount: new Set(messages.map(message => message.thread?.name || message.name)).size,
+    firstMessageTime: messages[0]?.createTime,
+    lastMessageTime: messages[messages.length - 1]?.createTime,
+    bytes: (await fs.stat(file)).size
+  };
+}
+
+/**
+ * Trim a message to what the export asked for, fetching its reactions if wanted.
+ */
+async function prepareMessage(message: Message, options: ExportOptions): Promise<ExportedMessage> {
+  const exported: ExportedMessage = { ...message };
+  if (!options.includeAttachments) {
+    delete exported.attachment;
+  }
+  if (!options.includeReactions) {
+    delete exported.emojiReactionSummaries;
+  } else if (message.emojiReactionSummaries?.length) {
+    const reactions = await paginate<Reaction>(async (pageToken, pageSize) => {
+      const response = await makeApiRequest<ListReactionsResponse>(
+        `${message.name}/reactions`,
+        "GET",
+        undefined,
+        { pageSize, pageToken }
+      );
+      return { items: response.reactions || [], nextPageToken: response.nextPageToken };
+    }, { pageSize: MAX_PAGE_SIZE, all: true });
+    exported.reactions = reactions.items;
+  }
+  return exported;
+}
+
+function checkpointPath(file: string): string {
+  return `${file}.checkpoint.json`;
+}
+
+async function readCheckpoint(file: string): Promise<Checkpoint | null> {
+  try {
+    return JSON.parse(await fs.readFile(checkpointPath(file), "utf8")) as Checkpoint;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Replace the checkpoint in one step so an interrupted write never leaves half a file.
+ */
+async function writeCheckpoint(file: string, checkpoint: Checkpoint): Promise<void> {
+  const target = checkpointPath(file);
+  await fs.writeFile(`${target}.tmp`, JSON.stringify(checkpoint, null, 2));
+  await fs.rename(`${target}.tmp`, target);
+}
+
+async function readLines(file: string): Promise<string[]> {
+  try {
+    return (await fs.readFile(file, "utf8")).split("\n").filter(Boolean);
+  } catch {
+    return [];
+  }
+}
+
+async function exists(file: string): Promise<boolean> {
+  try {
+    await fs.access(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -1,5 +1,21 @@
-import { ResponseFormat, CHARACTER_LIMIT } from "../constants.js";
-import type { Space, Message, Member, Reaction, Attachment } from "../types.js";
+import { ResponseFormat, ExportFormat, MigrationPlatform, CHARACTER_LIMIT, MAX_IMPORT_TEXT_LENGTH, SpaceEventType } from "../constants.js";
+import type {
+  Space,
+  Message,
+  Member,
+  Reaction,
+  Attachment,
+  SpaceEvent,
+  Card,
+  Widget,
+  Button,
+  OnClick
+} from "../types.js";
+import type { Subscription } from "./subscriptions.js";
+import type { SearchResult } from "./search.js";
+import type { ExportedMessage, ExportResult } from "./export.js";
+import type { ImportMessagesResult, ImportMembersResult } from "./imports.js";
+import type { MigrationReport } from "./migration.js";
 
 /**
  * Format a space for display.
@@ -48,23 +64,20 @@ export function formatSpacesList(
   nextPageToken?: string
 ): string {
   if (format === ResponseFormat.JSON) {
-    return JSON.stringify({
+    return fitJsonToBudget({
       count: spaces.length,
       spaces,
       hasMore,
       nextPageToken
-    }, null, 2);
+    }, "spaces", () => summarizeSpaces(spaces));
   }
 
   if (spaces.length === 0) {
     return "No spaces found.";
   }
 
-  const lines: string[] = [];
-  lines.push(`# Spaces (${spaces.length} results)`);
-  lines.push("");
-
-  for (const space of spaces) {
+  const entries = spaces.map(space => {
+    const lines: string[] = [];
     lines.push(`## ${space.displayName || "Unnamed Space"}`);
     lines.push(`- **ID**: \`${space.name}\``);
     lines.push(`- **Type**: ${space.spaceType || space.type || "Unknown"}`);
@@ -72,18 +85,20 @@ export function formatSpacesList(
       lines.push(`- **Description**: ${space.spaceDetails.description.substring(0, 100)}${space.spaceDetails.description.length > 100 ? "..." : ""}`);
     }
     lines.push("");
-  }
-
-  if (hasMore && nextPageToken) {
-    lines.push(`---`);
-    lines.push(`*More results available. Use pageToken: \`${nextPageToken}\`*`);
-  }
+    return lines;
+  });
 
-  return truncateResponse(lines.join("\n"));
+  return fitToBudget(
+    [`# Spaces (${spaces.length} results)`, ""],
+    entries,
+    "spaces",
+    () => summarizeSpaces(spaces),
+    paginationFooter(hasMore, nextPageToken)
+  );
 }
 
 /**
- * Format a message for display.
+ * Format a message for display, including cards, attachments, quotes and rich links.
  */
 export function formatMessage(message: Message, format: ResponseFormat): string {
   if (format === ResponseFormat.JSON) {
@@ -95,17 +110,63 @@ export function formatMessage(message: Message, format: ResponseFormat): string
   lines.push(`- **ID**: \`${message.name}\``);
 
   if (message.sender) {
-    lines.push(`- **From**: ${message.sender.displayName || message.sender.name}`);
+    lines.push(`- **From**: ${formatSender(message)}`);
   }
 
   if (message.createTime) {
     lines.push(`- **Time**: ${formatTimestamp(message.createTime)}`);
   }
 
+  const status = describeMessageStatus(message);
+  if (status.length > 0) {
+    lines.push(`- **Status**: ${status.join(", ")}`);
+  }
+
+  if (message.quotedMessageMetadata?.name) {
+    lines.push(`- **Quotes**: \`${message.quotedMessageMetadata.name}\``);
+  }
+
+  const command = describeSlashCommand(message);
+  if (command) {
+    lines.push(`- **Slash Command**: ${command}`);
+  }
+
+  const mentioned = describeMentions(message);
+  if (mentioned.length > 0) {
+    lines.push(`- **Mentions**: ${mentioned.join(", ")}`);
+  }
+
   if (message.text) {
     lines.push("");
     lines.push("### Content");
-    lines.push(message.text);
+    lines.push(renderMentions(message.text, message));
+  } else if (message.deleteTime || message.deletionMetadata) {
+    lines.push("");
+    lines.push("*This message was deleted.*");
+  } else if (message.fallbackText) {
+    lines.push("");
+    lines.push("### Content");
+    lines.push(message.fallbackText);
+  }
+
+  const cards = formatCards(message);
+  if (cards.length > 0) {
+    lines.push("");
+    lines.push("### Cards");
+    lines.push(...cards);
+  }
+
+  if (message.attachment && message.attachment.length > 0) {
+    lines.push("");
+    lines.push("### Attachments");
+    lines.push(...message.attachment.map(attachment => `- ${describeAttachment(attachment)}`));
+  }
+
+  const links = describeRichLinks(message);
+  if (links.length > 0) {
+    lines.push("");
+    lines.push("### Links");
+    lines.push(...links.map(link => `- ${link}`));
   }
 
   if (message.thread?.name) {
@@ -123,6 +184,11 @@ export function formatMessage(message: Message, format: ResponseFormat): string
   return lines.join("\n");
 }
 
+export interface MessagesListOptions {
+  // Group the messages into threads instead of listing them in order
+  groupByThread?: boolean;
+}
+
 /**
  * Format a list of messages.
  */
@@ -130,41 +196,349 @@ export function formatMessagesList(
   messages: Message[],
   format: ResponseFormat,
   hasMore: boolean,
-  nextPageToken?: string
+  nextPageToken?: string,
+  options: MessagesListOptions = {}
 ): string {
   if (format === ResponseFormat.JSON) {
-    return JSON.stringify({
+    return fitJsonToBudget({
       count: messages.length,
       messages,
       hasMore,
       nextPageToken
-    }, null, 2);
+    }, "messages", () => summarizeMessages(messages));
   }
 
   if (messages.length === 0) {
     return "No messages found.";
   }
 
+  const header = [`# Messages (${messages.length} results)`, ""];
+  const footer = paginationFooter(hasMore, nextPageToken);
+  const summary = () => summarizeMessages(messages);
+
+  if (!options.groupByThread) {
+    const entries = messages.map(message => formatMessageEntry(message, "###"));
+    return fitToBudget(header, entries, "messages", summary, footer);
+  }
+
+  const entries = groupByThread(messages).map(thread => {
+    const lines: string[] = [];
+    const hasRoot = !thread.messages[0].threadReply;
+    const replies = thread.messages.length - (hasRoot ? 1 : 0);
+    lines.push(thread.name
+      ? `## Thread \`${thread.name}\` (${replies} ${replies === 1 ? "reply" : "replies"})`
+      : "## Message");
+    if (!hasRoot) {
+      lines.push("*Earlier messages in this thread are not in this page.*");
+    }
+    lines.push("");
+    thread.messages.forEach((message, index) => {
+      lines.push(...formatMessageEntry(message, index === 0 ? "###" : "#### ↳"));
+    });
+    return lines;
+  });
+  return fitToBudget(header, entries, "threads", summary, footer);
+}
+
+/**
+ * Format a whole thread: the root message followed by its replies, in full.
+ * A continued page holds later replies only.
+ */
+export function formatThread(
+  threadName: string,
+  messages: Message[],
+  format: ResponseFormat,
+  hasMore: boolean,
+  nextPageToken?: string,
+  continued = false
+): string {
+  if (format === ResponseFormat.JSON) {
+    return fitJsonToBudget({
+      threadName,
+      count: messages.length,
+      messages,
+      hasMore,
+      nextPageToken
+    }, "messages", () => summarizeMessages(messages));
+  }
+
+  if (messages.length === 0) {
+    return `No messages found in thread ${threadName}.`;
+  }
+
+  const replies = messages.length - 1;
+  const header = [
+    `# Thread \`${threadName}\``,
+    continued
+      ? `${messages.length} more ${messages.length === 1 ? "reply" : "replies"}, continuing the thread, oldest first.`
+      : `${messages.length} messages: the root and ${replies} ${replies === 1 ? "reply" : "replies"}, oldest first.`,
+    ""
+  ];
+
+  const entries = messages.map((message, index) => {
+    const lines: string[] = [];
+    const sender = message.sender ? formatSender(message) : "Unknown";
+    const time = message.createTime ? formatTimestamp(message.createTime) : "";
+    const status = describeMessageStatus(message).filter(flag => flag !== "thread reply");
+
+    lines.push(`## ${index === 0 && !continued ? "" : "↳ "}${sender} - ${time}${status.length > 0 ? ` (${status.join(", ")})` : ""}`);
+    lines.push(`- **ID**: \`${message.name}\``);
+    if (message.attachment && message.attachment.length > 0) {
+      lines.push(`- **Attachments**: ${message.attachment.map(describeAttachment).join("; ")}`);
+    }
+    lines.push("");
+    lines.push(message.text ? renderMentions(message.text, message) : messagePreview(message));
+    const cards = formatCards(message);
+    if (cards.length > 0) {
+      lines.push("");
+      lines.push(...cards);
+    }
+    lines.push("");
+    return lines;
+  });
+
+  const footer = hasMore && nextPageToken
+    ? ["---", `*The thread continues. Use pageToken: \`${nextPageToken}\`*`]
+    : [];
+  return fitToBudget(header, entries, "messages", () => summarizeMessages(messages), footer);
+}
+
+/**
+ * Format message search results, best hits first.
+ */
+export function formatSearchResults(query: string, result: SearchResult, format: ResponseFormat): string {
+  if (format === ResponseFormat.JSON) {
+    return fitJsonToBudget({ query, ...result }, "hits", () => ({ totalHits: result.totalHits }));
+  }
+
   const lines: string[] = [];
-  lines.push(`# Messages (${messages.length} results)`);
+  const shown = result.hits.length < result.totalHits ? `${result.hits.length} of ${result.totalHits}` : `${result.totalHits}`;
+  lines.push(`# Search results for "${query}" (${shown} ${result.totalHits === 1 ? "hit" : "hits"})`);
+  lines.push(`Searched ${result.spacesSearched} spaces and ${result.messagesScanned} messages.`);
+  if (result.partialSpaces.length > 0) {
+    lines.push(`*Only the newest messages were scanned in ${result.partialSpaces.map(name => `\`${name}\``).join(", ")}. ` +
+      "Narrow the time window or raise maxMessagesPerSpace to search further back.*");
+  }
+  for (const { spaceName, error } of result.errors) {
+    lines.push(`*Could not search \`${spaceName}\`: ${error}*`);
+  }
   lines.push("");
 
-  for (const message of messages) {
-    const sender = message.sender?.displayName || message.sender?.name || "Unknown";
+  if (result.hits.length === 0) {
+    lines.push("No matching messages found.");
+    return lines.join("\n");
+  }
+
+  result.hits.forEach((hit, index) => {
+    const { message } = hit;
+    const sender = message.sender ? formatSender(message) : "Unknown";
     const time = message.createTime ? formatTimestamp(message.createTime) : "";
-    const preview = message.text
-      ? message.text.substring(0, 100) + (message.text.length > 100 ? "..." : "")
-      : "[No text content]";
 
-    lines.push(`### ${sender} - ${time}`);
+    lines.push(`## ${index + 1}. ${sender} in ${hit.spaceDisplayName || hit.spaceName} - ${time}`);
     lines.push(`- **ID**: \`${message.name}\``);
-    lines.push(`- **Content**: ${preview}`);
+    lines.push(`- **Link**: ${hit.permalink}`);
+    if (hit.before) {
+      lines.push(`- **Before**: ${describeContextMessage(hit.before)}`);
+    }
+    lines.push(`- **Match**: ${renderMentions(hit.snippet, message)}`);
+    if (hit.after) {
+      lines.push(`- **After**: ${describeContextMessage(hit.after)}`);
+    }
+    lines.push("");
+  });
+
+  return truncateResponse(lines.join("\n"));
+}
+
+export interface Transcript {
+  space: Space;
+  // Oldest first
+  messages: ExportedMessage[];
+  exportedAt: string;
+  startTime?: string;
+  endTime?: string;
+}
+
+/**
+ * Render an exported space as a Markdown document or a self-contained HTML page.
+ * Threads are grouped under the day they started, replies after the message that started them.
+ */
+export function formatTranscript(transcript: Transcript, format: ExportFormat): string {
+  const days = new Map<string, Message[][]>();
+  for (const thread of groupByThread(transcript.messages)) {
+    const day = utcTime(thread.messages[0].createTime).day;
+    days.set(day, [...(days.get(day) || []), thread.messages]);
+  }
+  return format === ExportFormat.HTML
+    ? formatTranscriptHtml(transcript, days)
+    : formatTranscriptMarkdown(transcript, days);
+}
+
+/**
+ * Format the outcome of a space export.
+ */
+export function formatExportResult(result: ExportResult, format: ResponseFormat): string {
+  if (format === ResponseFormat.JSON) {
+    return JSON.stringify(result, null, 2);
+  }
+
+  const space = result.spaceDisplayName ? `${result.spaceDisplayName} (\`${result.spaceName}\`)` : `\`${result.spaceName}\``;
+  if (!result.complete) {
+    return [
+      `# Export of ${space} paused`,
+      "",
+      `${result.messageCount} messages have been saved so far. Call google_chat_export_space again with the same ` +
+      `arguments to continue where it stopped; the transcript is written to \`${result.path}\` once every message is fetched.`
+    ].join("\n");
+  }
+
+  const lines = [`# Exported ${space}`, ""];
+  lines.push(`- **File**: \`${result.path}\``);
+  lines.push(`- **Format**: ${result.format}`);
+  lines.push(`- **Messages**: ${result.messageCount} in ${result.threadCount} threads`);
+  if (result.firstMessageTime && result.lastMessageTime) {
+    lines.push(`- **Period**: ${formatTimestamp(result.firstMessageTime)} to ${formatTimestamp(result.lastMessageTime)}`);
+  }
+  if (result.bytes !== undefined) {
+    lines.push(`- **Size**: ${result.bytes} bytes`);
+  }
+  if (result.resumed) {
+    lines.push("- Continued from a checkpoint left by an earlier call.");
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Format the outcome of importing a batch of historical messages.
+ */
+export function formatImportMessagesResult(result: ImportMessagesResult, total: number, format: ResponseFormat): string {
+  if (format === ResponseFormat.JSON) {
+    return JSON.stringify({ total, ...result }, null, 2);
+  }
+
+  const existed = result.imported.filter(message => message.existed).length;
+  const reactions = result.imported.reduce((sum, message) => sum + message.reactions, 0);
+  const lines = [`# Imported ${result.imported.length} of ${total} messages into \`${result.spaceName}\``, ""];
+  lines.push(`- **New**: ${result.imported.length - existed}`);
+  if (existed > 0) {
+    lines.push(`- **Already imported**: ${existed}`);
+  }
+  lines.push(`- **Reactions**: ${reactions}`);
+  if (result.failed) {
+    lines.push(`- **Stopped at**: message ${result.failed.index + 1} (${result.failed.createTime}): ${result.failed.error}`);
+    lines.push("");
+    lines.push(`Messages after it were not imported. Fix the problem and send messages ${result.failed.index + 1} ` +
+      "onwards again; messages with a messageId are never imported twice.");
+  } else if (result.imported.length < total) {
     lines.push("");
+    lines.push(`Cancelled after message ${result.imported.length}; the rest were not imported.`);
   }
+  return lines.join("\n");
+}
 
-  if (hasMore && nextPageToken) {
-    lines.push(`---`);
-    lines.push(`*More results available. Use pageToken: \`${nextPageToken}\`*`);
+/**
+ * Format the outcome of importing a batch of memberships.
+ */
+export function formatImportMembersResult(result: ImportMembersResult, format: ResponseFormat): string {
+  if (format === ResponseFormat.JSON) {
+    return JSON.stringify(result, null, 2);
+  }
+
+  const total = result.added.length + result.existing.length + result.failed.length;
+  const lines = [`# Imported ${result.added.length} of ${total} members into \`${result.spaceName}\``, ""];
+  if (result.existing.length > 0) {
+    lines.push(`- **Already members**: ${result.existing.join(", ")}`);
+  }
+  for (const { user, error } of result.failed) {
+    lines.push(`- **Could not add ${user}**: ${error}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Format what a migration did, or would do when it is a dry run.
+ */
+export function formatMigrationReport(report: MigrationReport, format: ResponseFormat): string {
+  if (format === ResponseFormat.JSON) {
+    return fitJsonToBudget(report, "channels", () => ({ channelCount: report.channels.length }));
+  }
+
+  const platform = report.platform === MigrationPlatform.SLACK ? "Slack" : "Mattermost";
+  const lines: string[] = [];
+  lines.push(report.dryRun ? `# ${platform} migration plan (dry run)` : `# ${platform} migration`);
+  const messages = report.channels.reduce((sum, channel) => sum + channel.messages, 0);
+  lines.push(`${report.channels.length} ${report.channels.length === 1 ? "channel" : "channels"}, ` +
+    `${messages} ${messages === 1 ? "message" : "messages"} and ${report.users} ${report.users === 1 ? "user" : "users"} in the export.`);
+  if (report.dryRun) {
+    lines.push("Nothing has been created. Run again with dryRun set to false to migrate.");
+  } else if (!report.complete) {
+    lines.push("*Cancelled before every channel was migrated. Pass the spaces below as targetSpaces to continue.*");
+  }
+  lines.push("");
+
+  for (const channel of report.channels) {
+    const target = channel.space ? ` -> \`${channel.space}\`` : "";
+    lines.push(`## #${channel.channel}${channel.private ? " (private)" : ""}${target}`);
+    lines.push(`- **Messages**: ${channel.messages} (${channel.threads} ${channel.threads === 1 ? "thread" : "threads"}, ` +
+      `${channel.replies} ${channel.replies === 1 ? "reply" : "replies"})`);
+    if (channel.firstMessageTime && channel.lastMessageTime) {
+      lines.push(`- **Period**: ${formatTimestamp(channel.firstMessageTime)} to ${formatTimestamp(channel.lastMessageTime)}`);
+    }
+    if (channel.creator) {
+      lines.push(`- **Created as**: ${channel.creator}`);
+    }
+    lines.push(`- **Members**: ${channel.members}` +
+      (channel.membersWithoutEmail > 0 ? ` (${channel.membersWithoutEmail} without a workspace email left out)` : ""));
+    if (channel.postedAsCreator > 0) {
+      lines.push(`- **Posted as creator**: ${channel.postedAsCreator} messages by authors who cannot be impersonated`);
+    }
+    const skipped = channel.skippedReactions > 0 ? ` (${channel.skippedReactions} skipped)` : "";
+    lines.push(`- **Reactions**: ${channel.reactions}${skipped}`);
+    if (channel.unknownEmoji.length > 0) {
+      lines.push(`- **Unknown emoji**: ${channel.unknownEmoji.map(name => `:${name}:`).join(", ")}`);
+    }
+    if (channel.splitMessages > 0) {
+      lines.push(`- **Split**: ${channel.splitMessages} ${channel.splitMessages === 1 ? "message" : "messages"} ` +
+        `longer than ${MAX_IMPORT_TEXT_LENGTH} characters posted in parts`);
+    }
+    if (channel.files > 0) {
+      lines.push(`- **Attachments not migrated**: ${channel.files}`);
+    }
+    if (channel.systemMessages > 0) {
+      lines.push(`- **System messages skipped**: ${channel.systemMessages}`);
+    }
+    if (channel.imported !== undefined) {
+      lines.push(`- **Imported**: ${channel.imported} new, ${channel.alreadyImported} already there, ${channel.failed} failed`);
+    }
+    if (channel.importCompleted) {
+      lines.push("- **Import completed**: the space is visible to its members");
+    }
+    if (channel.error) {
+      lines.push(`- **Error**: ${channel.error}`);
+    }
+    lines.push("");
+  }
+
+  if (report.unmappedUsers.length > 0) {
+    lines.push(`## Users without a workspace email (${report.unmappedUsers.length})`);
+    lines.push("Map them in userMap to post their messages and reactions as them.");
+    for (const user of report.unmappedUsers) {
+      lines.push(`- ${user}`);
+    }
+    lines.push("");
+  }
+  if (report.notes.length > 0) {
+    lines.push("## Notes");
+    for (const note of report.notes) {
+      lines.push(`- ${note}`);
+    }
+    lines.push("");
+  }
+  if (report.errors.length > 0) {
+    lines.push(`## Errors (${report.errors.length})`);
+    for (const error of report.errors) {
+      lines.push(`- ${error}`);
+    }
   }
 
   return truncateResponse(lines.join("\n"));
@@ -207,36 +581,55 @@ export function formatMembersList(
   nextPageToken?: string
 ): string {
   if (format === ResponseFormat.JSON) {
-    return JSON.stringify({
+    return fitJsonToBudget({
       count: members.length,
       memberships: members,
       hasMore,
       nextPageToken
-    }, null, 2);
+    }, "memberships", () => summarizeMembers(members));
   }
 
   if (members.length === 0) {
     return "No members found.";
   }
 
-  const lines: string[] = [];
-  lines.push(`# Members (${members.length} results)`);
-  lines.push("");
-
-  for (const member of members) {
+  const entries = members.map(member => {
     const displayName = member.member?.displayName || member.member?.name || "Unknown";
-    lines.push(`## ${displayName}`);
-    lines.push(`- **ID**: \`${member.name}\``);
-    lines.push(`- **Role**: ${member.role || "Unknown"}`);
-    lines.push(`- **State**: ${member.state || "Unknown"}`);
-    lines.push("");
+    return [
+      `## ${displayName}`,
+      `- **ID**: \`${member.name}\``,
+      `- **Role**: ${member.role || "Unknown"}`,
+      `- **State**: ${member.state || "Unknown"}`,
+      ""
+    ];
+  });
+
+  return fitToBudget(
+    [`# Members (${members.length} results)`, ""],
+    entries,
+    "members",
+    () => summarizeMembers(members),
+    paginationFooter(hasMore, nextPageToken)
+  );
+}
+
+/**
+ * Format the managers of a space.
+ */
+export function formatManagersList(spaceName: string, managers: Member[], format: ResponseFormat): string {
+  if (format === ResponseFormat.JSON) {
+    return JSON.stringify({ spaceName, count: managers.length, managers }, null, 2);
   }
 
-  if (hasMore && nextPageToken) {
-    lines.push(`---`);
-    lines.push(`*More results available. Use pageToken: \`${nextPageToken}\`*`);
+  if (managers.length === 0) {
+    return `\`${spaceName}\` has no managers.`;
   }
 
+  const lines = [`# Managers of \`${spaceName}\` (${managers.length})`, ""];
+  for (const manager of managers) {
+    const displayName = manager.member?.displayName || manager.member?.name || "Unknown";
+    lines.push(`- **${displayName}**: \`${manager.name}\`${manager.state && manager.state !== "JOINED" ? ` (${manager.state})` : ""}`);
+  }
   return truncateResponse(lines.join("\n"));
 }
 
@@ -264,26 +657,22 @@ export function formatReactionsList(
   nextPageToken?: string
 ): string {
   if (format === ResponseFormat.JSON) {
-    return JSON.stringify({
+    return fitJsonToBudget({
       count: reactions.length,
       reactions,
       hasMore,
       nextPageToken
-    }, null, 2);
+    }, "reactions", () => summarizeReactions(reactions));
   }
 
   if (reactions.length === 0) {
     return "No reactions found.";
   }
 
-  const lines: string[] = [];
-  lines.push(`# Reactions (${reactions.length} results)`);
-  lines.push("");
-
   // Group by emoji
   const grouped = new Map<string, { emoji: string; users: string[] }>();
   for (const reaction of reactions) {
-    const emoji = reaction.emoji?.unicode || reaction.emoji?.customEmoji?.uid || "?";
+    const emoji = reactionEmoji(reaction);
     const user = reaction.user?.displayName || reaction.user?.name || "Unknown";
 
     if (!grouped.has(emoji)) {
@@ -292,16 +681,15 @@ export function formatReactionsList(
     grouped.get(emoji)!.users.push(user);
   }
 
-  for (const [emoji, data] of grouped) {
-    lines.push(`- ${emoji} (${data.users.length}): ${data.users.join(", ")}`);
-  }
+  const entries = [...grouped.values()].map(data => [`- ${data.emoji} (${data.users.length}): ${data.users.join(", ")}`]);
 
-  if (hasMore && nextPageToken) {
-    lines.push("");
-    lines.push(`*More results available. Use pageToken: \`${nextPageToken}\`*`);
-  }
-
-  return lines.join("\n");
+  return fitToBudget(
+    [`# Reactions (${reactions.length} results)`, ""],
+    entries,
+    "emoji",
+    () => summarizeReactions(reactions),
+    hasMore && nextPageToken ? ["", `*More results available. Use pageToken: \`${nextPageToken}\`*`] : []
+  );
 }
 
 /**
@@ -335,6 +723,898 @@ export function formatAttachment(attachment: Attachment, format: ResponseFormat)
   return lines.join("\n");
 }
 
+/**
+ * Format a space event for display.
+ */
+export function formatSpaceEvent(event: SpaceEvent, format: ResponseFormat): string {
+  if (format === ResponseFormat.JSON) {
+    return JSON.stringify(event, null, 2);
+  }
+
+  const lines: string[] = [];
+  lines.push(`## Space Event`);
+  lines.push(`- **ID**: \`${event.name}\``);
+  lines.push(`- **Type**: ${event.eventType || "Unknown"}`);
+  if (event.eventTime) {
+    lines.push(`- **Time**: ${formatTimestamp(event.eventTime)}`);
+  }
+  lines.push("");
+  lines.push("### Changes");
+  for (const change of describeSpaceEvent(event)) {
+    lines.push(`- ${change}`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Format a list of space events as a changelog.
+ */
+export function formatSpaceEventsList(
+  events: SpaceEvent[],
+  format: ResponseFormat,
+  hasMore: boolean,
+  nextPageToken?: string
+): string {
+  if (format === ResponseFormat.JSON) {
+    return JSON.stringify({
+      count: events.length,
+      spaceEvents: events,
+      hasMore,
+      nextPageToken
+    }, null, 2);
+  }
+
+  if (events.length === 0) {
+    return "No space events found.";
+  }
+
+  const lines: string[] = [];
+  lines.push(`# Space Changelog (${events.length} events)`);
+  lines.push("");
+
+  for (const event of events) {
+    const time = event.eventTime ? formatTimestamp(event.eventTime) : "Unknown time";
+    for (const change of describeSpaceEvent(event)) {
+      lines.push(`- **${time}**: ${change}`);
+    }
+  }
+
+  if (hasMore && nextPageToken) {
+    lines.push("");
+    lines.push(`---`);
+    lines.push(`*More results available. Use pageToken: \`${nextPageToken}\`*`);
+  }
+
+  return truncateResponse(lines.join("\n"));
+}
+
+/**
+ * Format a subscription for display.
+ */
+export function formatSubscription(subscription: Subscription, format: ResponseFormat): string {
+  if (format === ResponseFormat.JSON) {
+    return JSON.stringify(subscription, null, 2);
+  }
+
+  const lines: string[] = [];
+  lines.push(`## Subscription \`${subscription.id}\``);
+  lines.push(`- **Space**: \`${subscription.spaceName}\``);
+  lines.push(`- **Interval**: ${subscription.intervalMs / 1000}s`);
+  lines.push(`- **Event Types**: ${subscription.eventTypes.length === Object.values(SpaceEventType).length
+    ? "All"
+    : subscription.eventTypes.join(", ")}`);
+  lines.push(`- **Since**: ${formatTimestamp(subscription.cursor)}`);
+  lines.push(`- **Delivered**: ${subscription.delivered} events`);
+  if (subscription.expiresAt) {
+    lines.push(`- **Expires**: ${formatTimestamp(subscription.expiresAt)}`);
+  }
+  if (subscription.lastPollAt) {
+    lines.push(`- **Last Poll**: ${formatTimestamp(subscription.lastPollAt)}`);
+  }
+  if (subscription.lastError) {
+    lines.push(`- **Last Error**: ${subscription.lastError} (${subscription.failures} consecutive failures)`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Format a list of subscriptions for display.
+ */
+export function formatSubscriptionsList(subscriptions: Subscription[], format: ResponseFormat): string {
+  if (format === ResponseFormat.JSON) {
+    return JSON.stringify({ count: subscriptions.length, subscriptions }, null, 2);
+  }
+
+  if (subscriptions.length === 0) {
+    return "No active subscriptions.";
+  }
+
+  const lines: string[] = [];
+  lines.push(`# Subscriptions (${subscriptions.length})`);
+  lines.push("");
+  for (const subscription of subscriptions) {
+    lines.push(formatSubscription(subscription, format));
+    lines.push("");
+  }
+
+  return truncateResponse(lines.join("\n"));
+}
+
+/**
+ * Describe what a space event changed, one line per affected resource.
+ */
+function describeSpaceEvent(event: SpaceEvent): string[] {
+  const type = event.eventType || "";
+  const action = type.substring(type.lastIndexOf(".") + 1);
+
+  if (type.includes(".message.")) {
+    const messages = event.messageBatchCreatedEventData?.messages ||
+      event.messageBatchUpdatedEventData?.messages ||
+      event.messageBatchDeletedEventData?.messages ||
+      [event.messageCreatedEventData?.message ||
+        event.messageUpdatedEventData?.message ||
+        event.messageDeletedEventData?.message].filter((m): m is Message => !!m);
+    return messages.map(message => {
+      const sender = message.sender?.displayName || message.sender?.name || "Someone";
+      const preview = message.text ? `: "${truncateText(message.text, 80)}"` : "";
+      if (action.endsWith("reated")) {
+        return `${sender} posted \`${message.name}\`${preview}`;
+      }
+      if (action.endsWith("pdated")) {
+        return `${sender} edited \`${message.name}\`${preview}`;
+      }
+      return `Message \`${message.name}\` from ${sender} was deleted`;
+    });
+  }
+
+  if (type.includes(".membership.")) {
+    const memberships = event.membershipBatchCreatedEventData?.memberships ||
+      event.membershipBatchUpdatedEventData?.memberships ||
+      event.membershipBatchDeletedEventData?.memberships ||
+      [event.membershipCreatedEventData?.membership ||
+        event.membershipUpdatedEventData?.membership ||
+        event.membershipDeletedEventData?.membership].filter((m): m is Member => !!m);
+    return memberships.map(membership => {
+      const who = membership.member?.displayName || membership.member?.name ||
+        membership.groupMember?.name || "Someone";
+      if (action.endsWith("reated")) {
+        return membership.state === "INVITED" ? `${who} was invited` : `${who} joined`;
+      }
+      if (action.endsWith("pdated")) {
+        return `${who}'s membership changed (role: ${membership.role || "Unknown"}, state: ${membership.state || "Unknown"})`;
+      }
+      return `${who} left or was removed`;
+    });
+  }
+
+  if (type.includes(".reaction.")) {
+    const reactions = event.reactionBatchCreatedEventData?.reactions ||
+      event.reactionBatchDeletedEventData?.reactions ||
+      [event.reactionCreatedEventData?.reaction ||
+        event.reactionDeletedEventData?.reaction].filter((r): r is Reaction => !!r);
+    return reactions.map(reaction => {
+      const who = reaction.user?.displayName || reaction.user?.name || "Someone";
+      const emoji = reaction.emoji?.unicode || reaction.emoji?.customEmoji?.uid || "?";
+      // Reaction names look like spaces/X/messages/Y/reactions/Z
+      const message = reaction.name.split("/reactions/")[0];
+      return action.endsWith("reated")
+        ? `${who} reacted ${emoji} to \`${message}\``
+        : `${who} removed reaction ${emoji} from \`${message}\``;
+    });
+  }
+
+  if (type.includes(".space.")) {
+    const spaces = event.spaceBatchUpdatedEventData?.spaces ||
+      [event.spaceUpdatedEventData?.space].filter((s): s is Space => !!s);
+    return spaces.map(space => `Space settings updated${space.displayName ? ` (name: ${space.displayName})` : ""}`);
+  }
+
+  return [`${type || "Unknown event"}`];
+}
+
+/**
+ * The "more results" note at the end of a list page.
+ */
+function paginationFooter(hasMore: boolean, nextPageToken?: string): string[] {
+  return hasMore && nextPageToken
+    ? ["---", `*More results available. Use pageToken: \`${nextPageToken}\`*`]
+    : [];
+}
+
+/**
+ * Join a markdown list. When it would exceed CHARACTER_LIMIT, lead with a summary
+ * computed over every item, then include as many entries as fit.
+ */
+function fitToBudget(
+  header: string[],
+  entries: string[][],
+  noun: string,
+  summarize: () => Record<string, unknown>,
+  footer: string[]
+): string {
+  const full = [...header, ...entries.flat(), ...footer].join("\n");
+  if (full.length <= CHARACTER_LIMIT) {
+    return full;
+  }
+
+  const top = [...header, "## Summary", ...formatSummary(summarize()), ""];
+  // Room for the "not shown" note
+  let size = top.join("\n").length + footer.join("\n").length + 300;
+  const shown: string[] = [];
+  let count = 0;
+  for (const entry of entries) {
+    const length = entry.join("\n").length + 1;
+    if (size + length > CHARACTER_LIMIT) {
+      break;
+    }
+    shown.push(...entry);
+    size += length;
+    count++;
+  }
+
+  return truncateResponse([
+    ...top,
+    `## First ${count} of ${entries.length} ${noun}`,
+    "",
+    ...shown,
+    `*${entries.length - count} more ${noun} not shown to stay within the response size limit. ` +
+    `The summary above covers all of them. ${describeOmitted(entries.length, noun)}*`,
+    "",
+    ...footer
+  ].join("\n"));
+}
+
+/**
+ * How to read entries left out of a trimmed response: page tokens continue after
+ * everything fetched, so the left-out entries have to be fetched again in smaller pages.
+ */
+function describeOmitted(total: number, noun: string): string {
+  return `A pageToken from this response continues after all ${total} ${noun}, not after those shown, ` +
+    "so repeat the request with a smaller maxItems or a narrower filter to read them.";
+}
+
+/**
+ * JSON counterpart of fitToBudget: when the payload is too large, keep the items
+ * that fit under payload[key] and add a summary of all of them.
+ */
+function fitJsonToBudget(
+  payload: Record<string, unknown>,
+  key: string,
+  summarize: () => Record<string, unknown>
+): string {
+  return JSON.stringify(fitPayloadToBudget(payload, key, summarize), null, 2);
+}
+
+function fitPayloadToBudget(
+  payload: Record<string, unknown>,
+  key: string,
+  summarize: () => Record<string, unknown>
+): Record<string, unknown> {
+  if (JSON.stringify(payload, null, 2).length <= CHARACTER_LIMIT) {
+    return payload;
+  }
+
+  const items = payload[key] as unknown[];
+  const summary = summarize();
+  const build = (shown: unknown[]) => ({
+    ...payload,
+    [key]: shown,
+    truncated: true,
+    omitted: items.length - shown.length,
+    // Only paged lists can be read again in smaller pages
+    note: "nextPageToken" in payload ? describeOmitted(items.length, key) : undefined,
+    summary
+  });
+
+  let size = JSON.stringify(build([]), null, 2).length;
+  const shown: unknown[] = [];
+  for (const item of items) {
+    const json = JSON.stringify(item, null, 2);
+    // Nested two levels deep, each line gains four spaces of indentation
+    const length = json.length + json.split("\n").length * 4 + 2;
+    if (size + length > CHARACTER_LIMIT) {
+      break;
+    }
+    shown.push(item);
+    size += length;
+  }
+  return build(shown);
+}
+
+// List tools' structured content: the key holding the items, and how to summarize them
+const LIST_SUMMARIES = {
+  spaces: (items: Space[]) => summarizeSpaces(items),
+  messages: (items: Message[]) => summarizeMessages(items),
+  memberships: (items: Member[]) => summarizeMembers(items),
+  reactions: (items: Reaction[]) => summarizeReactions(items)
+};
+
+/**
+ * Trim a list tool's structured content to the response size limit the same way
+ * as its JSON text: keep the items that fit and add a summary of all of them.
+ */
+export function fitStructuredContent(
+  payload: Record<string, unknown>,
+  key: keyof typeof LIST_SUMMARIES
+): Record<string, unknown> {
+  const summarize = LIST_SUMMARIES[key] as (items: unknown[]) => Record<string, unknown>;
+  return fitPayloadToBudget(payload, key, () => summarize(payload[key] as unknown[]));
+}
+
+function summarizeSpaces(spaces: Space[]): Record<string, unknown> {
+  return {
+    byType: countBy(spaces, space => space.spaceType || space.type || "Unknown")
+  };
+}
+
+function summarizeMessages(messages: Message[]): Record<string, unknown> {
+  const times = messages
+    .map(message => message.createTime)
+    .filter((time): time is string => !!time)
+    .sort();
+  return {
+    bySender: countBy(messages, message => message.sender?.displayName || message.sender?.name || "Unknown"),
+    threads: new Set(messages.map(message => message.thread?.name || message.name)).size,
+    withAttachments: messages.filter(message => message.attachment?.length).length,
+    firstMessage: times[0],
+    lastMessage: times[times.length - 1]
+  };
+}
+
+function summarizeMembers(members: Member[]): Record<string, unknown> {
+  return {
+    byRole: countBy(members, member => member.role || "Unknown"),
+    byType: countBy(members, member => member.member?.type || (member.groupMember ? "GROUP" : "Unknown")),
+    byState: countBy(members, member => member.state || "Unknown")
+  };
+}
+
+function summarizeReactions(reactions: Reaction[]): Record<string, unknown> {
+  return {
+    byEmoji: countBy(reactions, reactionEmoji),
+    byUser: countBy(reactions, reaction => reaction.user?.displayName || reaction.user?.name || "Unknown")
+  };
+}
+
+function reactionEmoji(reaction: Reaction): string {
+  return reaction.emoji?.unicode || reaction.emoji?.customEmoji?.uid || "?";
+}
+
+/**
+ * Count items per key, most frequent first.
+ */
+function countBy<T>(items: T[], key: (item: T) => string): Record<string, number> {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    counts.set(key(item), (counts.get(key(item)) || 0) + 1);
+  }
+  return Object.fromEntries([...counts].sort((a, b) => b[1] - a[1]));
+}
+
+// Keys listed per count in a markdown summary; the rest are totalled
+const SUMMARY_TOP_KEYS = 25;
+
+function formatSummary(summary: Record<string, unknown>): string[] {
+  return Object.entries(summary)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => {
+      const label = key.replace(/([A-Z])/g, " $1").toLowerCase().replace(/^./, c => c.toUpperCase());
+      if (typeof value !== "object" || value === null) {
+        return `- **${label}**: ${typeof value === "string" && /^\d{4}-\d{2}-\d{2}T/.test(value) ? formatTimestamp(value) : value}`;
+      }
+      const counts = Object.entries(value as Record<string, number>);
+      const listed = counts.slice(0, SUMMARY_TOP_KEYS).map(([name, count]) => `${name} (${count})`);
+      const rest = counts.slice(SUMMARY_TOP_KEYS);
+      if (rest.length > 0) {
+        listed.push(`${rest.length} others (${rest.reduce((total, [, count]) => total + count, 0)})`);
+      }
+      return `- **${label}**: ${listed.join(", ")}`;
+    });
+}
+
+/**
+ * A message as an entry in a list: heading, ID and a one-line preview.
+ */
+function formatMessageEntry(message: Message, heading: string): string[] {
+  const lines: string[] = [];
+  const sender = message.sender ? formatSender(message) : "Unknown";
+  const time = message.createTime ? formatTimestamp(message.createTime) : "";
+  const status = describeMessageStatus(message);
+
+  lines.push(`${heading} ${sender} - ${time}${status.length > 0 ? ` (${status.join(", ")})` : ""}`);
+  lines.push(`- **ID**: \`${message.name}\``);
+  if (message.quotedMessageMetadata?.name) {
+    lines.push(`- **Quotes**: \`${message.quotedMessageMetadata.name}\``);
+  }
+  lines.push(`- **Content**: ${messagePreview(message)}`);
+  if (message.attachment && message.attachment.length > 0) {
+    lines.push(`- **Attachments**: ${message.attachment.map(describeAttachment).join("; ")}`);
+  }
+  lines.push("");
+  return lines;
+}
+
+function describeContextMessage(message: Message): string {
+  const sender = message.sender ? formatSender(message) : "Unknown";
+  return `${sender}: ${messagePreview(message)}`;
+}
+
+/**
+ * Group messages by thread in order of each thread's first message; replies follow their root.
+ */
+function groupByThread(messages: Message[]): { name?: string; messages: Message[] }[] {
+  const threads = new Map<string, { name?: string; messages: Message[] }>();
+  for (const message of messages) {
+    const key = message.thread?.name || message.name;
+    if (!threads.has(key)) {
+      threads.set(key, { name: message.thread?.name, messages: [] });
+    }
+    threads.get(key)!.messages.push(message);
+  }
+  for (const thread of threads.values()) {
+    thread.messages.sort((a, b) =>
+      Number(!!a.threadReply) - Number(!!b.threadReply) ||
+      (a.createTime || "").localeCompare(b.createTime || "")
+    );
+  }
+  return [...threads.values()];
+}
+
+/**
+ * Sender name, marked when the message was posted by an app.
+ */
+function formatSender(message: Message): string {
+  const sender = message.sender!;
+  const name = sender.displayName || sender.name;
+  return sender.type === "BOT" ? `${name} (app)` : name;
+}
+
+/**
+ * Flags worth showing next to a message: deleted, edited, thread reply, private.
+ */
+function describeMessageStatus(message: Message): string[] {
+  const status: string[] = [];
+  if (message.deleteTime || message.deletionMetadata) {
+    const deletionType = message.deletionMetadata?.deletionType;
+    status.push(deletionType ? `deleted: ${deletionType.toLowerCase().replace(/_/g, " ")}` : "deleted");
+  } else if (message.lastUpdateTime && message.createTime && message.lastUpdateTime > message.createTime) {
+    status.push("edited");
+  }
+  if (message.threadReply) {
+    status.push("thread reply");
+  }
+  if (message.privateMessageViewer) {
+    status.push(`only visible to ${message.privateMessageViewer.displayName || message.privateMessageViewer.name}`);
+  }
+  return status;
+}
+
+/**
+ * Replace `<users/...>` tokens with @names from the message's mention annotations.
+ */
+function renderMentions(text: string, message: Message): string {
+  const names = new Map<string, string>();
+  for (const annotation of message.annotations || []) {
+    const user = annotation.userMention?.user;
+    if (user?.name && user.displayName) {
+      names.set(user.name, user.displayName);
+    }
+  }
+  return text.replace(/<(users\/[^>\s]+)>/g, (_, user: string) =>
+    user === "users/all" ? "@all" : `@${names.get(user) || user}`
+  );
+}
+
+function describeMentions(message: Message): string[] {
+  const mentioned = new Map<string, string>();
+  for (const annotation of message.annotations || []) {
+    const user = annotation.userMention?.user;
+    if (annotation.type === "USER_MENTION" && user?.name && !mentioned.has(user.name)) {
+      mentioned.set(user.name, user.name === "users/all"
+        ? "@all"
+        : user.displayName ? `@${user.displayName} (\`${user.name}\`)` : `\`${user.name}\``);
+    }
+  }
+  return [...mentioned.values()];
+}
+
+function describeSlashCommand(message: Message): string | undefined {
+  const annotation = message.annotations?.find(a => a.type === "SLASH_COMMAND")?.slashCommand;
+  if (!annotation && !message.slashCommand) {
+    return undefined;
+  }
+  const command = annotation?.commandName || `command ${message.slashCommand?.commandId || annotation?.commandId}`;
+  const bot = annotation?.bot?.displayName ? ` (${annotation.bot.displayName})` : "";
+  const args = message.argumentText?.trim() ? `, arguments: ${message.argumentText.trim()}` : "";
+  return `${command}${bot}${args}`;
+}
+
+function describeAttachment(attachment: Attachment): string {
+  const name = attachment.contentName || attachment.name;
+  const details = [attachment.contentType, attachment.driveDataRef ? "Google Drive" : undefined]
+    .filter(Boolean)
+    .join(", ");
+  return details ? `${name} (${details})` : name;
+}
+
+function describeRichLinks(message: Message): string[] {
+  const links = (message.annotations || [])
+    .filter(a => a.type === "RICH_LINK" && a.richLinkMetadata?.uri)
+    .map(a => {
+      const type = a.richLinkMetadata!.richLinkType;
+      return type ? `${a.richLinkMetadata!.uri} (${type.toLowerCase().replace(/_/g, " ")})` : a.richLinkMetadata!.uri!;
+    });
+  if (message.matchedUrl?.url && !links.some(link => link.startsWith(message.matchedUrl!.url!))) {
+    links.push(`${message.matchedUrl.url} (previewed)`);
+  }
+  return links;
+}
+
+/**
+ * One-line summary of a message for lists, falling back to cards or attachments when there is no text.
+ */
+function messagePreview(message: Message): string {
+  if (message.text) {
+    return truncateText(renderMentions(message.text, message), 100);
+  }
+  if (message.deleteTime || message.deletionMetadata) {
+    return "[Deleted]";
+  }
+  if (message.fallbackText) {
+    return truncateText(message.fallbackText, 100);
+  }
+  const card = message.cardsV2?.[0]?.card || message.cards?.[0];
+  if (card) {
+    const firstText = formatCard(card).find(line => !line.startsWith("**Card") && !line.startsWith("####"));
+    const title = card.header?.title ? `Card: ${card.header.title}` : "Card";
+    const preview = firstText?.replace(/^[-#\s]+/, "").replace(/\*\*([^*]+)\*\*/g, "$1");
+    return `[${title}]${preview ? ` ${truncateText(preview, 80)}` : ""}`;
+  }
+  if (message.attachment && message.attachment.length > 0) {
+    return `[${message.attachment.length} attachment(s)]`;
+  }
+  return "[No text content]";
+}
+
+/**
+ * Render a message's cards (v2 and legacy v1) as markdown lines.
+ */
+function formatCards(message: Message): string[] {
+  const cards = [
+    ...(message.cardsV2 || []).map(cardV2 => cardV2.card),
+    ...(message.cards || [])
+  ].filter((card): card is Card => !!card);
+
+  const lines: string[] = [];
+  cards.forEach((card, index) => {
+    if (index > 0) {
+      lines.push("");
+    }
+    lines.push(...formatCard(card));
+  });
+  return lines;
+}
+
+function formatCard(card: Card): string[] {
+  const lines: string[] = [];
+  const title = [card.header?.title, card.header?.subtitle].filter(Boolean).join(" - ");
+  lines.push(title ? `**Card: ${title}**` : "**Card**");
+
+  for (const section of card.sections || []) {
+    if (section.header) {
+      lines.push(`#### ${cardText(section.header)}`);
+    }
+    for (const widget of section.widgets || []) {
+      lines.push(...formatWidget(widget));
+    }
+  }
+
+  const actions = (card.cardActions || []).map(action => formatLink(action.actionLabel, action.onClick));
+  if (actions.length > 0) {
+    lines.push(`- Actions: ${actions.join(" | ")}`);
+  }
+  return lines;
+}
+
+function formatWidget(widget: Widget): string[] {
+  const lines: string[] = [];
+
+  if (widget.textParagraph?.text) {
+    lines.push(cardText(widget.textParagraph.text));
+  }
+  const labelled = widget.decoratedText
+    ? { top: widget.decoratedText.topLabel, text: widget.decoratedText.text, bottom: widget.decoratedText.bottomLabel }
+    : widget.keyValue
+      ? { top: widget.keyValue.topLabel, text: widget.keyValue.content, bottom: widget.keyValue.bottomLabel }
+      : undefined;
+  if (labelled) {
+    const text = [labelled.text, labelled.bottom].filter(Boolean).map(t => cardText(t!)).join(" - ");
+    lines.push(labelled.top ? `- **${cardText(labelled.top)}**: ${text}` : `- ${text}`);
+  }
+  if (widget.image?.imageUrl) {
+    lines.push(`- Image: [${widget.image.altText || "image"}](${widget.image.imageUrl})`);
+  }
+
+  const buttons = [
+    ...(widget.buttonList?.buttons || []),
+    ...(widget.buttons || []),
+    ...[widget.decoratedText?.button, widget.keyValue?.button].filter((b): b is Button => !!b)
+  ];
+  if (buttons.length > 0) {
+    const labels = buttons.map(button => formatLink(
+      button.text || button.textButton?.text || button.altText || "Button",
+      button.onClick || button.textButton?.onClick || button.imageButton?.onClick
+    ));
+    lines.push(`- Buttons: ${labels.join(" | ")}`);
+  }
+  if (widget.divider) {
+    lines.push("---");
+  }
+  return lines;
+}
+
+function formatLink(label: string | undefined, onClick: OnClick | undefined): string {
+  const text = cardText(label || "Link");
+  if (onClick?.openLink?.url) {
+    return `[${text}](${onClick.openLink.url})`;
+  }
+  return onClick?.action?.actionMethodName ? `${text} (action: ${onClick.action.actionMethodName})` : text;
+}
+
+/**
+ * Card text allows a small set of HTML tags; turn it into markdown.
+ */
+function cardText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<a\s+href="([^"]*)"[^>]*>(.*?)<\/a>/gi, "[$2]($1)")
+    .replace(/<\/?b>/gi, "**")
+    .replace(/<\/?i>/gi, "*")
+    .replace(/<\/?(u|s|font)(\s[^>]*)?>/gi, "")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'");
+}
+
+function formatTranscriptMarkdown(transcript: Transcript, days: Map<string, Message[][]>): string {
+  const lines = [`# ${transcript.space.displayName || transcript.space.name}`, ""];
+  lines.push(...describeTranscript(transcript).map(([label, value]) => `- **${label}**: ${value}`));
+
+  for (const [day, threads] of days) {
+    lines.push("", `## ${day}`);
+    for (const thread of threads) {
+      for (const message of thread) {
+        const entry = formatTranscriptMessage(message as ExportedMessage);
+        lines.push("", ...(message.threadReply ? entry.map(line => `> ${line}`.trimEnd()) : entry));
+      }
+    }
+  }
+  return lines.join("\n") + "\n";
+}
+
+function formatTranscriptMessage(message: ExportedMessage): string[] {
+  const sender = message.sender ? formatSender(message) : "Unknown";
+  const status = describeMessageStatus(message).filter(flag => flag !== "thread reply");
+  const lines = [
+    `**${message.threadReply ? "↳ " : ""}${sender}** · ${utcTime(message.createTime).time}` +
+    (status.length > 0 ? ` _(${status.join(", ")})_` : "")
+  ];
+
+  if (message.text) {
+    const text = renderMentions(message.text, message)
+      .replace(/<((?:https?:\/\/|mailto:)[^\s|>]+)\|([^>]*)>/g, "[$2]($1)");
+    lines.push(...text.split("\n"));
+  } else if (message.deleteTime || message.deletionMetadata) {
+    lines.push("_This message was deleted._");
+  } else if (message.fallbackText) {
+    lines.push(...message.fallbackText.split("\n"));
+  }
+  lines.push(...formatCards(message));
+  for (const attachment of message.attachment || []) {
+    lines.push(`📎 ${describeAttachment(attachment)}`);
+  }
+  const reactions = describeTranscriptReactions(message);
+  if (reactions) {
+    lines.push(reactions);
+  }
+  return lines;
+}
+
+function formatTranscriptHtml(transcript: Transcript, days: Map<string, Message[][]>): string {
+  const title = escapeHtml(transcript.space.displayName || transcript.space.name);
+  const details = describeTranscript(transcript)
+    .map(([label, value]) => `<dt>${label}</dt><dd>${escapeHtml(value.replace(/`/g, ""))}</dd>`)
+    .join("");
+
+  const body: string[] = [];
+  for (const [day, threads] of days) {
+    body.push(`<h2>${day}</h2>`);
+    for (const [first, ...rest] of threads) {
+      const replies = first.threadReply ? [first, ...rest] : rest;
+      const root = first.threadReply ? "" : formatTranscriptMessageHtml(first as ExportedMessage);
+      const thread = replies.length > 0
+        ? `<div class="replies">${replies.map(reply => formatTranscriptMessageHtml(reply as ExportedMessage)).join("")}</div>`
+        : "";
+      body.push(`<section class="thread">${root}${thread}</section>`);
+    }
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title>
+<style>
+body { font-family: system-ui, sans-serif; max-width: 860px; margin: 2em auto; padding: 0 1em; color: #202124; line-height: 1.45; }
+dl { display: grid; grid-template-columns: max-content auto; gap: 0.2em 1em; color: #5f6368; }
+dd { margin: 0; }
+h2 { font-size: 1em; color: #5f6368; border-bottom: 1px solid #dadce0; padding-bottom: 0.3em; margin-top: 2em; }
+.thread { margin: 1em 0; }
+.replies { margin-left: 1.5em; padding-left: 1em; border-left: 3px solid #dadce0; }
+.message { margin: 0.6em 0; }
+.sender { font-weight: 600; }
+.time, .status, .deleted { color: #5f6368; font-size: 0.9em; }
+.status, .deleted { font-style: italic; }
+.card { border: 1px solid #dadce0; border-radius: 8px; padding: 0.5em 0.8em; margin: 0.4em 0; white-space: pre-wrap; }
+.attachments { margin: 0.3em 0; padding-left: 1.2em; }
+.reactions { font-size: 0.9em; color: #5f6368; }
+pre { background: #f1f3f4; padding: 0.6em; overflow-x: auto; }
+code { background: #f1f3f4; padding: 0 0.2em; }
+</style>
+</head>
+<body>
+<h1>${title}</h1>
+<dl>${details}</dl>
+${body.join("\n")}
+</body>
+</html>
+`;
+}
+
+function formatTranscriptMessageHtml(message: ExportedMessage): string {
+  const sender = message.sender ? formatSender(message) : "Unknown";
+  const status = describeMessageStatus(message).filter(flag => flag !== "thread reply");
+  const parts = [
+    `<div><span class="sender">${escapeHtml(sender)}</span> ` +
+    `<time class="time" datetime="${escapeHtml(message.createTime || "")}">${utcTime(message.createTime).time}</time>` +
+    (status.length > 0 ? ` <span class="status">${escapeHtml(status.join(", "))}</span>` : "") +
+    "</div>"
+  ];
+
+  if (message.text) {
+    parts.push(`<div>${chatTextToHtml(renderMentions(message.text, message))}</div>`);
+  } else if (message.deleteTime || message.deletionMetadata) {
+    parts.push(`<div class="deleted">This message was deleted.</div>`);
+  } else if (message.fallbackText) {
+    parts.push(`<div>${escapeHtml(message.fallbackText).replace(/\n/g, "<br>")}</div>`);
+  }
+  const cards = formatCards(message);
+  if (cards.length > 0) {
+    parts.push(`<div class="card">${escapeHtml(cards.join("\n"))}</div>`);
+  }
+  if (message.attachment && message.attachment.length > 0) {
+    const items = message.attachment.map(attachment => `<li>📎 ${escapeHtml(describeAttachment(attachment))}</li>`);
+    parts.push(`<ul class="attachments">${items.join("")}</ul>`);
+  }
+  const reactions = describeTranscriptReactions(message);
+  if (reactions) {
+    parts.push(`<div class="reactions">${escapeHtml(reactions)}</div>`);
+  }
+  return `<article class="message" id="${escapeHtml(message.name.split("/messages/")[1] || message.name)}">${parts.join("")}</article>`;
+}
+
+/**
+ * Label and value pairs describing an export, for the top of a transcript.
+ */
+function describeTranscript(transcript: Transcript): [string, string][] {
+  const { messages } = transcript;
+  const threads = new Set(messages.map(message => message.thread?.name || message.name)).size;
+  const details: [string, string][] = [
+    ["Space", `\`${transcript.space.name}\``],
+    ["Messages", `${messages.length} in ${threads} threads`]
+  ];
+  if (messages.length > 0) {
+    const first = utcTime(messages[0].createTime);
+    const last = utcTime(messages[messages.length - 1].createTime);
+    details.push(["Period", `${first.day} ${first.time} to ${last.day} ${last.time}`]);
+  }
+  if (transcript.startTime || transcript.endTime) {
+    details.push(["Range", `${transcript.startTime || "the beginning"} to ${transcript.endTime || "the export"}`]);
+  }
+  details.push(["Exported", transcript.exportedAt]);
+  return details;
+}
+
+/**
+ * Reactions as one line: who added each emoji when known, otherwise the counts.
+ */
+function describeTranscriptReactions(message: ExportedMessage): string | undefined {
+  if (message.reactions && message.reactions.length > 0) {
+    const users = new Map<string, string[]>();
+    for (const reaction of message.reactions) {
+      const emoji = reactionEmoji(reaction);
+      users.set(emoji, [...(users.get(emoji) || []), reaction.user?.displayName || reaction.user?.name || "Unknown"]);
+    }
+    return [...users].map(([emoji, names]) => `${emoji} ${names.join(", ")}`).join(" · ");
+  }
+  if (message.emojiReactionSummaries && message.emojiReactionSummaries.length > 0) {
+    return message.emojiReactionSummaries
+      .map(summary => `${summary.emoji?.unicode || summary.emoji?.customEmoji?.uid || "?"} ${summary.reactionCount ?? 0}`)
+      .join(" · ");
+  }
+  return undefined;
+}
+
+/**
+ * Day and time of a timestamp in UTC, so transcripts read the same wherever they are made.
+ */
+function utcTime(timestamp: string | undefined): { day: string; time: string } {
+  const date = timestamp ? new Date(timestamp) : undefined;
+  if (!date || isNaN(date.getTime())) {
+    return { day: "Unknown date", time: "" };
+  }
+  const iso = date.toISOString();
+  return { day: iso.slice(0, 10), time: `${iso.slice(11, 16)} UTC` };
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Inline code, <url|label> links and bare links in Chat message text
+const CHAT_INLINE_TOKEN = /(`[^`\n]+`)|<((?:https?:\/\/|mailto:)[^\s|>]+)(?:\|([^>]*))?>|((?:https?:\/\/|mailto:)[^\s<>]*[^\s<>.,;:!?'")\]])/g;
+
+/**
+ * Convert Chat's text formatting (*bold*, _italic_, ~strike~, code and links) to HTML.
+ */
+function chatTextToHtml(text: string): string {
+  return text.split(/(```[\s\S]*?```)/).map((part, index) =>
+    index % 2 === 1
+      ? `<pre>${escapeHtml(part.slice(3, -3).replace(/^\n/, ""))}</pre>`
+      : chatInlineToHtml(part)
+  ).join("");
+}
+
+function chatInlineToHtml(text: string): string {
+  const emphasis = (plain: string) => escapeHtml(plain)
+    .replace(/(^|[^\w*])\*([^*\s](?:[^*\n]*[^*\s])?)\*(?![\w*])/g, "$1<strong>$2</strong>")
+    .replace(/(^|[^\w_])_([^_\s](?:[^_\n]*[^_\s])?)_(?![\w_])/g, "$1<em>$2</em>")
+    .replace(/(^|[^\w~])~([^~\s](?:[^~\n]*[^~\s])?)~(?![\w~])/g, "$1<del>$2</del>");
+
+  let html = "";
+  let last = 0;
+  for (const match of text.matchAll(CHAT_INLINE_TOKEN)) {
+    html += emphasis(text.slice(last, match.index));
+    if (match[1]) {
+      html += `<code>${escapeHtml(match[1].slice(1, -1))}</code>`;
+    } else {
+      const url = match[2] || match[4];
+      html += `<a href="${escapeHtml(url)}">${escapeHtml(match[3] || url)}</a>`;
+    }
+    last = match.index! + match[0].length;
+  }
+  html += emphasis(text.slice(last));
+  return html.replace(/\n/g, "<br>\n");
+}
+
+/**
+ * Shorten text to a single line of at most maxLength characters.
+ */
+function truncateText(text: string, maxLength: number): string {
+  const line = text.replace(/\s+/g, " ").trim();
+  return line.length > maxLength ? `${line.substring(0, maxLength)}...` : line;
+}
+
 /**
  * Format a timestamp for display.
  */
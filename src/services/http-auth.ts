@@ -0,0 +1,261 @@
+import { timingSafeEqual } from "node:crypto";
+import { promises as fs } from "node:fs";
+import axios from "axios";
+import type { RequestHandler } from "express";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import type { OAuthTokenVerifier } from "@modelcontextprotocol/sdk/server/auth/provider.js";
+import { InvalidTokenError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import type { OAuthMetadata } from "@modelcontextprotocol/sdk/shared/auth.js";
+
+export interface ApiKeyEntry {
+  name: string;
+  key: string;
+  // Tool name patterns this key may call; `*` is a wildcard. Omit for all tools.
+  tools?: string[];
+}
+
+export interface OAuthResourceConfig {
+  issuer: string;
+  metadata: OAuthMetadata;
+  introspectionUrl: string;
+  clientId?: string;
+  clientSecret?: string;
+  resourceUrl: URL;
+  requiredScopes: string[];
+}
+
+export interface InboundAuthConfig {
+  apiKeys: ApiKeyEntry[];
+  oauth: OAuthResourceConfig | null;
+}
+
+// Static keys never expire; report a rolling expiry so the bearer middleware accepts them
+const API_KEY_TTL_SECONDS = 3600;
+
+/**
+ * Load inbound authentication settings for the HTTP endpoint.
+ * Returns null when neither API keys nor an OAuth issuer are configured.
+ */
+export async function loadInboundAuthConfig(): Promise<InboundAuthConfig | null> {
+  const apiKeys = await loadApiKeys();
+  const oauth = await loadOAuthConfig();
+
+  if (apiKeys.length === 0 && !oauth) {
+    return null;
+  }
+  return { apiKeys, oauth };
+}
+
+/**
+ * Read API keys from MCP_API_KEYS (JSON) or MCP_API_KEYS_FILE (path to JSON).
+ * Both hold an array of { name, key, tools? } entries.
+ */
+async function loadApiKeys(): Promise<ApiKeyEntry[]> {
+  let raw = process.env.MCP_API_KEYS;
+  if (!raw && process.env.MCP_API_KEYS_FILE) {
+    raw = await fs.readFile(process.env.MCP_API_KEYS_FILE, "utf8");
+  }
+  if (!raw) {
+    return [];
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error("Invalid MCP_API_KEYS: must be a JSON array of { name, key, tools? }");
+  }
+  if (!Array.isArray(parsed) || parsed.some(e => typeof e?.name !== "string" || typeof e?.key !== "string" || !e.key)) {
+    throw new Error("Invalid MCP_API_KEYS: every entry needs a name and a non-empty key");
+  }
+  return parsed as ApiKeyEntry[];
+}
+
+/**
+ * Discover the authorization server configured by MCP_OAUTH_ISSUER.
+ */
+async function loadOAuthConfig(): Promise<OAuthResourceConfig | null> {
+  const issuer = process.env.MCP_OAUTH_ISSUER?.replace(/\/+$/, "");
+  if (!issuer) {
+    return null;
+  }
+  const resourceUrl = process.env.MCP_RESOURCE_URL;
+  if (!resourceUrl) {
+    throw new Error("MCP_RESOURCE_URL must be set to this server's public /mcp URL when MCP_OAUTH_ISSUER is used");
+  }
+
+  let metadata: OAuthMetadata | null = null;
+  for (const path of ["/.well-known/oauth-authorization-server", "/.well-known/openid-configuration"]) {
+    try {
+      metadata = (await axios.get<OAuthMetadata>(`${issuer}${path}`, { timeout: 10000 })).data;
+      break;
+    } catch {
+      // Try the next discovery document
+    }
+  }
+  if (!metadata) {
+    throw new Error(`Could not discover authorization server metadata for ${issuer}`);
+  }
+
+  const introspectionUrl = process.env.MCP_OAUTH_INTROSPECTION_URL || metadata.introspection_endpoint;
+  if (!introspectionUrl) {
+    throw new Error("Authorization server has no introspection endpoint; set MCP_OAUTH_INTROSPECTION_URL");
+  }
+
+  return {
+    issuer,
+    metadata,
+    introspectionUrl,
+    clientId: process.env.MCP_OAUTH_CLIENT_ID,
+    clientSecret: process.env.MCP_OAUTH_CLIENT_SECRET,
+    resourceUrl: new URL(resourceUrl),
+    requiredScopes: (process.env.MCP_OAUTH_REQUIRED_SCOPES || "").split(/[\s,]+/).filter(Boolean)
+  };
+}
+
+/**
+ * Verify bearer tokens against static API keys first, then OAuth introspection.
+ */
+export function createTokenVerifier(config: InboundAuthConfig): OAuthTokenVerifier {
+  return {
+    async verifyAccessToken(token: string): Promise<AuthInfo> {
+      const key = config.apiKeys.find(entry => safeEqual(entry.key, token));
+      if (key) {
+        return {
+          token,
+          clientId: key.name,
+          scopes: [],
+          expiresAt: Math.floor(Date.now() / 1000) + API_KEY_TTL_SECONDS,
+          extra: { keyName: key.name, tools: key.tools }
+        };
+      }
+
+      if (config.oauth) {
+        return introspectToken(config.oauth, token);
+      }
+      throw new InvalidTokenError("Invalid API key");
+    }
+  };
+}
+
+interface IntrospectionResponse {
+  active: boolean;
+  scope?: string;
+  client_id?: string;
+  exp?: number;
+  aud?: string | string[];
+  sub?: string;
+}
+
+/**
+ * Validate an OAuth access token with RFC 7662 token introspection.
+ */
+async function introspectToken(config: OAuthResourceConfig, token: string): Promise<AuthInfo> {
+  const response = await axios.post<IntrospectionResponse>(
+    config.introspectionUrl,
+    new URLSearchParams({ token, token_type_hint: "access_token" }).toString(),
+    {
+      timeout: 10000,
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      auth: config.clientId && config.clientSecret
+        ? { username: config.clientId, password: config.clientSecret }
+        : undefined
+    }
+  );
+
+  const info = response.data;
+  if (!info.active) {
+    throw new InvalidTokenError("Token is not active");
+  }
+
+  // RFC 8707: the token must have been issued for this server; a token without an
+  // audience could have been issued for any resource
+  const audiences = Array.isArray(info.aud) ? info.aud : info.aud ? [info.aud] : [];
+  if (!audiences.includes(config.resourceUrl.href)) {
+    throw new InvalidTokenError("Token was not issued for this resource");
+  }
+
+  return {
+    token,
+    clientId: info.client_id || info.sub || "unknown",
+    scopes: info.scope ? info.scope.split(" ") : [],
+    expiresAt: info.exp,
+    resource: config.resourceUrl,
+    extra: { subject: info.sub }
+  };
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * Check whether the caller's API key allows the given tool.
+ * Callers without per-key restrictions may use every tool.
+ */
+export function isToolPermitted(authInfo: AuthInfo | undefined, toolName: string): boolean {
+  const patterns = authInfo?.extra?.tools as string[] | undefined;
+  if (!patterns) {
+    return true;
+  }
+  return patterns.some(pattern => matchesToolPattern(pattern, toolName));
+}
+
+/**
+ * Throw when an API key's tools list has patterns that match none of the server's
+ * tools, so a misspelled name does not silently lock the key out.
+ */
+export function checkApiKeyTools(apiKeys: ApiKeyEntry[], toolNames: string[]): void {
+  for (const key of apiKeys) {
+    const unknown = (key.tools || []).filter(pattern => !toolNames.some(name => matchesToolPattern(pattern, name)));
+    if (unknown.length > 0) {
+      throw new Error(`Invalid MCP_API_KEYS: key '${key.name}' lists tools that do not exist: ${unknown.join(", ")}`);
+    }
+  }
+}
+
+function matchesToolPattern(pattern: string, toolName: string): boolean {
+  return new RegExp(`^${pattern.split("*").map(escapeRegExp).join(".*")}$`).test(toolName);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Reject browser requests from origins that are not explicitly allowed.
+ * Requests without an Origin header (non-browser clients) pass through.
+ * Localhost origins are allowed when no list is configured.
+ */
+export function originValidation(allowedOrigins: string[]): RequestHandler {
+  return (req, res, next) => {
+    const origin = req.headers.origin;
+    if (!origin) {
+      next();
+      return;
+    }
+
+    let allowed: boolean;
+    if (allowedOrigins.length > 0) {
+      allowed = allowedOrigins.includes(origin);
+    } else {
+      try {
+        allowed = ["localhost", "127.0.0.1", "[::1]"].includes(new URL(origin).hostname);
+      } catch {
+        allowed = false;
+      }
+    }
+
+    if (!allowed) {
+      res.status(403).json({
+        jsonrpc: "2.0",
+        error: { code: -32000, message: `Origin ${origin} is not allowed` },
+        id: null
+      });
+      return;
+    }
+    next();
+  };
+}
@@ -0,0 +1,50 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+// User the current tool call acts as, when it overrides the default
+const actingUser = new AsyncLocalStorage<string>();
+
+/**
+ * The workspace user the service account impersonates by default, if any.
+ */
+export function getDefaultSubject(): string | undefined {
+  return process.env.GOOGLE_IMPERSONATE_USER || undefined;
+}
+
+/**
+ * Users that tool calls may impersonate via `actAs`.
+ * Entries are email addresses or `*@domain` wildcards.
+ */
+function getAllowlist(): string[] {
+  return (process.env.GOOGLE_IMPERSONATE_ALLOWLIST || "")
+    .split(",")
+    .map(entry => entry.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Check whether a tool call may act as the given user.
+ */
+export function isImpersonationAllowed(email: string): boolean {
+  const normalized = email.trim().toLowerCase();
+  if (normalized === getDefaultSubject()?.toLowerCase()) {
+    return true;
+  }
+
+  return getAllowlist().some(entry =>
+    entry.startsWith("*@") ? normalized.endsWith(entry.slice(1)) : entry === normalized
+  );
+}
+
+/**
+ * Run fn with every API request made as the given user.
+ */
+export function runAsUser<T>(email: string, fn: () => Promise<T>): Promise<T> {
+  return actingUser.run(email, fn);
+}
+
+/**
+ * The user API requests should impersonate right now, if any.
+ */
+export function getActingUser(): string | undefined {
+  return actingUser.getStore() || getDefaultSubject();
+}
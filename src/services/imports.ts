@@ -0,0 +1,201 @@
+import { AxiosError } from "axios";
+import { makeApiRequest, handleApiError } from "./api-client.js";
+import { runAsUser } from "./impersonation.js";
+import type { ProgressCallback } from "./progress.js";
+import type { Space, Message, Member } from "../types.js";
+
+export interface ImportSpaceOptions {
+  displayName: string;
+  spaceType: string;
+  createTime?: string;
+  externalUserAllowed?: boolean;
+  description?: string;
+}
+
+export interface HistoricalMessage {
+  // Email of the original sender, impersonated to post the message
+  sender: string;
+  text: string;
+  createTime: string;
+  threadKey?: string;
+  // Becomes the client-assigned message ID, so imports can be re-run safely
+  messageId?: string;
+  reactions?: { emoji: string; users: string[] }[];
+}
+
+export interface ImportedMessage {
+  name: string;
+  // The message was imported by an earlier run
+  existed: boolean;
+  reactions: number;
+}
+
+export interface ImportMessagesResult {
+  [key: string]: unknown;
+  spaceName: string;
+  imported: ImportedMessage[];
+  // The message that stopped the import; later messages were not attempted
+  failed?: { index: number; createTime: string; error: string };
+}
+
+export interface ImportMembersResult {
+  [key: string]: unknown;
+  spaceName: string;
+  added: Member[];
+  // Users who were already members
+  existing: string[];
+  failed: { user: string; error: string }[];
+}
+
+export interface HistoricalMembership {
+  // Email or user resource name
+  user: string;
+  role?: string;
+  createTime?: string;
+  deleteTime?: string;
+}
+
+/**
+ * Create a space in import mode. Only the caller and imported members can see it
+ * until the import is completed, which must happen within 90 days.
+ */
+export async function createImportSpace(options: ImportSpaceOptions): Promise<Space> {
+  return makeApiRequest<Space>("spaces", "POST", {
+    displayName: options.displayName,
+    spaceType: options.spaceType,
+    importMode: true,
+    createTime: options.createTime,
+    externalUserAllowed: options.externalUserAllowed,
+    spaceDetails: options.description ? { description: options.description } : undefined
+  });
+}
+
+/**
+ * Post a historical message as its original sender, then add its reactions as the
+ * users who reacted. A message ID already taken means an earlier run imported it.
+ */
+export async function importMessage(spaceName: string, message: HistoricalMessage): Promise<ImportedMessage> {
+  const messageId = message.messageId ? `client-${message.messageId}` : undefined;
+  let name: string;
+  let existed = false;
+  try {
+    const created = await runAsUser(message.sender, () => makeApiRequest<Message>(
+      `${spaceName}/messages`,
+      "POST",
+      {
+        text: message.text,
+        createTime: message.createTime,
+        thread: message.threadKey ? { threadKey: message.threadKey } : undefined
+      },
+      {
+        messageId,
+        messageReplyOption: message.threadKey ? "REPLY_MESSAGE_FALLBACK_TO_NEW_THREAD" : undefined
+      },
+      // With a client-assigned ID a repeated POST cannot create a duplicate
+      { retry: { retryNonIdempotent: !!messageId } }
+    ));
+    name = created.name;
+  } catch (error) {
+    if (!messageId || !isConflict(error)) {
+      throw error;
+    }
+    name = `${spaceName}/messages/${messageId}`;
+    existed = true;
+  }
+
+  let reactions = 0;
+  for (const reaction of message.reactions || []) {
+    for (const user of reaction.users) {
+      try {
+        await runAsUser(user, () => makeApiRequest(`${name}/reactions`, "POST", { emoji: { unicode: reaction.emoji } }));
+        reactions++;
+      } catch (error) {
+        if (!isConflict(error)) {
+          throw error;
+        }
+      }
+    }
+  }
+  return { name, existed, reactions };
+}
+
+/**
+ * Import messages in order, stopping at the first failure so that replies are
+ * never posted ahead of the message that starts their thread.
+ */
+export async function importMessages(
+  spaceName: string,
+  messages: HistoricalMessage[],
+  onProgress: ProgressCallback,
+  signal?: AbortSignal
+): Promise<ImportMessagesResult> {
+  const result: ImportMessagesResult = { spaceName, imported: [] };
+  for (const [index, message] of messages.entries()) {
+    if (signal?.aborted) {
+      break;
+    }
+    try {
+      result.imported.push(await importMessage(spaceName, message));
+    } catch (error) {
+      result.failed = { index, createTime: message.createTime, error: handleApiError(error) };
+      break;
+    }
+    await onProgress(index + 1, messages.length, `Imported ${index + 1} of ${messages.length} messages`);
+  }
+  return result;
+}
+
+/**
+ * Add a membership to a space in import mode, with its historical join and leave times.
+ * Returns null when the user is already a member.
+ */
+export async function importMembership(spaceName: string, membership: HistoricalMembership): Promise<Member | null> {
+  try {
+    return await makeApiRequest<Member>(`${spaceName}/members`, "POST", {
+      member: {
+        name: membership.user.startsWith("users/") ? membership.user : `users/${membership.user}`,
+        type: "HUMAN"
+      },
+      role: membership.role,
+      createTime: membership.createTime,
+      deleteTime: membership.deleteTime
+    });
+  } catch (error) {
+    if (isConflict(error)) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Import memberships one by one, carrying on past users who cannot be added.
+ */
+export async function importMemberships(spaceName: string, memberships: HistoricalMembership[]): Promise<ImportMembersResult> {
+  const result: ImportMembersResult = { spaceName, added: [], existing: [], failed: [] };
+  for (const membership of memberships) {
+    try {
+      const member = await importMembership(spaceName, membership);
+      if (member) {
+        result.added.push(member);
+      } else {
+        result.existing.push(membership.user);
+      }
+    } catch (error) {
+      result.failed.push({ user: membership.user, error: handleApiError(error) });
+    }
+  }
+  return result;
+}
+
+/**
+ * Take a space out of import mode so its members can see it. This cannot be undone.
+ */
+export async function completeImport(spaceName: string): Promise<Space> {
+  const response = await makeApiRequest<{ space: Space }>(`${spaceName}:completeImport`, "POST", {});
+  return response.space;
+}
+
+function isConflict(error: unknown): boolean {
+  return error instanceof AxiosError && error.response?.status === 409;
+}
@@ -0,0 +1,331 @@
+// Zero-width space inserted after a literal character that Chat would read as formatting
+const BREAK = "\u200B";
+const BULLETS = ["•", "◦", "▪"];
+// Bare links Chat turns into hyperlinks itself; trailing punctuation is left out
+const URL_PATTERN = /^(https?:\/\/|mailto:)[^\s<>]*[^\s<>.,;:!?'")\]]/;
+
+/**
+ * Convert CommonMark, as LLMs usually write it, to Google Chat's text formatting:
+ * *bold*, _italic_, ~strike~, `code`, ```blocks``` and <url|label> links.
+ * Headings become bold lines, tables become aligned code blocks, and literal
+ * characters Chat would treat as formatting are neutralized.
+ */
+export function markdownToChat(markdown: string): string {
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+  const output: string[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      output.push(convertInline(joinParagraph(paragraph)));
+      paragraph = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // Fenced code: keep contents verbatim, drop the info string Chat would print
+    const fence = /^\s*(`{3,}|~{3,})/.exec(line);
+    if (fence) {
+      flushParagraph();
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i]);
+        i++;
+      }
+      output.push("```\n" + code.join("\n") + "\n```");
+      continue;
+    }
+
+    if (line.trim() === "") {
+      flushParagraph();
+      if (output.length > 0 && output[output.length - 1] !== "") {
+        output.push("");
+      }
+      continue;
+    }
+
+    const heading = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/.exec(line);
+    if (heading) {
+      flushParagraph();
+      output.push(formatHeading(heading[2]));
+      continue;
+    }
+
+    // Setext heading: a paragraph line underlined with === or ---
+    if (paragraph.length > 0 && /^\s{0,3}(=+|-+)\s*$/.test(line)) {
+      const title = joinParagraph(paragraph);
+      paragraph = [];
+      output.push(formatHeading(title));
+      continue;
+    }
+
+    if (/^\s{0,3}([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      flushParagraph();
+      output.push("──────────");
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      flushParagraph();
+      const rows: string[][] = [splitTableRow(line)];
+      i += 2;
+      while (i < lines.length && lines[i].includes("|") && lines[i].trim() !== "") {
+        rows.push(splitTableRow(lines[i]));
+        i++;
+      }
+      i--;
+      output.push(formatTable(rows));
+      continue;
+    }
+
+    const quote = /^\s{0,3}>\s?(.*)$/.exec(line);
+    if (quote) {
+      flushParagraph();
+      output.push(`> ${convertInline(quote[1])}`);
+      continue;
+    }
+
+    const item = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/.exec(line);
+    if (item) {
+      flushParagraph();
+      output.push(formatListItem(item[1], item[2], item[3]));
+      continue;
+    }
+
+    paragraph.push(line);
+  }
+  flushParagraph();
+
+  while (output.length > 0 && output[output.length - 1] === "") {
+    output.pop();
+  }
+  return output.join("\n");
+}
+
+/**
+ * Join soft-wrapped paragraph lines. A trailing backslash or two spaces is a hard break.
+ */
+function joinParagraph(lines: string[]): string {
+  let text = "";
+  lines.forEach((line, index) => {
+    if (index === lines.length - 1) {
+      text += line.trim();
+    } else if (/(\\| {2,})$/.test(line)) {
+      text += line.replace(/(\\| +)$/, "").trim() + "\n";
+    } else {
+      text += line.trim() + " ";
+    }
+  });
+  return text;
+}
+
+function formatHeading(text: string): string {
+  // Chat has no headings; a bold line reads as one. Inner bold markers would close it early.
+  const inner = convertInline(text.replace(/(\*\*|__)(.+?)\1/g, "$2"));
+  return `*${inner}*`;
+}
+
+function formatListItem(indent: string, marker: string, text: string): string {
+  const level = Math.floor(indent.replace(/\t/g, "    ").length / 2);
+  const task = /^\[([ xX])\]\s+(.*)$/.exec(text);
+  const content = task ? `${task[1] === " " ? "☐" : "☑"} ${task[2]}` : text;
+  const bullet = /\d/.test(marker)
+    ? `${marker.slice(0, -1)}.`
+    : BULLETS[Math.min(level, BULLETS.length - 1)];
+  return `${"    ".repeat(level)}${bullet} ${convertInline(content)}`;
+}
+
+function isTableStart(lines: string[], index: number): boolean {
+  const next = lines[index + 1];
+  return lines[index].includes("|") &&
+    next !== undefined &&
+    /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/.test(next);
+}
+
+function splitTableRow(line: string): string[] {
+  return line.trim()
+    .replace(/^\|/, "")
+    .replace(/\|$/, "")
+    .split(/(?<!\\)\|/)
+    .map(cell => toPlainText(cell.trim().replace(/\\\|/g, "|")));
+}
+
+/**
+ * Chat cannot draw tables, so render them as a monospace block with padded columns.
+ */
+function formatTable(rows: string[][]): string {
+  const columns = Math.max(...rows.map(row => row.length));
+  const widths = Array.from({ length: columns }, (_, column) =>
+    Math.max(...rows.map(row => (row[column] || "").length))
+  );
+  const render = (row: string[]) =>
+    widths.map((width, column) => (row[column] || "").padEnd(width)).join(" | ").trimEnd();
+
+  const [header, ...body] = rows;
+  return "```\n" + [
+    render(header),
+    widths.map(width => "-".repeat(width)).join("-+-"),
+    ...body.map(render)
+  ].join("\n") + "\n```";
+}
+
+/**
+ * Strip inline Markdown for contexts where Chat shows text verbatim, such as code blocks.
+ */
+function toPlainText(text: string): string {
+  return text
+    .replace(/!?\[([^\]]*)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g, (_, label: string, url: string) =>
+      label && label !== url ? `${label} (${url})` : url)
+    .replace(/(\*\*\*|\*\*|\*|___|__|~~)(\S(?:.*?\S)?)\1/g, "$2")
+    .replace(/(^|\W)_(\S(?:.*?\S)?)_(?=\W|$)/g, "$1$2")
+    .replace(/`([^`]+)`/g, "$1")
+    .replace(/\\([!-/:-@[-`{-~])/g, "$1");
+}
+
+/**
+ * Convert inline Markdown (emphasis, code, links, escapes) to Chat formatting.
+ */
+function convertInline(text: string): string {
+  let result = "";
+  let i = 0;
+
+  while (i < text.length) {
+    const rest = text.slice(i);
+    const char = text[i];
+
+    // Backslash escapes produce a literal character
+    if (char === "\\" && /^[!-/:-@[-`{-~]$/.test(text[i + 1] || "")) {
+      result += escapeLiteral(text, i + 1, text[i - 1]);
+      i += 2;
+      continue;
+    }
+
+    // Code spans are kept verbatim
+    if (char === "`") {
+      const ticks = /^`+/.exec(rest)![0];
+      const end = text.indexOf(ticks, i + ticks.length);
+      if (end !== -1) {
+        const code = text.slice(i + ticks.length, end).replace(/`/g, "'").trim();
+        result += `\`${code}\``;
+        i = end + ticks.length;
+        continue;
+      }
+    }
+
+    // Bare URLs must not have their underscores or asterisks touched
+    const url = URL_PATTERN.exec(rest);
+    if (url && !/\w/.test(text[i - 1] || "")) {
+      result += url[0];
+      i += url[0].length;
+      continue;
+    }
+
+    if (char === "<") {
+      // Chat mentions and links written directly pass through
+      const chatToken = /^<(users\/[^>\s]+|https?:\/\/[^>\s|]+(\|[^>]*)?)>/.exec(rest);
+      if (chatToken) {
+        result += chatToken[1].startsWith("users/") || chatToken[2] ? chatToken[0] : chatToken[1];
+        i += chatToken[0].length;
+        continue;
+      }
+      const lineBreak = /^<br\s*\/?>/i.exec(rest);
+      if (lineBreak) {
+        result += "\n";
+        i += lineBreak[0].length;
+        continue;
+      }
+    }
+
+    const link = /^(!?)\[((?:\\.|[^\]])*)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/.exec(rest);
+    if (link) {
+      const label = toPlainText(link[2]).replace(/[|>]/g, " ").trim();
+      result += label && label !== link[3] ? `<${link[3]}|${label}>` : link[3];
+      i += link[0].length;
+      continue;
+    }
+
+    if (char === "*" || char === "_" || char === "~") {
+      const emphasis = matchEmphasis(text, i);
+      if (emphasis) {
+        result += emphasis.output;
+        i = emphasis.end;
+        continue;
+      }
+    }
+
+    result += escapeLiteral(text, i);
+    i++;
+  }
+
+  return result;
+}
+
+/**
+ * Match an emphasis run starting at index and convert it, or return null if it has no closer.
+ */
+function matchEmphasis(text: string, index: number): { output: string; end: number } | null {
+  const char = text[index];
+  const run = new RegExp(`^\\${char}+`).exec(text.slice(index))![0];
+  const length = Math.min(run.length, 3);
+  const delimiter = char.repeat(length);
+
+  // Openers must be followed by non-space; `_` must also start a word
+  const after = text[index + length];
+  if (!after || /\s/.test(after) || (char === "_" && /\w/.test(text[index - 1] || ""))) {
+    return null;
+  }
+  if (char === "~" && length !== 2) {
+    return null;
+  }
+
+  let search = index + length;
+  while (search < text.length) {
+    const close = text.indexOf(delimiter, search);
+    if (close === -1) {
+      return null;
+    }
+    const before = text[close - 1];
+    const following = text[close + length];
+    const validCloser = !/\s/.test(before) &&
+      following !== char &&
+      !(char === "_" && /\w/.test(following || ""));
+    if (validCloser && close > index + length) {
+      const inner = convertInline(text.slice(index + length, close));
+      const output = char === "~"
+        ? `~${inner}~`
+        : length === 1
+          ? `_${inner}_`
+          : length === 2
+            ? `*${inner}*`
+            : `*_${inner}_*`;
+      return { output, end: close + length };
+    }
+    search = close + 1;
+  }
+  return null;
+}
+
+/**
+ * Write the literal character at index, breaking it with a zero-width space only
+ * where Chat would start formatting there: `*`, `_` or `~` opening a word and
+ * closed later on, a backtick with another one after it, or `<` starting a link
+ * or mention. Everything else, such as snake_case or 2 * 3, stays as is.
+ */
+function escapeLiteral(text: string, index: number, before = text[index - 1] || ""): string {
+  const char = text[index];
+  const rest = text.slice(index + 1);
+
+  let opens = false;
+  if (char === "*" || char === "_" || char === "~") {
+    // Chat pairs it with a later one that follows non-space and ends a word
+    opens = !/\w/.test(before) && /^\S/.test(rest) && new RegExp(`\\S\\${char}(?!\\w)`).test(rest);
+  } else if (char === "`") {
+    opens = rest.includes("`");
+  } else if (char === "<") {
+    opens = /^(users\/|https?:\/\/|mailto:)[^>]*>/.test(rest);
+  }
+  return opens ? `${char}${BREAK}` : char;
+}
@@ -0,0 +1,173 @@
+import { AxiosError, type AxiosInstance } from "axios";
+import { makeApiRequest, getCallerScope } from "./api-client.js";
+import type { Message, Member } from "../types.js";
+
+// Distinct users looked up per call when filling in mention names, and how many at once
+const MAX_MENTION_LOOKUPS = 50;
+const MENTION_LOOKUP_CONCURRENCY = 4;
+// Looked-up names are reused across calls for this long, for at most this many callers
+const MENTION_NAME_TTL_MS = 10 * 60 * 1000;
+const MAX_CACHED_SCOPES = 100;
+
+// @alice@example.com at the start of the text or after whitespace or an opening bracket
+const EMAIL_MENTION = /(^|[\s(])@([A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,})/g;
+const ALL_MENTION = /(^|[\s(])@all\b/g;
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+interface CachedName {
+  // Undefined for users the caller cannot look up in that space
+  displayName?: string;
+  expiresAt: number;
+}
+
+// Caller scope -> "space|user" -> display name
+const nameCache = new Map<AxiosInstance | string, Map<string, CachedName>>();
+
+export interface ResolvedMentions {
+  // The mention being resolved, for error reporting
+  pending?: string;
+}
+
+/**
+ * Fill in display names on USER_MENTION annotations that lack them by looking
+ * the users up as members of the message's space, a few at a time. Names are
+ * cached per caller across calls. Best effort: users that cannot be looked up
+ * keep their resource name.
+ */
+export async function resolveMentionNames(messages: Message[]): Promise<void> {
+  // User resource name -> space to look them up in
+  const pending = new Map<string, string>();
+  for (const message of messages) {
+    const spaceName = message.name.split("/messages/")[0];
+    for (const annotation of message.annotations || []) {
+      const user = annotation.userMention?.user;
+      if (user?.name && user.name !== "users/all" && !user.displayName && !pending.has(user.name)) {
+        pending.set(user.name, spaceName);
+      }
+    }
+  }
+
+  const cache = getNameCache();
+  const names = new Map<string, string>();
+  const queue: [string, string][] = [];
+  for (const [userName, spaceName] of pending) {
+    const cached = cache.get(`${spaceName}|${userName}`);
+    if (cached && cached.expiresAt > Date.now()) {
+      if (cached.displayName) {
+        names.set(userName, cached.displayName);
+      }
+    } else if (queue.length < MAX_MENTION_LOOKUPS) {
+      queue.push([userName, spaceName]);
+    }
+  }
+
+  // A fixed number of workers take users from a shared queue
+  await Promise.all(Array.from({ length: Math.min(MENTION_LOOKUP_CONCURRENCY, queue.length) }, async () => {
+    for (let next = queue.shift(); next; next = queue.shift()) {
+      const [userName, spaceName] = next;
+      try {
+        const member = await makeApiRequest<Member>(
+          `${spaceName}/members/${userName.replace(/^users\//, "")}`,
+          "GET"
+        );
+        const displayName = member.member?.displayName;
+        if (displayName) {
+          names.set(userName, displayName);
+        }
+        cache.set(`${spaceName}|${userName}`, { displayName, expiresAt: Date.now() + MENTION_NAME_TTL_MS });
+      } catch (error) {
+        // Users who left the space or are hidden from the caller keep their resource name
+        if (error instanceof AxiosError && [403, 404].includes(error.response?.status || 0)) {
+          cache.set(`${spaceName}|${userName}`, { expiresAt: Date.now() + MENTION_NAME_TTL_MS });
+        }
+      }
+    }
+  }));
+
+  for (const message of messages) {
+    for (const annotation of message.annotations || []) {
+      const user = annotation.userMention?.user;
+      if (user && !user.displayName && names.has(user.name)) {
+        user.displayName = names.get(user.name);
+      }
+    }
+  }
+}
+
+/**
+ * The current caller's cache of mention names, dropping expired entries and
+ * the least recently used caller once too many are cached.
+ */
+function getNameCache(): Map<string, CachedName> {
+  const scope = getCallerScope();
+  const cache = nameCache.get(scope) || new Map<string, CachedName>();
+  nameCache.delete(scope);
+  nameCache.set(scope, cache);
+  if (nameCache.size > MAX_CACHED_SCOPES) {
+    nameCache.delete(nameCache.keys().next().value!);
+  }
+
+  for (const [key, entry] of cache) {
+    if (entry.expiresAt <= Date.now()) {
+      cache.delete(key);
+    }
+  }
+  return cache;
+}
+
+/**
+ * Turn `@alice@example.com` and `@all` in text, plus an explicit list of
+ * mentions, into Chat's `<users/...>` syntax. Emails are resolved to user ids
+ * through the space's memberships, so mentioned users must be members.
+ * Listed mentions are placed at the start of the text.
+ */
+export async function resolveOutgoingMentions(
+  spaceName: string,
+  text: string | undefined,
+  mentions: string[] | undefined,
+  resolved: ResolvedMentions
+): Promise<string | undefined> {
+  const userIds = new Map<string, string>();
+  const lookup = async (email: string): Promise<string> => {
+    if (!userIds.has(email)) {
+      resolved.pending = email;
+      const member = await makeApiRequest<Member>(`${spaceName}/members/${email}`, "GET");
+      if (!member.member?.name) {
+        throw new Error(`${email} is not a user member of ${spaceName}`);
+      }
+      resolved.pending = undefined;
+      userIds.set(email, member.member.name);
+    }
+    return userIds.get(email)!;
+  };
+
+  const prefix: string[] = [];
+  for (const mention of mentions || []) {
+    const value = mention.trim().replace(/^@/, "");
+    if (value === "all" || value === "users/all") {
+      prefix.push("<users/all>");
+    } else if (value.startsWith("users/")) {
+      prefix.push(`<${value}>`);
+    } else if (EMAIL.test(value)) {
+      prefix.push(`<${await lookup(value)}>`);
+    } else {
+      throw new Error(`Cannot mention '${mention}': use an email address, a user resource name or 'all'`);
+    }
+  }
+
+  let body = text;
+  if (body) {
+    const emails = [...new Set([...body.matchAll(EMAIL_MENTION)].map(match => match[2]))];
+    for (const email of emails) {
+      await lookup(email);
+    }
+    body = body
+      .replace(EMAIL_MENTION, (_, before: string, email: string) => `${before}<${userIds.get(email)}>`)
+      .replace(ALL_MENTION, "$1<users/all>");
+  }
+
+  if (prefix.length === 0) {
+    return body;
+  }
+  return body ? `${prefix.join(" ")} ${body}` : prefix.join(" ");
+}
@@ -0,0 +1,371 @@
+import { promises as fs, createReadStream } from "node:fs";
+import path from "node:path";
+import { createInterface } from "node:readline";
+import { markdownToChat } from "./markdown.js";
+import { MigrationPlatform } from "../constants.js";
+
+export interface SourceUser {
+  id: string;
+  // Handle used to log in and mention, e.g. 'ana'
+  username: string;
+  // Display name
+  name: string;
+  email?: string;
+  bot: boolean;
+}
+
+export interface SourceMessage {
+  // Unique within the channel and stable across reads
+  id: string;
+  // Source user ID, when the author was a user
+  user?: string;
+  // Name shown for authors that cannot be mapped, such as bots
+  authorName: string;
+  // Chat formatting
+  text: string;
+  createTime: string;
+  // ID shared by a thread's first message and its replies
+  threadId?: string;
+  reactions: SourceReaction[];
+  files: number;
+}
+
+export interface SourceReaction {
+  // Shortcode as written in the source, e.g. "thumbsup"
+  name: string;
+  // Unicode emoji, when the shortcode is known
+  emoji?: string;
+  users: string[];
+}
+
+export interface SourceChannel {
+  id: string;
+  // Name used to pick channels: the channel name for Slack, team/channel for Mattermost
+  name: string;
+  displayName: string;
+  description?: string;
+  createTime?: string;
+  creator?: string;
+  private: boolean;
+  // Source user IDs
+  members: string[];
+  // Oldest first
+  messages: SourceMessage[];
+  // Join, leave, topic and other system messages that are not migrated
+  skipped: number;
+}
+
+export interface MigrationSource {
+  platform: MigrationPlatform;
+  users: Map<string, SourceUser>;
+  channels: SourceChannel[];
+  // Parts of the export that are not migrated
+  notes: string[];
+}
+
+// Shortcodes both platforms use for the most common reactions
+const EMOJI: Record<string, string> = {
+  "+1": "👍", thumbsup: "👍", "-1": "👎", thumbsdown: "👎", heart: "❤️", smile: "😄",
+  slightly_smiling_face: "🙂", grinning: "😀", laughing: "😆", joy: "😂", rofl: "🤣", wink: "😉",
+  heart_eyes: "😍", thinking_face: "🤔", thinking: "🤔", confused: "😕", cry: "😢", sob: "😭",
+  scream: "😱", sweat_smile: "😅", sunglasses: "😎", tada: "🎉", eyes: "👀", fire: "🔥",
+  rocket: "🚀", "100": "💯", clap: "👏", raised_hands: "🙌", pray: "🙏", ok_hand: "👌",
+  muscle: "💪", wave: "👋", point_up: "☝️", white_check_mark: "✅", heavy_check_mark: "✔️",
+  x: "❌", warning: "⚠️", bulb: "💡", star: "⭐", sparkles: "✨", memo: "📝", see_no_evil: "🙈",
+  face_palm: "🤦", facepalm: "🤦", party_popper: "🎉", heavy_plus_sign: "➕", question: "❓",
+  exclamation: "❗", raised_hand: "✋", hourglass: "⌛", coffee: "☕", beers: "🍻", trophy: "🏆"
+};
+
+// Slack message subtypes that carry conversation content
+const SLACK_CONTENT_SUBTYPES = new Set(["bot_message", "thread_broadcast", "me_message", "file_share"]);
+
+/**
+ * Read an export directory from the given platform.
+ */
+export async function readMigrationSource(platform: MigrationPlatform, dir: string): Promise<MigrationSource> {
+  return platform === MigrationPlatform.SLACK ? readSlackExport(dir) : readMattermostExport(dir);
+}
+
+/**
+ * Read an unzipped Slack export: users.json, channels.json and groups.json, with one
+ * directory of daily JSON files per channel.
+ */
+async function readSlackExport(dir: string): Promise<MigrationSource> {
+  const users = new Map<string, SourceUser>();
+  for (const user of await readJson<SlackUser[]>(path.join(dir, "users.json"), [])) {
+    users.set(user.id, {
+      id: user.id,
+      username: user.name || user.id,
+      name: user.profile?.real_name || user.real_name || user.name || user.id,
+      email: user.profile?.email,
+      bot: !!user.is_bot || user.id === "USLACKBOT"
+    });
+  }
+
+  const notes: string[] = [];
+  const channels: SourceChannel[] = [];
+  const listed = [
+    ...(await readJson<SlackChannel[]>(path.join(dir, "channels.json"), [])).map(channel => ({ channel, private: false })),
+    ...(await readJson<SlackChannel[]>(path.join(dir, "groups.json"), [])).map(channel => ({ channel, private: true }))
+  ];
+  if (listed.length === 0) {
+    throw new Error(`No channels.json or groups.json found in ${dir}; expected an unzipped Slack export`);
+  }
+
+  for (const { channel, private: isPrivate } of listed) {
+    const channelDir = path.join(dir, channel.name);
+    const days = (await fs.readdir(channelDir).catch(() => [] as string[]))
+      .filter(file => /^\d{4}-\d{2}-\d{2}\.json$/.test(file))
+      .sort();
+
+    const messages: SourceMessage[] = [];
+    let skipped = 0;
+    for (const day of days) {
+      for (const message of await readJson<SlackMessage[]>(path.join(channelDir, day), [])) {
+        if (message.type !== "message" || (message.subtype && !SLACK_CONTENT_SUBTYPES.has(message.subtype))) {
+          skipped++;
+          continue;
+        }
+        const threaded = message.thread_ts && (message.thread_ts !== message.ts || message.reply_count);
+        messages.push({
+          id: message.ts,
+          user: message.bot_id ? undefined : message.user,
+          authorName: message.user_profile?.real_name || message.username ||
+            (message.user && users.get(message.user)?.name) || "Unknown",
+          text: convertSlackText(message.text || "", users),
+          createTime: slackTime(message.ts),
+          threadId: threaded ? message.thread_ts : undefined,
+          reactions: (message.reactions || []).map(reaction => ({
+            name: reaction.name,
+            emoji: shortcodeToEmoji(reaction.name),
+            users: reaction.users || []
+          })),
+          files: (message.files || []).length
+        });
+      }
+    }
+    messages.sort((a, b) => a.createTime.localeCompare(b.createTime));
+
+    channels.push({
+      id: channel.id,
+      name: channel.name,
+      displayName: channel.name,
+      description: channel.purpose?.value || channel.topic?.value || undefined,
+      createTime: channel.created ? new Date(channel.created * 1000).toISOString() : undefined,
+      creator: channel.creator,
+      private: isPrivate,
+      members: channel.members || [],
+      messages,
+      skipped
+    });
+  }
+
+  for (const [file, kind] of [["dms.json", "direct message"], ["mpims.json", "group direct message"]]) {
+    const conversations = await readJson<unknown[]>(path.join(dir, file), []);
+    if (conversations.length > 0) {
+      notes.push(`${conversations.length} ${kind} ${conversations.length === 1 ? "conversation is" : "conversations are"} not migrated.`);
+    }
+  }
+  return { platform: MigrationPlatform.SLACK, users, channels, notes };
+}
+
+/**
+ * Read a Mattermost bulk export: the first .jsonl file in the directory,
+ * one user, channel or post per line.
+ */
+async function readMattermostExport(dir: string): Promise<MigrationSource> {
+  const file = (await fs.readdir(dir)).filter(name => name.endsWith(".jsonl")).sort()[0];
+  if (!file) {
+    throw new Error(`No .jsonl file found in ${dir}; expected an unzipped Mattermost bulk export`);
+  }
+
+  const users = new Map<string, SourceUser>();
+  const channels = new Map<string, SourceChannel>();
+  const memberships: { user: string; channel: string }[] = [];
+  let directPosts = 0;
+
+  const lines = createInterface({ input: createReadStream(path.join(dir, file)), crlfDelay: Infinity });
+  for await (const line of lines) {
+    if (!line.trim()) {
+      continue;
+    }
+    const entry = JSON.parse(line) as MattermostLine;
+
+    if (entry.type === "user" && entry.user) {
+      const user = entry.user;
+      const fullName = [user.first_name, user.last_name].filter(Boolean).join(" ");
+      users.set(user.username, {
+        id: user.username,
+        username: user.username,
+        name: fullName || user.nickname || user.username,
+        email: user.email,
+        bot: false
+      });
+      for (const team of user.teams || []) {
+        for (const channel of team.channels || []) {
+          memberships.push({ user: user.username, channel: `${team.name}/${channel.name}` });
+        }
+      }
+    } else if (entry.type === "channel" && entry.channel) {
+      const channel = entry.channel;
+      // Every team has its own town-square, so channels are picked by team and name
+      channels.set(`${channel.team}/${channel.name}`, {
+        id: `${channel.team}/${channel.name}`,
+        name: `${channel.team}/${channel.name}`,
+        displayName: channel.display_name || channel.name,
+        description: channel.purpose || channel.header || undefined,
+        private: channel.type === "P",
+        members: [],
+        messages: [],
+        skipped: 0
+      });
+    } else if (entry.type === "post" && entry.post) {
+      const post = entry.post;
+      const channel = channels.get(`${post.team}/${post.channel}`);
+      if (!channel) {
+        continue;
+      }
+      const id = `${post.create_at}-${post.user}`;
+      channel.messages.push(mattermostMessage(post, id, (post.replies || []).length > 0 ? id : undefined, users));
+      for (const reply of post.replies || []) {
+        channel.messages.push(mattermostMessage(reply, `${reply.create_at}-${reply.user}`, id, users));
+      }
+    } else if (entry.type === "direct_post") {
+      directPosts++;
+    }
+  }
+
+  for (const { user, channel } of memberships) {
+    channels.get(channel)?.members.push(user);
+  }
+  for (const channel of channels.values()) {
+    channel.messages.sort((a, b) => a.createTime.localeCompare(b.createTime));
+  }
+
+  const notes = directPosts > 0 ? [`${directPosts} direct message ${directPosts === 1 ? "post is" : "posts are"} not migrated.`] : [];
+  return { platform: MigrationPlatform.MATTERMOST, users, channels: [...channels.values()], notes };
+}
+
+function mattermostMessage(
+  post: MattermostPost,
+  id: string,
+  threadId: string | undefined,
+  users: Map<string, SourceUser>
+): SourceMessage {
+  // Reactions come one per user; gather them per emoji
+  const reactions = new Map<string, SourceReaction>();
+  for (const reaction of post.reactions || []) {
+    if (!reactions.has(reaction.emoji_name)) {
+      reactions.set(reaction.emoji_name, { name: reaction.emoji_name, emoji: shortcodeToEmoji(reaction.emoji_name), users: [] });
+    }
+    reactions.get(reaction.emoji_name)!.users.push(reaction.user);
+  }
+  return {
+    id,
+    user: post.user,
+    authorName: users.get(post.user)?.name || post.user,
+    text: markdownToChat(post.message || ""),
+    createTime: new Date(post.create_at).toISOString(),
+    threadId,
+    reactions: [...reactions.values()],
+    files: (post.attachments || []).length
+  };
+}
+
+/**
+ * Slack's mrkdwn already matches Chat's formatting; only mentions, channel links
+ * and escaped characters need rewriting.
+ */
+function convertSlackText(text: string, users: Map<string, SourceUser>): string {
+  return text
+    .replace(/<@([A-Z0-9]+)(?:\|([^>]+))?>/g, (_, id: string, label?: string) => `@${users.get(id)?.name || label || id}`)
+    .replace(/<#[A-Z0-9]+\|([^>]+)>/g, "#$1")
+    .replace(/<!subteam\^[A-Z0-9]+\|([^>]+)>/g, "$1")
+    .replace(/<!(here|channel|everyone)(?:\|[^>]*)?>/g, "@$1")
+    .replace(/<((?:https?:\/\/|mailto:)[^|>]+)>/g, "$1")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
+
+function shortcodeToEmoji(name: string): string | undefined {
+  // Skin tone variants such as thumbsup::skin-tone-2 fall back to the base emoji
+  return EMOJI[name.split("::")[0]];
+}
+
+function slackTime(ts: string): string {
+  return new Date(Math.floor(parseFloat(ts) * 1000)).toISOString();
+}
+
+async function readJson<T>(file: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf8")) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return fallback;
+    }
+    throw new Error(`Could not read ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+interface SlackUser {
+  id: string;
+  name?: string;
+  real_name?: string;
+  is_bot?: boolean;
+  profile?: { real_name?: string; email?: string };
+}
+
+interface SlackChannel {
+  id: string;
+  name: string;
+  created?: number;
+  creator?: string;
+  members?: string[];
+  purpose?: { value?: string };
+  topic?: { value?: string };
+}
+
+interface SlackMessage {
+  type: string;
+  subtype?: string;
+  ts: string;
+  thread_ts?: string;
+  reply_count?: number;
+  user?: string;
+  bot_id?: string;
+  username?: string;
+  user_profile?: { real_name?: string };
+  text?: string;
+  reactions?: { name: string; users?: string[]; count?: number }[];
+  files?: unknown[];
+}
+
+interface MattermostLine {
+  type: string;
+  user?: {
+    username: string;
+    email?: string;
+    first_name?: string;
+    last_name?: string;
+    nickname?: string;
+    teams?: { name: string; channels?: { name: string }[] }[];
+  };
+  channel?: {
+    team: string;
+    name: string;
+    display_name?: string;
+    type?: string;
+    header?: string;
+    purpose?: string;
+  };
+  post?: MattermostPost & { team: string; channel: string; replies?: MattermostPost[] };
+}
+
+interface MattermostPost {
+  user: string;
+  message?: string;
+  create_at: number;
+  reactions?: { user: string; emoji_name: string }[];
+  attachments?: unknown[];
+}
@@ -0,0 +1,400 @@
+import path from "node:path";
+import { handleApiError } from "./api-client.js";
+import { getDefaultSubject, isImpersonationAllowed, runAsUser } from "./impersonation.js";
+import {
+  createImportSpace,
+  importMessage,
+  importMembership,
+  completeImport,
+  type HistoricalMessage,
+  type HistoricalMembership
+} from "./imports.js";
+import type { MigrationSource, SourceChannel, SourceMessage, SourceUser } from "./migration-sources.js";
+import type { ProgressCallback } from "./progress.js";
+import { DEFAULT_IMPORT_DIR, MAX_IMPORT_TEXT_LENGTH, MigrationPlatform, SpaceType } from "../constants.js";
+
+export interface MigrationOptions {
+  // Channel names to migrate; all channels when unset
+  channels?: string[];
+  // Source user ID or name -> workspace email
+  userMap: Record<string, string>;
+  spacePrefix: string;
+  // Channel name -> import-mode space from an earlier run
+  targetSpaces: Record<string, string>;
+  completeImport: boolean;
+}
+
+export interface ChannelReport {
+  [key: string]: unknown;
+  channel: string;
+  private: boolean;
+  // The space created, or continued from targetSpaces
+  space?: string;
+  // The workspace user the space is created as
+  creator?: string;
+  messages: number;
+  threads: number;
+  replies: number;
+  // Messages whose author has no workspace email that may be impersonated;
+  // they are posted by the creator with the author's name in front
+  postedAsCreator: number;
+  reactions: number;
+  // Reactions with an unknown emoji or by users who cannot be impersonated
+  skippedReactions: number;
+  unknownEmoji: string[];
+  // Source messages too long for one Chat message, posted in several parts
+  splitMessages: number;
+  // Attachments, which are not migrated
+  files: number;
+  // Join, leave, topic and other system messages
+  systemMessages: number;
+  members: number;
+  membersWithoutEmail: number;
+  firstMessageTime?: string;
+  lastMessageTime?: string;
+  // Set by a real run; each part of a split message counts once
+  imported?: number;
+  alreadyImported?: number;
+  failed?: number;
+  importCompleted?: boolean;
+  error?: string;
+}
+
+export interface MigrationReport {
+  [key: string]: unknown;
+  platform: MigrationPlatform;
+  dryRun: boolean;
+  // False when a run was cancelled before every channel was done
+  complete: boolean;
+  channels: ChannelReport[];
+  users: number;
+  // Users with no workspace email that may be impersonated; add them to userMap
+  unmappedUsers: string[];
+  notes: string[];
+  errors: string[];
+}
+
+interface ChannelPlan {
+  channel: SourceChannel;
+  report: ChannelReport;
+  spaceCreateTime?: string;
+  messages: HistoricalMessage[];
+  members: HistoricalMembership[];
+}
+
+// Message errors listed in a report; the rest are only counted
+const MAX_REPORTED_ERRORS = 50;
+// Messages between progress notifications
+const PROGRESS_INTERVAL = 25;
+// Start of each part after the first of a message that had to be split
+const CONTINUED = "_(continued)_\n";
+
+/**
+ * Directory migration sources are read from.
+ */
+export function getImportDir(): string {
+  return path.resolve(process.env.GOOGLE_CHAT_IMPORT_DIR || DEFAULT_IMPORT_DIR);
+}
+
+/**
+ * Absolute path of a directory inside the import directory, or undefined when it would leave it.
+ */
+export function resolveImportPath(relative: string): string | undefined {
+  const dir = getImportDir();
+  const resolved = path.resolve(dir, relative);
+  return resolved === dir || resolved.startsWith(dir + path.sep) ? resolved : undefined;
+}
+
+/**
+ * Work out what migrating the export would do, without calling the API.
+ */
+export function planMigration(source: MigrationSource, options: MigrationOptions): MigrationReport {
+  return buildPlans(source, options).report;
+}
+
+/**
+ * Migrate channels into import-mode spaces: create each space as its channel's
+ * creator, add the members, then post every message as its original author with
+ * the original time, thread and reactions. Messages carry IDs derived from the
+ * source, so a run continued through targetSpaces skips what is already there.
+ */
+export async function runMigration(
+  source: MigrationSource,
+  options: MigrationOptions,
+  onProgress: ProgressCallback,
+  signal?: AbortSignal
+): Promise<MigrationReport> {
+  const { report, plans } = buildPlans(source, options);
+  report.dryRun = false;
+
+  const total = plans.reduce((sum, plan) => sum + plan.messages.length, 0);
+  let done = 0;
+
+  for (const plan of plans) {
+    const channelReport = plan.report;
+    const creator = channelReport.creator;
+    if (signal?.aborted || !creator) {
+      continue;
+    }
+
+    try {
+      let spaceName = options.targetSpaces[plan.channel.name];
+      if (!spaceName) {
+        const space = await runAsUser(creator, () => createImportSpace({
+          displayName: `${options.spacePrefix}${plan.channel.displayName}`.slice(0, 128),
+          spaceType: SpaceType.SPACE,
+          createTime: plan.spaceCreateTime,
+          description: plan.channel.description?.slice(0, 500)
+        }));
+        spaceName = space.name;
+      }
+      channelReport.space = spaceName;
+
+      for (const member of plan.members) {
+        try {
+          await runAsUser(creator, () => importMembership(spaceName, member));
+        } catch (error) {
+          addError(report, `${plan.channel.name}: could not add ${member.user}: ${handleApiError(error)}`);
+        }
+      }
+
+      channelReport.imported = 0;
+      channelReport.alreadyImported = 0;
+      channelReport.failed = 0;
+      for (const message of plan.messages) {
+        if (signal?.aborted) {
+          break;
+        }
+        try {
+          const result = await importMessage(spaceName, message);
+          if (result.existed) {
+            channelReport.alreadyImported++;
+          } else {
+            channelReport.imported++;
+          }
+        } catch (error) {
+          channelReport.failed++;
+          addError(report, `${plan.channel.name}: message from ${message.createTime}: ${handleApiError(error)}`);
+        }
+        done++;
+        if (done % PROGRESS_INTERVAL === 0 || done === total) {
+          await onProgress(done, total, `Imported ${done} of ${total} messages (${plan.channel.name})`);
+        }
+      }
+
+      if (options.completeImport && !signal?.aborted && channelReport.failed === 0) {
+        await runAsUser(creator, () => completeImport(spaceName));
+        channelReport.importCompleted = true;
+      }
+    } catch (error) {
+      channelReport.error = handleApiError(error);
+    }
+  }
+
+  report.complete = !signal?.aborted;
+  return report;
+}
+
+function buildPlans(source: MigrationSource, options: MigrationOptions): { report: MigrationReport; plans: ChannelPlan[] } {
+  const unmapped = new Set<string>();
+  // Workspace email of a source user; bots only have one when userMap gives it
+  const mappedEmail = (userId: string | undefined): string | undefined => {
+    if (!userId) {
+      return undefined;
+    }
+    const user = source.users.get(userId);
+    return options.userMap[userId] || (user && options.userMap[user.username]) || (user?.bot ? undefined : user?.email);
+  };
+  // Email of a source user the migration may post as
+  const emailFor = (userId: string | undefined): string | undefined => {
+    const email = mappedEmail(userId);
+    return email && isImpersonationAllowed(email) ? email : undefined;
+  };
+
+  const wanted = options.channels ? new Set(options.channels) : undefined;
+  const notes = [...source.notes];
+  for (const name of options.channels || []) {
+    if (!source.channels.some(channel => channel.name === name)) {
+      notes.push(`Channel '${name}' is not in the export.`);
+    }
+  }
+
+  const plans: ChannelPlan[] = [];
+  for (const channel of source.channels) {
+    if (wanted && !wanted.has(channel.name)) {
+      continue;
+    }
+
+    const creator = emailFor(channel.creator) || getDefaultSubject();
+    const report: ChannelReport = {
+      channel: channel.name,
+      private: channel.private,
+      creator,
+      messages: 0,
+      threads: new Set(channel.messages.filter(message => message.threadId).map(message => message.threadId)).size,
+      replies: channel.messages.filter(message => message.threadId && message.threadId !== message.id).length,
+      postedAsCreator: 0,
+      reactions: 0,
+      skippedReactions: 0,
+      unknownEmoji: [],
+      splitMessages: 0,
+      files: 0,
+      systemMessages: channel.skipped,
+      members: 0,
+      membersWithoutEmail: 0
+    };
+    if (!creator) {
+      report.error = "No one to create the space as. Map the channel's creator in userMap or set GOOGLE_IMPERSONATE_USER.";
+    }
+
+    const messages: HistoricalMessage[] = [];
+    for (const message of channel.messages) {
+      const historical = toHistoricalMessages(message, emailFor, creator || "", report);
+      if (historical.length === 0) {
+        report.systemMessages++;
+        continue;
+      }
+      if (message.user && !emailFor(message.user)) {
+        unmapped.add(describeUser(source.users.get(message.user), message.user));
+      }
+      messages.push(...historical);
+      report.messages++;
+    }
+    report.firstMessageTime = messages[0]?.createTime;
+    report.lastMessageTime = messages[messages.length - 1]?.createTime;
+
+    const members: HistoricalMembership[] = [];
+    const spaceCreateTime = [channel.createTime, report.firstMessageTime].filter((time): time is string => !!time).sort()[0];
+    for (const userId of channel.members) {
+      const email = mappedEmail(userId);
+      if (email) {
+        members.push({ user: email, createTime: spaceCreateTime });
+      } else if (!source.users.get(userId)?.bot) {
+        report.membersWithoutEmail++;
+      }
+    }
+    report.members = members.length;
+
+    plans.push({ channel, report, spaceCreateTime, messages, members });
+  }
+
+  return {
+    report: {
+      platform: source.platform,
+      dryRun: true,
+      complete: true,
+      channels: plans.map(plan => plan.report),
+      users: source.users.size,
+      unmappedUsers: [...unmapped].sort(),
+      notes,
+      errors: []
+    },
+    plans
+  };
+}
+
+/**
+ * Convert a source message to what the import API accepts, counting what cannot be carried over.
+ * Text too long for one message is posted in parts; the reactions go on the first.
+ * Returns no messages for those with nothing to post.
+ */
+function toHistoricalMessages(
+  message: SourceMessage,
+  emailFor: (userId: string | undefined) => string | undefined,
+  creator: string,
+  report: ChannelReport
+): HistoricalMessage[] {
+  const sender = emailFor(message.user);
+  const parts: string[] = [];
+  if (message.text.trim()) {
+    parts.push(sender ? message.text : `*${message.authorName}*: ${message.text}`);
+  }
+  if (message.files > 0) {
+    report.files += message.files;
+    const note = `_${message.files} attachment${message.files === 1 ? "" : "s"} not migrated_`;
+    parts.push(sender || parts.length > 0 ? note : `*${message.authorName}*: ${note}`);
+  }
+  if (parts.length === 0) {
+    return [];
+  }
+  if (!sender) {
+    report.postedAsCreator++;
+  }
+
+  const reactions: { emoji: string; users: string[] }[] = [];
+  for (const reaction of message.reactions) {
+    if (!reaction.emoji) {
+      report.skippedReactions += reaction.users.length;
+      if (!report.unknownEmoji.includes(reaction.name)) {
+        report.unknownEmoji.push(reaction.name);
+      }
+      continue;
+    }
+    const users = reaction.users.map(emailFor).filter((email): email is string => !!email);
+    report.skippedReactions += reaction.users.length - users.length;
+    report.reactions += users.length;
+    if (users.length > 0) {
+      reactions.push({ emoji: reaction.emoji, users });
+    }
+  }
+
+  const messageId = toImportMessageId(message.id);
+  const chunks = splitText(parts.join("\n"), MAX_IMPORT_TEXT_LENGTH - CONTINUED.length);
+  if (chunks.length > 1) {
+    report.splitMessages++;
+  }
+  return chunks.map((text, i) => ({
+    sender: sender || creator,
+    text: i === 0 ? text : `${CONTINUED}${text}`,
+    // A millisecond apart, so the parts keep their order
+    createTime: new Date(Date.parse(message.createTime) + i).toISOString(),
+    threadKey: message.threadId,
+    messageId: i === 0 ? messageId : `${messageId.slice(0, 51)}-p${i + 1}`,
+    reactions: i === 0 ? reactions : []
+  }));
+}
+
+/**
+ * Split text into chunks of at most size characters, at line breaks where one is
+ * in the second half of a chunk, and never inside a surrogate pair.
+ */
+function splitText(text: string, size: number): string[] {
+  const chunks: string[] = [];
+  let rest = text;
+  while (rest.length > size) {
+    const lineBreak = rest.lastIndexOf("\n", size);
+    let end = lineBreak > size / 2 ? lineBreak : size;
+    if (/[\uD800-\uDBFF]/.test(rest.charAt(end - 1))) {
+      end--;
+    }
+    chunks.push(rest.slice(0, end));
+    rest = rest.slice(end).replace(/^\n/, "");
+  }
+  chunks.push(rest);
+  return chunks;
+}
+
+/**
+ * The client-assigned message ID a source message is imported with: its source ID
+ * reduced to lowercase letters, digits and hyphens.
+ */
+export function toImportMessageId(sourceId: string): string {
+  return sourceId.toLowerCase().replace(/[^a-z0-9-]+/g, "-").slice(0, 56);
+}
+
+/**
+ * Name a source user with the keys userMap accepts for them.
+ */
+function describeUser(user: SourceUser | undefined, userId: string): string {
+  if (!user) {
+    return userId;
+  }
+  const keys = [...new Set([user.username, userId])].join(", ");
+  return user.name === keys ? keys : `${user.name} (${keys})`;
+}
+
+function addError(report: MigrationReport, error: string): void {
+  if (report.errors.length < MAX_REPORTED_ERRORS) {
+    report.errors.push(error);
+  }
+}
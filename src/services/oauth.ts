@@ -0,0 +1,169 @@
+import { randomBytes } from "node:crypto";
+import { createServer } from "node:http";
+import { promises as fs } from "node:fs";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import { OAuth2Client, CodeChallengeMethod, type Credentials } from "google-auth-library";
+import { OAUTH_CONSENT_TIMEOUT_MS } from "../constants.js";
+
+export interface OAuthClientConfig {
+  clientId: string;
+  clientSecret: string;
+  refreshToken?: string;
+  tokenCachePath: string;
+}
+
+/**
+ * Read OAuth client settings from the environment.
+ * Returns null when no client id/secret is configured.
+ */
+export function getOAuthClientConfig(): OAuthClientConfig | null {
+  const clientId = process.env.GOOGLE_OAUTH_CLIENT_ID;
+  const clientSecret = process.env.GOOGLE_OAUTH_CLIENT_SECRET;
+  if (!clientId || !clientSecret) {
+    return null;
+  }
+
+  return {
+    clientId,
+    clientSecret,
+    refreshToken: process.env.GOOGLE_OAUTH_REFRESH_TOKEN,
+    tokenCachePath: process.env.GOOGLE_OAUTH_TOKEN_CACHE ||
+      join(homedir(), ".config", "google-chat-mcp", "token.json")
+  };
+}
+
+/**
+ * Load cached OAuth credentials, or null if there is no usable cache.
+ */
+export async function loadTokenCache(path: string): Promise<Credentials | null> {
+  try {
+    return JSON.parse(await fs.readFile(path, "utf8")) as Credentials;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Persist OAuth credentials with owner-only permissions.
+ */
+export async function saveTokenCache(path: string, credentials: Credentials): Promise<void> {
+  await fs.mkdir(dirname(path), { recursive: true, mode: 0o700 });
+  await fs.writeFile(path, JSON.stringify(credentials, null, 2), { mode: 0o600 });
+}
+
+/**
+ * Create an OAuth2 client that refreshes its access token automatically
+ * and writes every refreshed token back to the cache.
+ */
+export async function createUserOAuthClient(config: OAuthClientConfig): Promise<OAuth2Client> {
+  const client = new OAuth2Client({
+    clientId: config.clientId,
+    clientSecret: config.clientSecret
+  });
+
+  const cached = await loadTokenCache(config.tokenCachePath);
+  const credentials: Credentials = { ...cached };
+  // An explicitly configured refresh token wins over a stale cached one
+  if (config.refreshToken) {
+    credentials.refresh_token = config.refreshToken;
+  }
+  if (!credentials.refresh_token) {
+    throw new Error(
+      "No OAuth refresh token available. Set GOOGLE_OAUTH_REFRESH_TOKEN or run the 'auth' command " +
+      `to complete consent and write ${config.tokenCachePath}`
+    );
+  }
+  client.setCredentials(credentials);
+
+  client.on("tokens", (tokens) => {
+    const merged: Credentials = { ...client.credentials, ...tokens };
+    // Google only returns a refresh token on first consent; keep the one we have
+    merged.refresh_token = tokens.refresh_token || credentials.refresh_token;
+    saveTokenCache(config.tokenCachePath, merged).catch((error) => {
+      console.error(`Failed to write OAuth token cache: ${error instanceof Error ? error.message : String(error)}`);
+    });
+  });
+
+  return client;
+}
+
+/**
+ * Run the one-time consent flow: listen on a loopback port, send the user to
+ * Google's consent screen, exchange the returned code and cache the tokens.
+ * Gives up when the browser has not come back within OAUTH_CONSENT_TIMEOUT_MS.
+ */
+export async function runConsentFlow(config: OAuthClientConfig, scopes: string[]): Promise<Credentials> {
+  const server = createServer();
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const address = server.address();
+  if (!address || typeof address === "string") {
+    server.close();
+    throw new Error("Failed to start loopback server for OAuth consent");
+  }
+  const redirectUri = `http://127.0.0.1:${address.port}/oauth2callback`;
+
+  const client = new OAuth2Client({
+    clientId: config.clientId,
+    clientSecret: config.clientSecret,
+    redirectUri
+  });
+  const { codeVerifier, codeChallenge } = await client.generateCodeVerifierAsync();
+  const state = randomBytes(16).toString("hex");
+
+  const authUrl = client.generateAuthUrl({
+    access_type: "offline",
+    prompt: "consent",
+    scope: scopes,
+    state,
+    code_challenge: codeChallenge,
+    code_challenge_method: CodeChallengeMethod.S256
+  });
+
+  console.error("Open this URL in your browser to authorize Google Chat access:");
+  console.error("");
+  console.error(authUrl);
+  console.error("");
+  console.error(`Waiting for the redirect to ${redirectUri} ...`);
+
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    const code = await new Promise<string>((resolve, reject) => {
+      timer = setTimeout(() => {
+        reject(new Error(
+          `No authorization received within ${OAUTH_CONSENT_TIMEOUT_MS / 60000} minutes. Run the command again to retry.`
+        ));
+      }, OAUTH_CONSENT_TIMEOUT_MS);
+
+      server.on("request", (req, res) => {
+        const url = new URL(req.url || "/", redirectUri);
+        if (url.pathname !== "/oauth2callback") {
+          res.writeHead(404).end();
+          return;
+        }
+
+        const error = url.searchParams.get("error");
+        const returnedCode = url.searchParams.get("code");
+        if (error || !returnedCode || url.searchParams.get("state") !== state) {
+          res.writeHead(400, { "Content-Type": "text/plain" }).end("Authorization failed. You can close this window.");
+          reject(new Error(`Authorization failed: ${error || "missing code or state mismatch"}`));
+          return;
+        }
+
+        res.writeHead(200, { "Content-Type": "text/plain" }).end("Authorization complete. You can close this window.");
+        resolve(returnedCode);
+      });
+    });
+
+    const { tokens } = await client.getToken({ code, codeVerifier, redirect_uri: redirectUri });
+    if (!tokens.refresh_token) {
+      throw new Error("Google did not return a refresh token. Revoke the app's access and run the command again.");
+    }
+
+    await saveTokenCache(config.tokenCachePath, tokens);
+    return tokens;
+  } finally {
+    clearTimeout(timer);
+    server.close();
+  }
+}
@@ -0,0 +1,64 @@
+import { createProgressReporter, type ToolExtra } from "./progress.js";
+import { DEFAULT_MAX_PAGES, MAX_ITEMS_LIMIT, MAX_PAGE_SIZE } from "../constants.js";
+
+/**
+ * One page of a list call, reduced to its items and the token for the next page.
+ */
+export interface Page<T> {
+  items: T[];
+  nextPageToken?: string;
+}
+
+export type PageFetcher<T> = (pageToken: string | undefined, pageSize: number) => Promise<Page<T>>;
+
+export interface PaginationOptions {
+  pageSize: number;
+  pageToken?: string;
+  // Walk every page, bounded by maxItems and maxPages
+  all?: boolean;
+  maxItems?: number;
+  maxPages?: number;
+  // Stop walking once aborted, for callers without a ToolExtra of their own
+  signal?: AbortSignal;
+}
+
+export interface PaginatedResult<T> {
+  items: T[];
+  // Set when more items remain; pass it back as pageToken to continue
+  nextPageToken?: string;
+  pages: number;
+}
+
+/**
+ * Fetch one page, or walk pages when all, maxItems or maxPages is given.
+ * Walks use the largest page size, never fetch more than maxItems, report
+ * progress after each page and stop early when the request is cancelled.
+ */
+export async function paginate<T>(
+  fetchPage: PageFetcher<T>,
+  options: PaginationOptions,
+  extra?: ToolExtra
+): Promise<PaginatedResult<T>> {
+  const walk = options.all || options.maxItems !== undefined || options.maxPages !== undefined;
+  const maxPages = walk ? options.maxPages ?? DEFAULT_MAX_PAGES : 1;
+  const maxItems = options.maxItems ?? (walk ? MAX_ITEMS_LIMIT : options.pageSize);
+  const onProgress = createProgressReporter(walk ? extra : undefined);
+  const signal = options.signal ?? extra?.signal;
+
+  const items: T[] = [];
+  let pageToken = options.pageToken;
+  let pages = 0;
+
+  do {
+    // Ask for no more than is still wanted, so the next page token stays exact
+    const pageSize = Math.min(walk ? MAX_PAGE_SIZE : options.pageSize, maxItems - items.length);
+    const page = await fetchPage(pageToken, pageSize);
+    items.push(...page.items);
+    pageToken = page.nextPageToken;
+    pages++;
+
+    await onProgress(items.length, options.maxItems, `Fetched ${items.length} items from ${pages} page(s)`);
+  } while (pageToken && pages < maxPages && items.length < maxItems && !signal?.aborted);
+
+  return { items, nextPageToken: pageToken, pages };
+}
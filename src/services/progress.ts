@@ -0,0 +1,34 @@
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * Extra context passed by the MCP SDK to every tool handler.
+ */
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/**
+ * Callback used by long-running operations to report progress.
+ */
+export type ProgressCallback = (progress: number, total?: number, message?: string) => Promise<void>;
+
+/**
+ * Create a progress reporter that emits MCP progress notifications.
+ * Returns a no-op when the client did not ask for progress updates.
+ */
+export function createProgressReporter(extra?: ToolExtra): ProgressCallback {
+  const progressToken = extra?._meta?.progressToken;
+  if (!extra || progressToken === undefined) {
+    return async () => {};
+  }
+
+  return async (progress, total, message) => {
+    try {
+      await extra.sendNotification({
+        method: "notifications/progress",
+        params: { progressToken, progress, total, message }
+      });
+    } catch {
+      // Progress is best-effort; never fail the operation because of it
+    }
+  };
+}
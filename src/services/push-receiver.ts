@@ -0,0 +1,180 @@
+import type { RequestHandler } from "express";
+import { OAuth2Client } from "google-auth-library";
+import { publishSpaceEvent } from "./event-hub.js";
+import { SpaceEventType } from "../constants.js";
+import type { SpaceEvent } from "../types.js";
+
+export interface PushReceiverConfig {
+  path: string;
+  // Expected `aud` of the push JWT (the push endpoint URL configured on the Pub/Sub subscription)
+  audience?: string;
+  // Service account the Pub/Sub subscription signs its JWTs as; required unless skipVerify
+  serviceAccount?: string;
+  skipVerify: boolean;
+}
+
+interface CloudEvent {
+  id?: string;
+  type?: string;
+  subject?: string;
+  time?: string;
+  data?: unknown;
+}
+
+interface PubSubPushBody {
+  message?: {
+    data?: string;
+    attributes?: Record<string, string>;
+    messageId?: string;
+    publishTime?: string;
+  };
+  subscription?: string;
+}
+
+/**
+ * Read push receiver settings from the environment.
+ * Returns null when the receiver is not enabled; throws when it is enabled
+ * without the service account its pushes must come from.
+ */
+export function loadPushReceiverConfig(): PushReceiverConfig | null {
+  const audience = process.env.EVENTS_PUSH_AUDIENCE;
+  const serviceAccount = process.env.EVENTS_PUSH_SERVICE_ACCOUNT;
+  const skipVerify = ["1", "true", "yes"].includes((process.env.EVENTS_PUSH_SKIP_VERIFY || "").toLowerCase());
+  if (!audience && !skipVerify) {
+    return null;
+  }
+
+  // Any Google-signed token for the audience would pass otherwise, whoever requested it
+  if (!skipVerify && !serviceAccount) {
+    throw new Error("EVENTS_PUSH_SERVICE_ACCOUNT is required with EVENTS_PUSH_AUDIENCE: " +
+      "set it to the service account the Pub/Sub push subscription authenticates as.");
+  }
+
+  return {
+    path: process.env.EVENTS_PUSH_PATH || "/events",
+    audience,
+    serviceAccount,
+    skipVerify
+  };
+}
+
+/**
+ * Express handler for Pub/Sub push deliveries of Google Workspace Events.
+ * Verifies the push JWT, decodes the CloudEvent and publishes it to the event hub.
+ * Always acknowledges events it does not handle so Pub/Sub stops redelivering them.
+ * verifier checks the JWT's signature and audience; tests pass their own.
+ */
+export function createPushHandler(
+  config: PushReceiverConfig,
+  verifier: Pick<OAuth2Client, "verifyIdToken"> = new OAuth2Client()
+): RequestHandler {
+  return async (req, res) => {
+    if (!config.skipVerify) {
+      const token = req.headers.authorization?.replace(/^Bearer\s+/i, "").trim();
+      if (!token) {
+        res.status(401).json({ error: "Missing push authorization token" });
+        return;
+      }
+
+      try {
+        const ticket = await verifier.verifyIdToken({ idToken: token, audience: config.audience });
+        const payload = ticket.getPayload();
+        if (!payload?.email_verified || payload.email !== config.serviceAccount) {
+          res.status(403).json({ error: "Push token was not issued to the expected service account" });
+          return;
+        }
+      } catch (error) {
+        res.status(401).json({ error: `Invalid push token: ${error instanceof Error ? error.message : String(error)}` });
+        return;
+      }
+    }
+
+    let decoded: { spaceName: string; event: SpaceEvent } | null;
+    try {
+      decoded = decodePushBody(req.body);
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+
+    if (decoded) {
+      publishSpaceEvent(decoded.spaceName, decoded.event);
+    }
+    res.status(204).end();
+  };
+}
+
+/**
+ * Decode a push body into a space event. Accepts a Pub/Sub push envelope
+ * (CloudEvent in binary mode, attributes prefixed with `ce-`) or a
+ * structured-mode CloudEvent posted directly.
+ * Returns null for events that are not Chat space events, such as
+ * subscription lifecycle notifications.
+ */
+export function decodePushBody(body: unknown): { spaceName: string; event: SpaceEvent } | null {
+  const cloudEvent = toCloudEvent(body);
+  if (!cloudEvent.type || !Object.values(SpaceEventType).includes(cloudEvent.type as SpaceEventType)) {
+    return null;
+  }
+  if (!cloudEvent.id) {
+    throw new Error("CloudEvent is missing its id");
+  }
+
+  // Subjects look like //chat.googleapis.com/spaces/AAAA; fall back to the payload's resource names
+  const spaceName = /spaces\/[^/"]+/.exec(cloudEvent.subject || "")?.[0] ||
+    /"name":"(spaces\/[^/"]+)/.exec(JSON.stringify(cloudEvent.data ?? {}))?.[1];
+  if (!spaceName) {
+    throw new Error("Could not determine the space for this event");
+  }
+
+  // google.workspace.chat.message.v1.batchCreated -> messageBatchCreatedEventData
+  const [, , , resource, , action] = cloudEvent.type.split(".");
+  const dataField = `${resource}${action.charAt(0).toUpperCase()}${action.slice(1)}EventData`;
+
+  const event: SpaceEvent = {
+    name: `${spaceName}/spaceEvents/${cloudEvent.id}`,
+    eventTime: cloudEvent.time,
+    eventType: cloudEvent.type,
+    [dataField]: cloudEvent.data
+  };
+  return { spaceName, event };
+}
+
+function toCloudEvent(body: unknown): CloudEvent {
+  if (!body || typeof body !== "object") {
+    throw new Error("Push body must be a JSON object");
+  }
+
+  const push = body as PubSubPushBody;
+  if (push.message) {
+    const attributes = push.message.attributes || {};
+    return {
+      id: attributes["ce-id"],
+      type: attributes["ce-type"],
+      subject: attributes["ce-subject"],
+      time: attributes["ce-time"] || push.message.publishTime,
+      data: parseData(push.message.data)
+    };
+  }
+
+  const structured = body as CloudEvent & { specversion?: string; data_base64?: string };
+  if (structured.specversion) {
+    return {
+      ...structured,
+      data: structured.data ?? parseData(structured.data_base64)
+    };
+  }
+
+  throw new Error("Push body is neither a Pub/Sub push message nor a CloudEvent");
+}
+
+function parseData(base64: string | undefined): unknown {
+  if (!base64) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(Buffer.from(base64, "base64").toString("utf8"));
+  } catch {
+    throw new Error("CloudEvent data is not base64-encoded JSON");
+  }
+}
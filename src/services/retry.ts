@@ -0,0 +1,146 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { AxiosError } from "axios";
+import {
+  DEFAULT_RETRY_MAX_ATTEMPTS,
+  DEFAULT_RETRY_DEADLINE_MS,
+  RETRY_BASE_DELAY_MS,
+  RETRY_MAX_DELAY_MS
+} from "../constants.js";
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  deadlineMs: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Retry POST/PATCH as well; only safe when the caller knows the request is idempotent
+  retryNonIdempotent: boolean;
+}
+
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+const RETRYABLE_CODES = new Set(["ECONNRESET", "ETIMEDOUT", "ECONNABORTED", "EAI_AGAIN", "EPIPE"]);
+
+/**
+ * Build the default retry policy from the environment.
+ */
+export function getRetryPolicy(overrides: Partial<RetryPolicy> = {}): RetryPolicy {
+  return {
+    maxAttempts: readPositiveInt("GOOGLE_CHAT_RETRY_MAX_ATTEMPTS", DEFAULT_RETRY_MAX_ATTEMPTS),
+    deadlineMs: readPositiveInt("GOOGLE_CHAT_RETRY_DEADLINE_MS", DEFAULT_RETRY_DEADLINE_MS),
+    baseDelayMs: RETRY_BASE_DELAY_MS,
+    maxDelayMs: RETRY_MAX_DELAY_MS,
+    retryNonIdempotent: false,
+    ...overrides
+  };
+}
+
+function readPositiveInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || "", 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// Retry bookkeeping for the tool call currently in progress
+interface RetryStats {
+  retries: number;
+  attempts: number;
+}
+
+const retryContext = new AsyncLocalStorage<RetryStats>();
+
+/**
+ * Run fn while counting the retries made by every API request inside it.
+ */
+export async function trackRetries<T>(fn: () => Promise<T>): Promise<{ result: T; retries: number }> {
+  const stats: RetryStats = { retries: 0, attempts: 0 };
+  const result = await retryContext.run(stats, fn);
+  return { result, retries: stats.retries };
+}
+
+/**
+ * Execute a request, retrying transient failures with jittered exponential
+ * backoff. Retry-After is honored when the server sends it.
+ */
+export async function withRetry<T>(
+  method: string,
+  policy: RetryPolicy,
+  fn: () => Promise<T>
+): Promise<T> {
+  const started = Date.now();
+  const canRetry = policy.retryNonIdempotent || IDEMPOTENT_METHODS.has(method.toUpperCase());
+  const stats = retryContext.getStore();
+
+  for (let attempt = 1; ; attempt++) {
+    if (stats) stats.attempts++;
+    try {
+      return await fn();
+    } catch (error) {
+      if (!canRetry || attempt >= policy.maxAttempts || !isRetryable(error)) {
+        annotateAttempts(error, attempt);
+        throw error;
+      }
+
+      const delay = retryAfterMs(error) ?? backoffMs(attempt, policy);
+      if (Date.now() - started + delay > policy.deadlineMs) {
+        annotateAttempts(error, attempt);
+        throw error;
+      }
+
+      if (stats) stats.retries++;
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
+
+function isRetryable(error: unknown): boolean {
+  if (!(error instanceof AxiosError)) {
+    return false;
+  }
+  if (error.response) {
+    return RETRYABLE_STATUSES.has(error.response.status);
+  }
+  return !!error.code && RETRYABLE_CODES.has(error.code);
+}
+
+/**
+ * Full-jitter exponential backoff.
+ */
+function backoffMs(attempt: number, policy: RetryPolicy): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Parse Retry-After as either delay-seconds or an HTTP date.
+ */
+function retryAfterMs(error: unknown): number | undefined {
+  if (!(error instanceof AxiosError)) {
+    return undefined;
+  }
+  const header = error.response?.headers?.["retry-after"];
+  if (header === undefined || header === null) {
+    return undefined;
+  }
+
+  const value = String(header).trim();
+  if (/^\d+$/.test(value)) {
+    return parseInt(value, 10) * 1000;
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Record how many attempts were made so error messages can mention it.
+ */
+function annotateAttempts(error: unknown, attempts: number): void {
+  if (error instanceof AxiosError) {
+    (error as AxiosError & { attempts?: number }).attempts = attempts;
+  }
+}
+
+/**
+ * Number of attempts made before the error was given up on.
+ */
+export function getAttempts(error: unknown): number {
+  return (error as { attempts?: number } | null)?.attempts ?? 1;
+}
@@ -0,0 +1,320 @@
+import vm from "node:vm";
+import { AxiosError } from "axios";
+import { makeApiRequest, handleApiError } from "./api-client.js";
+import { paginate } from "./pagination.js";
+import type { ProgressCallback } from "./progress.js";
+import { MAX_PAGE_SIZE, MAX_SEARCH_SPACES, SEARCH_CONCURRENCY, SEARCH_REGEX_TIMEOUT_MS } from "../constants.js";
+import type { Space, Message, Member, ListSpacesResponse, ListMessagesResponse } from "../types.js";
+
+export interface MessageSearchQuery {
+  query: string;
+  regex: boolean;
+  sender?: string;
+  // RFC 3339
+  startTime?: string;
+  endTime?: string;
+  spaces?: string[];
+  hasAttachment?: boolean;
+  hasReaction?: boolean;
+  maxResults: number;
+  maxMessagesPerSpace: number;
+}
+
+export interface SearchHit {
+  [key: string]: unknown;
+  message: Message;
+  spaceName: string;
+  spaceDisplayName?: string;
+  score: number;
+  // The matching part of the text with a little surrounding text, matches in **bold**
+  snippet: string;
+  permalink: string;
+  // The messages posted just before and after in the same space
+  before?: Message;
+  after?: Message;
+}
+
+export interface SearchResult {
+  [key: string]: unknown;
+  hits: SearchHit[];
+  totalHits: number;
+  spacesSearched: number;
+  messagesScanned: number;
+  // Spaces with more messages in the window than maxMessagesPerSpace
+  partialSpaces: string[];
+  errors: { spaceName: string; error: string }[];
+}
+
+// Characters of text kept on each side of the first match in a snippet
+const SNIPPET_CONTEXT = 80;
+
+// Finds [index, length] of every match in each text; run in a context so it can be timed out
+const FIND_MATCHES = new vm.Script(
+  "texts.map(text => Array.from(text.matchAll(pattern), match => [match.index, match[0].length]))"
+);
+
+/**
+ * A regular expression that took too long to match, which it would in every space.
+ */
+class RegexTimeoutError extends Error {}
+
+/**
+ * Search message text across spaces. Each space is scanned newest first with a
+ * server-side createTime filter, a few spaces at a time; the rest of the
+ * criteria are applied locally. Hits are ranked by score, then recency.
+ * Once signal is aborted, or the regular expression times out, no more pages or
+ * spaces are scanned.
+ */
+export async function searchMessages(
+  query: MessageSearchQuery,
+  onProgress: ProgressCallback,
+  signal?: AbortSignal
+): Promise<SearchResult> {
+  const matcher = createMatcher(query.query, query.regex);
+  const spaces = query.spaces
+    ? query.spaces.map(name => ({ name } as Space))
+    : await listSearchableSpaces();
+
+  const result: SearchResult = {
+    hits: [],
+    totalHits: 0,
+    spacesSearched: 0,
+    messagesScanned: 0,
+    partialSpaces: [],
+    errors: []
+  };
+
+  const filter = [
+    query.startTime ? `createTime > "${query.startTime}"` : undefined,
+    query.endTime ? `createTime < "${query.endTime}"` : undefined
+  ].filter(Boolean).join(" AND ");
+
+  let regexTimedOut = false;
+  const scanSpace = async (space: Space) => {
+    try {
+      const sender = await resolveSender(space.name, query.sender);
+      if (sender === null) {
+        // The sender is not a member, so there is nothing of theirs to find
+        return;
+      }
+
+      const scan = await paginate<Message>(async (pageToken, pageSize) => {
+        const response = await makeApiRequest<ListMessagesResponse>(
+          `${space.name}/messages`,
+          "GET",
+          undefined,
+          { pageSize, pageToken, filter: filter || undefined, orderBy: "createTime desc" }
+        );
+        return { items: response.messages || [], nextPageToken: response.nextPageToken };
+      }, { pageSize: MAX_PAGE_SIZE, maxItems: query.maxMessagesPerSpace, signal });
+
+      result.messagesScanned += scan.items.length;
+      if (scan.nextPageToken) {
+        result.partialSpaces.push(space.name);
+      }
+
+      const matches = matcher(scan.items.map(message => matchesFilters(message, query, sender)
+        ? message.text || message.fallbackText || message.argumentText || ""
+        : ""));
+
+      // Newest first: the previous item is the message after, the next one the message before
+      let pending: SearchHit | undefined;
+      scan.items.forEach((message, index) => {
+        if (pending) {
+          pending.before = message;
+          pending = undefined;
+        }
+        const match = matches[index];
+        if (!match) {
+          return;
+        }
+        pending = {
+          message,
+          spaceName: space.name,
+          spaceDisplayName: space.displayName,
+          score: match.score,
+          snippet: match.snippet,
+          permalink: permalink(message, space),
+          after: scan.items[index - 1]
+        };
+        result.hits.push(pending);
+      });
+    } catch (error) {
+      if (error instanceof RegexTimeoutError) {
+        // Reported once, for the space where it happened; spaces scanned at the same time fail with it too
+        if (!regexTimedOut) {
+          result.errors.push({ spaceName: space.name, error: `Error: ${error.message}` });
+        }
+        regexTimedOut = true;
+      } else {
+        result.errors.push({ spaceName: space.name, error: handleApiError(error) });
+      }
+    } finally {
+      result.spacesSearched++;
+      await onProgress(result.spacesSearched, spaces.length, `Searched ${space.displayName || space.name}`);
+    }
+  };
+
+  // A fixed number of workers take spaces from a shared queue
+  const queue = [...spaces];
+  await Promise.all(Array.from({ length: Math.min(SEARCH_CONCURRENCY, queue.length) }, async () => {
+    for (let space = queue.shift(); space && !signal?.aborted && !regexTimedOut; space = queue.shift()) {
+      await scanSpace(space);
+    }
+  }));
+
+  result.totalHits = result.hits.length;
+  result.hits = result.hits
+    .sort((a, b) =>
+      b.score - a.score ||
+      (b.message.createTime || "").localeCompare(a.message.createTime || "")
+    )
+    .slice(0, query.maxResults);
+  return result;
+}
+
+/**
+ * The caller's spaces, most recently active first, up to MAX_SEARCH_SPACES.
+ */
+async function listSearchableSpaces(): Promise<Space[]> {
+  const result = await paginate<Space>(async (pageToken, pageSize) => {
+    const response = await makeApiRequest<ListSpacesResponse>("spaces", "GET", undefined, { pageSize, pageToken });
+    return { items: response.spaces || [], nextPageToken: response.nextPageToken };
+  }, { pageSize: MAX_PAGE_SIZE, all: true });
+
+  return result.items
+    .sort((a, b) => (b.lastActiveTime || "").localeCompare(a.lastActiveTime || ""))
+    .slice(0, MAX_SEARCH_SPACES);
+}
+
+/**
+ * Resolve an email sender to their user resource name through the space's members.
+ * Returns null when they are not a member of the space.
+ */
+async function resolveSender(spaceName: string, sender: string | undefined): Promise<string | undefined | null> {
+  if (!sender || !sender.includes("@")) {
+    return sender;
+  }
+  try {
+    const member = await makeApiRequest<Member>(`${spaceName}/members/${sender}`, "GET");
+    return member.member?.name || null;
+  } catch (error) {
+    if (error instanceof AxiosError && error.response?.status === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+function matchesFilters(message: Message, query: MessageSearchQuery, sender: string | undefined): boolean {
+  if (sender) {
+    const name = message.sender?.name;
+    const displayName = message.sender?.displayName?.toLowerCase();
+    if (name !== sender && !(displayName && displayName.includes(sender.toLowerCase()))) {
+      return false;
+    }
+  }
+  if (query.hasAttachment !== undefined && !!message.attachment?.length !== query.hasAttachment) {
+    return false;
+  }
+  if (query.hasReaction !== undefined && !!message.emojiReactionSummaries?.length !== query.hasReaction) {
+    return false;
+  }
+  return true;
+}
+
+type Matcher = (texts: string[]) => ({ score: number; snippet: string } | null)[];
+
+// Where each match starts and how long it is
+type MatchSpan = [number, number];
+
+/**
+ * Build a matcher for keywords (all must appear) or a regular expression, scoring
+ * a batch of texts at once. Keyword scores count occurrences, with a bonus when the
+ * whole query appears as a phrase. A regular expression that takes longer than
+ * SEARCH_REGEX_TIMEOUT_MS on a batch throws RegexTimeoutError for it and every later one.
+ */
+function createMatcher(query: string, regex: boolean): Matcher {
+  let patterns: RegExp[];
+  if (regex) {
+    patterns = [new RegExp(query, "gi")];
+  } else {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    patterns = terms.map(term => new RegExp(term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "gi"));
+  }
+  const phrase = query.trim().toLowerCase();
+  let timedOut: Error | undefined;
+
+  const findMatches = (pattern: RegExp, texts: string[]): MatchSpan[][] => {
+    if (timedOut) {
+      throw timedOut;
+    }
+    try {
+      return FIND_MATCHES.runInNewContext({ pattern, texts }, { timeout: SEARCH_REGEX_TIMEOUT_MS });
+    } catch (error) {
+      if ((error as { code?: string }).code !== "ERR_SCRIPT_EXECUTION_TIMEOUT") {
+        throw error;
+      }
+      timedOut = new RegexTimeoutError(`The regular expression took longer than ${SEARCH_REGEX_TIMEOUT_MS} ms to match. ` +
+        "Simplify it, for example by removing nested repetition like (a+)+.");
+      throw timedOut;
+    }
+  };
+
+  return (texts) => {
+    const spans = patterns.map(pattern => findMatches(pattern, texts));
+
+    return texts.map((text, index) => {
+      let score = 0;
+      const found: MatchSpan[] = [];
+      for (const patternSpans of spans) {
+        const matches = patternSpans[index].filter(([, length]) => length > 0);
+        if (matches.length === 0) {
+          return null;
+        }
+        score += matches.length;
+        found.push(...matches);
+      }
+      if (!regex && patterns.length > 1 && text.toLowerCase().includes(phrase)) {
+        score += patterns.length;
+      }
+      return { score, snippet: buildSnippet(text, found) };
+    });
+  };
+}
+
+/**
+ * The text around the first match, with every match inside it in bold.
+ */
+function buildSnippet(text: string, matches: MatchSpan[]): string {
+  const sorted = [...matches].sort((a, b) => a[0] - b[0]);
+  const [index, length] = sorted[0];
+  const start = Math.max(0, index - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, index + length + SNIPPET_CONTEXT);
+
+  let snippet = "";
+  let position = start;
+  for (const [matchStart, matchLength] of sorted) {
+    const from = Math.max(matchStart, position);
+    const to = Math.min(matchStart + matchLength, end);
+    if (from < to) {
+      snippet += `${text.slice(position, from)}**${text.slice(from, to)}**`;
+      position = to;
+    }
+  }
+  snippet += text.slice(position, end);
+  return `${start > 0 ? "..." : ""}${snippet.replace(/\s+/g, " ")}${end < text.length ? "..." : ""}`;
+}
+
+/**
+ * Link to the message in the Google Chat web app.
+ */
+function permalink(message: Message, space: Space): string {
+  const spaceId = space.name.replace(/^spaces\//, "");
+  const kind = space.spaceType === "DIRECT_MESSAGE" ? "dm" : "room";
+  const threadId = message.thread?.name?.split("/threads/")[1];
+  const messageId = message.name.split("/messages/")[1];
+  return threadId
+    ? `https://chat.google.com/${kind}/${spaceId}/${threadId}/${messageId}`
+    : `https://chat.google.com/${kind}/${spaceId}`;
+}
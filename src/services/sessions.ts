@@ -0,0 +1,90 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { releaseSessionApiClient, type GoogleCredentials } from "./tenancy.js";
+
+export interface McpSession {
+  id: string;
+  server: McpServer;
+  transport: StreamableHTTPServerTransport;
+  // Authenticated caller (API key name or OAuth client) that opened the session
+  owner?: string;
+  // Google identity the session was opened with, if it carries its own
+  credentials: GoogleCredentials | null;
+  // Stable ID of that Google user (see resolveCallerIdentity); unchanged when a token is refreshed
+  identity?: string;
+  lastActivity: number;
+}
+
+const sessions = new Map<string, McpSession>();
+
+/**
+ * Look up a live session by id.
+ */
+export function getSession(id: string): McpSession | undefined {
+  return sessions.get(id);
+}
+
+/**
+ * All live sessions.
+ */
+export function listSessions(): McpSession[] {
+  return [...sessions.values()];
+}
+
+/**
+ * Track a newly initialized session.
+ */
+export function addSession(session: McpSession): void {
+  sessions.set(session.id, session);
+}
+
+/**
+ * Record activity so the session is not expired as idle.
+ */
+export function touchSession(session: McpSession): void {
+  session.lastActivity = Date.now();
+}
+
+/**
+ * Forget a session and close its server. Safe to call more than once.
+ */
+export async function closeSession(id: string): Promise<void> {
+  const session = sessions.get(id);
+  if (!session) {
+    return;
+  }
+  sessions.delete(id);
+  releaseSessionApiClient(id);
+
+  try {
+    await session.server.close();
+  } catch (error) {
+    console.error(`Error closing session ${id}:`, error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Close sessions that have been idle longer than idleMs, checking every intervalMs.
+ * Returns a function that stops the sweeper.
+ */
+export function startIdleSweeper(idleMs: number, intervalMs = 60000): () => void {
+  const timer = setInterval(() => {
+    const cutoff = Date.now() - idleMs;
+    for (const session of sessions.values()) {
+      if (session.lastActivity < cutoff) {
+        console.error(`Closing idle session ${session.id}`);
+        void closeSession(session.id);
+      }
+    }
+  }, intervalMs);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
+
+/**
+ * Close every live session, e.g. on shutdown.
+ */
+export async function closeAllSessions(): Promise<void> {
+  await Promise.all([...sessions.keys()].map(closeSession));
+}
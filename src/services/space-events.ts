@@ -0,0 +1,46 @@
+import { makeApiRequest } from "./api-client.js";
+import type { SpaceEventType } from "../constants.js";
+import type { ListSpaceEventsResponse } from "../types.js";
+
+export interface SpaceEventsQuery {
+  eventTypes: SpaceEventType[];
+  startTime: string;
+  endTime?: string;
+  pageSize?: number;
+  pageToken?: string;
+}
+
+/**
+ * Build the spaceEvents filter, e.g.
+ * start_time="..." AND (event_types:"a" OR event_types:"b")
+ */
+export function buildSpaceEventsFilter(query: SpaceEventsQuery): string {
+  const clauses = [`start_time="${query.startTime}"`];
+  if (query.endTime) {
+    clauses.push(`end_time="${query.endTime}"`);
+  }
+  const types = query.eventTypes.map(type => `event_types:"${type}"`).join(" OR ");
+  clauses.push(`(${types})`);
+  return clauses.join(" AND ");
+}
+
+/**
+ * Fetch one page of events from a space.
+ */
+export async function listSpaceEvents(
+  spaceName: string,
+  query: SpaceEventsQuery
+): Promise<ListSpaceEventsResponse> {
+  const queryParams: Record<string, unknown> = {
+    filter: buildSpaceEventsFilter(query)
+  };
+  if (query.pageSize) queryParams.pageSize = query.pageSize;
+  if (query.pageToken) queryParams.pageToken = query.pageToken;
+
+  return makeApiRequest<ListSpaceEventsResponse>(
+    `${spaceName}/spaceEvents`,
+    "GET",
+    undefined,
+    queryParams
+  );
+}
@@ -0,0 +1,313 @@
+import { AsyncResource } from "node:async_hooks";
+import { randomUUID } from "node:crypto";
+import { AxiosError } from "axios";
+import { listSpaceEvents, type SpaceEventsQuery } from "./space-events.js";
+import {
+  DEFAULT_SUBSCRIPTION_INTERVAL_MS,
+  MAX_SUBSCRIPTION_BACKOFF_MS,
+  MAX_SUBSCRIPTIONS_PER_SESSION,
+  SPACE_EVENT_RETENTION_MS,
+  SpaceEventType
+} from "../constants.js";
+import type { SpaceEvent, ListSpaceEventsResponse } from "../types.js";
+
+/**
+ * Where subscriptions read events from. The default reads the Chat API;
+ * tests can supply a fake source.
+ */
+export type SpaceEventSource = (spaceName: string, query: SpaceEventsQuery) => Promise<ListSpaceEventsResponse>;
+
+export interface SubscriptionOptions {
+  spaceName: string;
+  eventTypes?: SpaceEventType[];
+  intervalMs?: number;
+  // Deliver events from this time on (default: now)
+  startTime?: string;
+  // When the credentials the subscription polls with expire
+  expiresAt?: string;
+}
+
+export interface Subscription {
+  [key: string]: unknown;
+  id: string;
+  spaceName: string;
+  eventTypes: SpaceEventType[];
+  intervalMs: number;
+  cursor: string;
+  createdAt: string;
+  expiresAt?: string;
+  lastPollAt?: string;
+  lastError?: string;
+  failures: number;
+  delivered: number;
+}
+
+export type SubscriptionListener = (subscription: Subscription, events: SpaceEvent[]) => void | Promise<void>;
+
+export interface SubscriptionManagerOptions {
+  source?: SpaceEventSource;
+  // Called when a subscription stops on its own because its credentials expired or were rejected
+  onEnd?: (subscription: Subscription, reason: string) => void | Promise<void>;
+}
+
+export interface SubscriptionManager {
+  subscribe(options: SubscriptionOptions): Subscription;
+  unsubscribe(id: string): boolean;
+  list(): Subscription[];
+  // Poll a subscription immediately instead of waiting for its timer; rejects if the poll fails
+  poll(id: string): Promise<void>;
+  // Hand pushed events to the subscriptions watching that space
+  deliver(spaceName: string, events: SpaceEvent[]): Promise<void>;
+  stopAll(): void;
+}
+
+// Page through at most this many pages per poll; the rest waits for the next one
+const MAX_PAGES_PER_POLL = 10;
+// Events remembered per subscription to drop repeats at the cursor boundary
+// and pushed events that a later poll returns again
+const SEEN_EVENTS_LIMIT = 500;
+
+interface SubscriptionState {
+  subscription: Subscription;
+  seen: Set<string>;
+  // Set once a poll succeeds, proving the caller can read the space's events
+  verified: boolean;
+  timer?: NodeJS.Timeout;
+  polling?: Promise<unknown>;
+  // Async context of the subscribe call, so background polls keep the
+  // caller's credentials and impersonated user
+  context: AsyncResource;
+}
+
+/**
+ * Track space events for a set of subscriptions by polling in the background.
+ * Each subscription keeps a cursor at the newest event it delivered, skips
+ * events it has already seen and backs off exponentially while polls fail.
+ * Pushed events are only delivered to subscriptions that have polled
+ * successfully at least once. A subscription ends when its credentials
+ * expire or Google rejects them, since a background poll cannot refresh them.
+ */
+export function createSubscriptionManager(
+  listener: SubscriptionListener,
+  { source = listSpaceEvents, onEnd }: SubscriptionManagerOptions = {}
+): SubscriptionManager {
+  const states = new Map<string, SubscriptionState>();
+
+  function schedule(state: SubscriptionState): void {
+    const { subscription } = state;
+    const delay = subscription.failures === 0
+      ? subscription.intervalMs
+      : Math.min(subscription.intervalMs * 2 ** subscription.failures, MAX_SUBSCRIPTION_BACKOFF_MS);
+    const untilExpiry = subscription.expiresAt ? Date.parse(subscription.expiresAt) - Date.now() : Infinity;
+    const expiring = untilExpiry <= delay;
+
+    state.timer = setTimeout(() => {
+      if (expiring) {
+        void end(state, `The credentials this subscription was created with expired at ${subscription.expiresAt}.`);
+        return;
+      }
+      void poll(state).then(failure => {
+        if (states.get(subscription.id) !== state) {
+          return;
+        }
+        if (failure instanceof AxiosError && failure.response?.status === 401) {
+          void end(state, "Google rejected the credentials this subscription was created with.");
+        } else {
+          schedule(state);
+        }
+      });
+    }, Math.max(Math.min(delay, untilExpiry), 0));
+    // Subscriptions alone should not keep the process alive
+    state.timer.unref();
+  }
+
+  // Resolves with the error if the poll failed
+  function poll(state: SubscriptionState): Promise<unknown> {
+    state.polling ??= state.context.runInAsyncScope(() => pollOnce(state)).finally(() => {
+      state.polling = undefined;
+    });
+    return state.polling;
+  }
+
+  async function pollOnce(state: SubscriptionState): Promise<unknown> {
+    const { subscription } = state;
+    const events: SpaceEvent[] = [];
+    let failure: unknown;
+
+    try {
+      let pageToken: string | undefined;
+      let pages = 0;
+      do {
+        const response = await source(subscription.spaceName, {
+          eventTypes: subscription.eventTypes,
+          startTime: subscription.cursor,
+          pageToken
+        });
+        events.push(...(response.spaceEvents || []));
+        pageToken = response.nextPageToken;
+      } while (pageToken && ++pages < MAX_PAGES_PER_POLL);
+
+      subscription.failures = 0;
+      subscription.lastError = undefined;
+      state.verified = true;
+    } catch (error) {
+      subscription.failures++;
+      subscription.lastError = error instanceof Error ? error.message : String(error);
+      failure = error;
+    }
+    subscription.lastPollAt = new Date().toISOString();
+
+    await deliver(state, events, true);
+    return failure;
+  }
+
+  /**
+   * Stop a subscription that can no longer poll and tell the listener why.
+   */
+  async function end(state: SubscriptionState, reason: string): Promise<void> {
+    const { subscription } = state;
+    clearTimeout(state.timer);
+    states.delete(subscription.id);
+    subscription.lastError = reason;
+
+    try {
+      await onEnd?.(subscription, reason);
+    } catch (error) {
+      console.error(`Subscription ${subscription.id} end handler failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Pass events the subscription has not seen yet to the listener. Only polled
+   * events move the cursor: a pushed event can arrive before earlier events the
+   * next poll has yet to return.
+   */
+  async function deliver(state: SubscriptionState, events: SpaceEvent[], polled: boolean): Promise<void> {
+    const { subscription, seen } = state;
+    if (polled) {
+      for (const event of events) {
+        if (event.eventTime && event.eventTime > subscription.cursor) {
+          subscription.cursor = event.eventTime;
+        }
+      }
+    }
+
+    const fresh = events.filter(event => !seen.has(eventKey(event)));
+    if (fresh.length === 0 || !states.has(subscription.id)) {
+      return;
+    }
+
+    fresh.sort((a, b) => (a.eventTime || "").localeCompare(b.eventTime || ""));
+    for (const event of fresh) {
+      seen.add(eventKey(event));
+    }
+    while (seen.size > SEEN_EVENTS_LIMIT) {
+      seen.delete(seen.values().next().value!);
+    }
+    subscription.delivered += fresh.length;
+
+    try {
+      await listener(subscription, fresh);
+    } catch (error) {
+      console.error(`Subscription ${subscription.id} listener failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return {
+    subscribe(options) {
+      if (states.size >= MAX_SUBSCRIPTIONS_PER_SESSION) {
+        throw new Error(`At most ${MAX_SUBSCRIPTIONS_PER_SESSION} subscriptions are allowed per session`);
+      }
+
+      const now = Date.now();
+      let start = options.startTime ? Date.parse(options.startTime) : now;
+      if (Number.isNaN(start)) {
+        throw new Error(`Invalid startTime '${options.startTime}'`);
+      }
+      // The API rejects start times beyond its retention window
+      start = Math.max(start, now - SPACE_EVENT_RETENTION_MS + 60000);
+
+      const subscription: Subscription = {
+        id: randomUUID(),
+        spaceName: options.spaceName,
+        eventTypes: options.eventTypes?.length ? options.eventTypes : Object.values(SpaceEventType),
+        intervalMs: options.intervalMs || DEFAULT_SUBSCRIPTION_INTERVAL_MS,
+        cursor: new Date(start).toISOString(),
+        createdAt: new Date(now).toISOString(),
+        expiresAt: options.expiresAt,
+        failures: 0,
+        delivered: 0
+      };
+
+      const state: SubscriptionState = {
+        subscription,
+        seen: new Set(),
+        verified: false,
+        context: new AsyncResource("GoogleChatSubscription")
+      };
+      states.set(subscription.id, state);
+      schedule(state);
+      return subscription;
+    },
+
+    unsubscribe(id) {
+      const state = states.get(id);
+      if (!state) {
+        return false;
+      }
+      clearTimeout(state.timer);
+      states.delete(id);
+      return true;
+    },
+
+    list() {
+      return [...states.values()].map(state => state.subscription);
+    },
+
+    async poll(id) {
+      const state = states.get(id);
+      if (!state) {
+        throw new Error(`Subscription ${id} not found`);
+      }
+      const failure = await poll(state);
+      if (failure) {
+        throw failure;
+      }
+    },
+
+    async deliver(spaceName, events) {
+      for (const state of states.values()) {
+        const { subscription } = state;
+        if (!state.verified || subscription.spaceName !== spaceName) {
+          continue;
+        }
+        await deliver(state, events.filter(event =>
+          subscription.eventTypes.includes(event.eventType as SpaceEventType)
+        ), false);
+      }
+    },
+
+    stopAll() {
+      for (const state of states.values()) {
+        clearTimeout(state.timer);
+      }
+      states.clear();
+    }
+  };
+}
+
+/**
+ * Identify an event the same way whether it was polled or pushed. Pushed events
+ * are named after their CloudEvent id, which need not match the name the API
+ * lists them under, so the key is built from the type, time and resources instead.
+ */
+function eventKey(event: SpaceEvent): string {
+  const resources = Object.entries(event)
+    .filter(([field]) => field.endsWith("EventData"))
+    .flatMap(([, data]) => Object.values(data ?? {}).flat() as { name?: string }[])
+    .map(resource => resource?.name)
+    .filter(Boolean)
+    .sort();
+  // Normalize the timestamp's precision, which can differ between the two
+  return `${event.eventType}@${Date.parse(event.eventTime || "")}:${resources.join(",")}`;
+}
@@ -0,0 +1,234 @@
+import { createHash } from "node:crypto";
+import type { IncomingHttpHeaders } from "node:http";
+import type { AxiosInstance } from "axios";
+import { OAuth2Client } from "google-auth-library";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { createTokenApiClient, createDelegatedApiClient, runWithApiClient } from "./api-client.js";
+import { isImpersonationAllowed } from "./impersonation.js";
+
+/**
+ * How HTTP mode picks the Google identity for a request:
+ *  - shared: every request uses the server's own credentials
+ *  - passthrough: each request carries its own Google access token
+ *  - mapped: an identity header set by a trusted proxy is mapped to a
+ *    workspace user impersonated via domain-wide delegation
+ */
+export enum HttpGoogleAuthMode {
+  SHARED = "shared",
+  PASSTHROUGH = "passthrough",
+  MAPPED = "mapped"
+}
+
+export interface GoogleCredentials {
+  accessToken?: string;
+  subject?: string;
+}
+
+const GOOGLE_TOKEN_HEADER = "x-google-access-token";
+const MAX_CACHED_CLIENTS = 100;
+
+// Isolated API clients keyed by MCP session (or by credential when stateless)
+const sessionClients = new Map<string, { credentials: GoogleCredentials; client: AxiosInstance }>();
+// Google account behind each passthrough token, keyed by a hash of the token
+const tokenIdentities = new Map<string, { identity: string; expiresAt: number }>();
+const tokenInfoClient = new OAuth2Client();
+
+/**
+ * Read the HTTP Google auth mode from the environment.
+ */
+export function getHttpGoogleAuthMode(): HttpGoogleAuthMode {
+  const mode = (process.env.HTTP_GOOGLE_AUTH || HttpGoogleAuthMode.SHARED).toLowerCase();
+  if (!Object.values(HttpGoogleAuthMode).includes(mode as HttpGoogleAuthMode)) {
+    throw new Error(`Invalid HTTP_GOOGLE_AUTH '${mode}': expected shared, passthrough or mapped`);
+  }
+  return mode as HttpGoogleAuthMode;
+}
+
+/**
+ * Work out which Google credentials an incoming HTTP request should use.
+ * Returns null in shared mode; throws when the request lacks what the mode requires.
+ */
+export function resolveGoogleCredentials(
+  mode: HttpGoogleAuthMode,
+  headers: IncomingHttpHeaders
+): GoogleCredentials | null {
+  if (mode === HttpGoogleAuthMode.PASSTHROUGH) {
+    const header = headers[GOOGLE_TOKEN_HEADER];
+    const token = (Array.isArray(header) ? header[0] : header)?.replace(/^Bearer\s+/i, "").trim();
+    if (!token) {
+      throw new Error("Missing Google access token. Send it in the X-Google-Access-Token header.");
+    }
+    return { accessToken: token };
+  }
+
+  if (mode === HttpGoogleAuthMode.MAPPED) {
+    const headerName = (process.env.HTTP_IDENTITY_HEADER || "x-forwarded-email").toLowerCase();
+    const header = headers[headerName];
+    const identity = (Array.isArray(header) ? header[0] : header)?.trim().toLowerCase();
+    if (!identity) {
+      throw new Error(`Missing identity header ${headerName}`);
+    }
+
+    const mapped = getIdentityMap()[identity];
+    const subject = mapped || identity;
+    if (!mapped && !isImpersonationAllowed(subject)) {
+      throw new Error(`Identity ${identity} is not mapped to a Google user`);
+    }
+    return { subject };
+  }
+
+  return null;
+}
+
+/**
+ * A stable identity for the Google user behind a request's credentials, used to bind
+ * sessions to their caller: the token's account ID for passthrough tokens, which change
+ * on every refresh, or the impersonated user. Throws when Google rejects the token.
+ */
+export async function resolveCallerIdentity(credentials: GoogleCredentials | null): Promise<string | undefined> {
+  if (!credentials?.accessToken) {
+    return credentials?.subject?.toLowerCase();
+  }
+
+  const key = tokenKey(credentials.accessToken);
+  const cached = tokenIdentities.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.identity;
+  }
+
+  let identity: string;
+  let expiresAt: number;
+  try {
+    const info = await tokenInfoClient.getTokenInfo(credentials.accessToken);
+    if (!info.sub) {
+      throw new Error("the token carries no account ID");
+    }
+    identity = `google:${info.sub}`;
+    expiresAt = info.expiry_date;
+  } catch (error) {
+    throw new Error(`Could not verify the Google access token: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  for (const [cachedKey, entry] of tokenIdentities) {
+    if (entry.expiresAt <= Date.now()) {
+      tokenIdentities.delete(cachedKey);
+    }
+  }
+  if (tokenIdentities.size >= MAX_CACHED_CLIENTS) {
+    tokenIdentities.delete(tokenIdentities.keys().next().value!);
+  }
+  tokenIdentities.set(key, { identity, expiresAt });
+  return identity;
+}
+
+/**
+ * A filesystem-safe key for whoever made a request: the authenticated client together
+ * with the Google user behind its credentials. Undefined for requests without auth
+ * info, such as stdio, which has a single caller.
+ */
+export async function resolveCallerKey(authInfo: AuthInfo | undefined): Promise<string | undefined> {
+  if (!authInfo) {
+    return undefined;
+  }
+  const identity = await resolveCallerIdentity(getGoogleCredentials(authInfo));
+  return createHash("sha256").update(`${authInfo.clientId}\n${identity || ""}`).digest("hex").slice(0, 32);
+}
+
+/**
+ * When a passthrough access token expires, as milliseconds since the epoch,
+ * if resolveCallerIdentity has verified it.
+ */
+export function getAccessTokenExpiry(accessToken: string): number | undefined {
+  return tokenIdentities.get(tokenKey(accessToken))?.expiresAt;
+}
+
+function tokenKey(accessToken: string): string {
+  return createHash("sha256").update(accessToken).digest("hex");
+}
+
+/**
+ * Parse HTTP_IDENTITY_MAP, a JSON object of incoming identity -> Google user email.
+ */
+function getIdentityMap(): Record<string, string> {
+  const raw = process.env.HTTP_IDENTITY_MAP;
+  if (!raw) {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(raw) as Record<string, string>;
+    return Object.fromEntries(Object.entries(parsed).map(([k, v]) => [k.toLowerCase(), v]));
+  } catch {
+    throw new Error("Invalid HTTP_IDENTITY_MAP: must be a JSON object");
+  }
+}
+
+/**
+ * Attach Google credentials to the auth info the MCP transport hands to tools.
+ */
+export function withGoogleCredentials(
+  authInfo: AuthInfo | undefined,
+  credentials: GoogleCredentials
+): AuthInfo {
+  return {
+    token: authInfo?.token || "",
+    clientId: authInfo?.clientId || credentials.subject || "google-token",
+    scopes: authInfo?.scopes || [],
+    ...authInfo,
+    extra: { ...authInfo?.extra, google: credentials }
+  };
+}
+
+/**
+ * Google credentials attached to a request's auth info, if any.
+ */
+export function getGoogleCredentials(authInfo: AuthInfo | undefined): GoogleCredentials | null {
+  const google = authInfo?.extra?.google as GoogleCredentials | undefined;
+  return google && (google.accessToken || google.subject) ? google : null;
+}
+
+/**
+ * Get the isolated API client for a session, creating it on first use.
+ * A session whose credentials changed (e.g. a refreshed token) gets a fresh client.
+ */
+export function getSessionApiClient(sessionKey: string, credentials: GoogleCredentials): AxiosInstance {
+  const existing = sessionClients.get(sessionKey);
+  if (existing &&
+    existing.credentials.accessToken === credentials.accessToken &&
+    existing.credentials.subject === credentials.subject) {
+    return existing.client;
+  }
+
+  const client = credentials.accessToken
+    ? createTokenApiClient(credentials.accessToken)
+    : createDelegatedApiClient(credentials.subject!);
+
+  sessionClients.delete(sessionKey);
+  sessionClients.set(sessionKey, { credentials, client });
+  if (sessionClients.size > MAX_CACHED_CLIENTS) {
+    sessionClients.delete(sessionClients.keys().next().value!);
+  }
+  return client;
+}
+
+/**
+ * Drop a session's API client when the session ends.
+ */
+export function releaseSessionApiClient(sessionKey: string): void {
+  sessionClients.delete(sessionKey);
+}
+
+/**
+ * Run fn with the isolated API client for the request's own Google credentials.
+ * Requests without credentials run fn unchanged against the shared client.
+ */
+export function runWithRequestCredentials<T>(
+  extra: { authInfo?: AuthInfo; sessionId?: string } | undefined,
+  fn: () => Promise<T>
+): Promise<T> {
+  const credentials = getGoogleCredentials(extra?.authInfo);
+  if (!credentials) {
+    return fn();
+  }
+  const sessionKey = extra?.sessionId || credentials.accessToken || credentials.subject!;
+  return runWithApiClient(getSessionApiClient(sessionKey, credentials), fn);
+}
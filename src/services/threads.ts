@@ -0,0 +1,39 @@
+import { makeApiRequest } from "./api-client.js";
+import { paginate, type PaginatedResult } from "./pagination.js";
+import type { ToolExtra } from "./progress.js";
+import { MAX_PAGE_SIZE, MAX_THREAD_PAGES } from "../constants.js";
+import type { Message, ListMessagesResponse } from "../types.js";
+
+export interface ThreadReadOptions {
+  // Continue a thread from where an earlier read stopped
+  pageToken?: string;
+  showDeleted?: boolean;
+}
+
+/**
+ * Read a thread's messages oldest first, up to MAX_THREAD_PAGES pages of 100.
+ * The result's nextPageToken is set when the thread continues.
+ */
+export function readThreadMessages(
+  threadName: string,
+  options: ThreadReadOptions = {},
+  extra?: ToolExtra
+): Promise<PaginatedResult<Message>> {
+  const spaceName = threadName.split("/threads/")[0];
+
+  return paginate<Message>(async (pageToken, pageSize) => {
+    const response = await makeApiRequest<ListMessagesResponse>(
+      `${spaceName}/messages`,
+      "GET",
+      undefined,
+      {
+        pageSize,
+        pageToken,
+        filter: `thread.name = ${threadName}`,
+        orderBy: "createTime asc",
+        showDeleted: options.showDeleted || undefined
+      }
+    );
+    return { items: response.messages || [], nextPageToken: response.nextPageToken };
+  }, { pageSize: MAX_PAGE_SIZE, pageToken: options.pageToken, maxPages: MAX_THREAD_PAGES }, extra);
+}
@@ -0,0 +1,182 @@
+import { randomBytes } from "node:crypto";
+import { makeRawRequest, getUploadBaseUrl } from "./api-client.js";
+import type { ProgressCallback } from "./progress.js";
+import {
+  MAX_ATTACHMENT_SIZE,
+  MULTIPART_UPLOAD_THRESHOLD,
+  RESUMABLE_CHUNK_SIZE,
+  UploadType
+} from "../constants.js";
+import type { AttachmentDataRef, UploadAttachmentResponse } from "../types.js";
+
+export interface UploadOptions {
+  uploadType?: UploadType;
+  chunkSize?: number;
+  onProgress?: ProgressCallback;
+}
+
+export interface UploadResult {
+  attachmentDataRef: AttachmentDataRef;
+  uploadType: UploadType.MULTIPART | UploadType.RESUMABLE;
+  size: number;
+  requests: number;
+}
+
+/**
+ * Upload file content to a space via the Chat media upload endpoint.
+ * Small files are sent as a single multipart request; larger files use a
+ * resumable session uploaded in chunks.
+ */
+export async function uploadAttachment(
+  spaceName: string,
+  filename: string,
+  contentType: string,
+  content: Buffer,
+  options: UploadOptions = {}
+): Promise<UploadResult> {
+  if (content.length === 0) {
+    throw new Error("Attachment content is empty");
+  }
+  if (content.length > MAX_ATTACHMENT_SIZE) {
+    throw new Error(
+      `Attachment is ${content.length} bytes; Google Chat accepts at most ${MAX_ATTACHMENT_SIZE} bytes`
+    );
+  }
+
+  const requested = options.uploadType || UploadType.AUTO;
+  const uploadType = requested === UploadType.AUTO
+    ? (content.length <= MULTIPART_UPLOAD_THRESHOLD ? UploadType.MULTIPART : UploadType.RESUMABLE)
+    : requested;
+
+  const url = `${getUploadBaseUrl()}/${spaceName}/attachments:upload`;
+
+  if (uploadType === UploadType.MULTIPART) {
+    return uploadMultipart(url, filename, contentType, content, options.onProgress);
+  }
+  return uploadResumable(url, filename, contentType, content, options);
+}
+
+/**
+ * Send metadata and media in one multipart/related request.
+ */
+async function uploadMultipart(
+  url: string,
+  filename: string,
+  contentType: string,
+  content: Buffer,
+  onProgress?: ProgressCallback
+): Promise<UploadResult> {
+  const boundary = `gchat_mcp_${randomBytes(12).toString("hex")}`;
+  const body = Buffer.concat([
+    Buffer.from(
+      `--${boundary}\r\n` +
+      "Content-Type: application/json; charset=UTF-8\r\n\r\n" +
+      `${JSON.stringify({ filename })}\r\n` +
+      `--${boundary}\r\n` +
+      `Content-Type: ${contentType}\r\n\r\n`
+    ),
+    content,
+    Buffer.from(`\r\n--${boundary}--\r\n`)
+  ]);
+
+  await onProgress?.(0, content.length, "Uploading attachment");
+
+  const response = await makeRawRequest<UploadAttachmentResponse>({
+    method: "POST",
+    url,
+    params: { uploadType: "multipart" },
+    headers: { "Content-Type": `multipart/related; boundary=${boundary}` },
+    data: body,
+    maxBodyLength: Infinity
+  });
+
+  await onProgress?.(content.length, content.length, "Upload complete");
+
+  return {
+    attachmentDataRef: requireDataRef(response.data),
+    uploadType: UploadType.MULTIPART,
+    size: content.length,
+    requests: 1
+  };
+}
+
+/**
+ * Open a resumable upload session and send the media in chunks.
+ * The server answers 308 with a Range header until the last chunk lands.
+ */
+async function uploadResumable(
+  url: string,
+  filename: string,
+  contentType: string,
+  content: Buffer,
+  options: UploadOptions
+): Promise<UploadResult> {
+  const total = content.length;
+  const chunkSize = options.chunkSize || RESUMABLE_CHUNK_SIZE;
+
+  const session = await makeRawRequest({
+    method: "POST",
+    url,
+    params: { uploadType: "resumable" },
+    headers: {
+      "Content-Type": "application/json; charset=UTF-8",
+      "X-Upload-Content-Type": contentType,
+      "X-Upload-Content-Length": String(total)
+    },
+    data: { filename }
+  });
+
+  const sessionUri = session.headers["location"];
+  if (typeof sessionUri !== "string" || !sessionUri) {
+    throw new Error("Resumable upload session was not created (missing Location header)");
+  }
+
+  let requests = 1;
+  let offset = 0;
+  await options.onProgress?.(0, total, "Uploading attachment");
+
+  while (offset < total) {
+    const end = Math.min(offset + chunkSize, total);
+    const response = await makeRawRequest<UploadAttachmentResponse>({
+      method: "PUT",
+      url: sessionUri,
+      headers: {
+        "Content-Type": contentType,
+        "Content-Range": `bytes ${offset}-${end - 1}/${total}`
+      },
+      data: content.subarray(offset, end),
+      maxBodyLength: Infinity,
+      validateStatus: (status) => status === 308 || (status >= 200 && status < 300)
+    });
+    requests++;
+
+    if (response.status !== 308) {
+      await options.onProgress?.(total, total, "Upload complete");
+      return {
+        attachmentDataRef: requireDataRef(response.data),
+        uploadType: UploadType.RESUMABLE,
+        size: total,
+        requests
+      };
+    }
+
+    // "bytes=0-N" tells us what the server has persisted so far
+    const range = response.headers["range"];
+    const match = typeof range === "string" ? /bytes=\d+-(\d+)/.exec(range) : null;
+    const next = match ? parseInt(match[1], 10) + 1 : 0;
+    if (next <= offset) {
+      throw new Error(`Resumable upload made no progress at byte ${offset}`);
+    }
+    offset = next;
+    await options.onProgress?.(offset, total, `Uploaded ${offset} of ${total} bytes`);
+  }
+
+  throw new Error("Resumable upload finished without a final response from the server");
+}
+
+function requireDataRef(response: UploadAttachmentResponse): AttachmentDataRef {
+  if (!response?.attachmentDataRef?.resourceName) {
+    throw new Error("Upload response did not include an attachmentDataRef");
+  }
+  return response.attachmentDataRef;
+}
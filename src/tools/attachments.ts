@@ -1,20 +1,38 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerTool } from "./register.js";
 import { makeApiRequest, handleApiError } from "../services/api-client.js";
 import { formatAttachment } from "../services/formatters.js";
+import { uploadAttachment } from "../services/uploads.js";
+import { createProgressReporter } from "../services/progress.js";
+import { downloadAttachmentMedia } from "../services/downloads.js";
 import {
   GetAttachmentInputSchema,
+  DownloadAttachmentInputSchema,
   UploadAttachmentInputSchema,
   type GetAttachmentInput,
+  type DownloadAttachmentInput,
   type UploadAttachmentInput
 } from "../schemas/index.js";
 import type { Attachment } from "../types.js";
+import { API_BASE_URL } from "../constants.js";
+
+/**
+ * Whether attachment content can be returned as readable text.
+ */
+function isTextMimeType(mimeType: string): boolean {
+  return mimeType.startsWith("text/") ||
+    /^application\/(json|xml|csv|yaml|x-yaml|javascript)$/.test(mimeType) ||
+    mimeType.endsWith("+json") ||
+    mimeType.endsWith("+xml");
+}
 
 /**
  * Register all attachment-related tools.
  */
 export function registerAttachmentTools(server: McpServer): void {
   // Get attachment
-  server.registerTool(
+  registerTool(
+    server,
     "google_chat_get_attachment",
     {
       title: "Get Google Chat Attachment",
@@ -30,7 +48,7 @@ Returns:
 Examples:
   - "Get attachment info" -> params with attachmentName='spaces/AAAA/messages/BBBB/attachments/CCCC'
 
-Note: This returns metadata only. Use the downloadUri to download the actual file content.`,
+Note: This returns metadata only. Use google_chat_download_attachment to fetch the actual file content.`,
       inputSchema: GetAttachmentInputSchema,
       annotations: {
         readOnlyHint: true,
@@ -61,8 +79,95 @@ Note: This returns metadata only. Use the downloadUri to download the actual fil
     }
   );
 
+  // Download attachment
+  registerTool(
+    server,
+    "google_chat_download_attachment",
+    {
+      title: "Download Google Chat Attachment",
+      description: `Download the content of a message attachment.
+
+Args:
+  - attachmentName (string): The resource name of the attachment (e.g., 'spaces/AAAA/messages/BBBB/attachments/CCCC')
+  - maxBytes (number): Maximum size to download in bytes (default: 10 MB, max: 50 MB)
+
+Returns:
+  Images are returned as image content the model can view. Text files are returned as
+  embedded text resources, and all other files as embedded base64 blob resources.
+
+Examples:
+  - "Look at the screenshot in this message" -> params with attachmentName='spaces/AAAA/messages/BBBB/attachments/CCCC'
+  - "Read the attached PDF" -> params with attachmentName='spaces/AAAA/messages/BBBB/attachments/DDDD', maxBytes=20971520
+
+Note: Google Drive attachments cannot be downloaded through the Chat API.`,
+      inputSchema: DownloadAttachmentInputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true
+      }
+    },
+    async (params: DownloadAttachmentInput) => {
+      try {
+        const attachment = await makeApiRequest<Attachment>(
+          params.attachmentName,
+          "GET"
+        );
+
+        const resourceName = attachment.attachmentDataRef?.resourceName;
+        if (!resourceName) {
+          const reason = attachment.driveDataRef?.driveFileId
+            ? `it is a Google Drive file (driveFileId: ${attachment.driveDataRef.driveFileId})`
+            : "it has no attachmentDataRef";
+          return {
+            isError: true,
+            content: [{ type: "text", text: `Error: Cannot download \`${params.attachmentName}\` because ${reason}.` }]
+          };
+        }
+
+        const download = await downloadAttachmentMedia(resourceName, params.maxBytes);
+        const mimeType = attachment.contentType || download.contentType || "application/octet-stream";
+        const uri = attachment.downloadUri ||
+          `${API_BASE_URL}/media/${resourceName}?alt=media`;
+        const summary = `Downloaded ${attachment.contentName || attachment.name} (${mimeType}, ${download.data.length} bytes).`;
+
+        if (mimeType.startsWith("image/")) {
+          return {
+            content: [
+              { type: "text", text: summary },
+              { type: "image", data: download.data.toString("base64"), mimeType }
+            ]
+          };
+        }
+
+        if (isTextMimeType(mimeType)) {
+          return {
+            content: [
+              { type: "text", text: summary },
+              { type: "resource", resource: { uri, mimeType, text: download.data.toString("utf8") } }
+            ]
+          };
+        }
+
+        return {
+          content: [
+            { type: "text", text: summary },
+            { type: "resource", resource: { uri, mimeType, blob: download.data.toString("base64") } }
+          ]
+        };
+      } catch (error) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: handleApiError(error) }]
+        };
+      }
+    }
+  );
+
   // Upload attachment
-  server.registerTool(
+  registerTool(
+    server,
     "google_chat_upload_attachment",
     {
       title: "Upload Google Chat Attachment",
@@ -72,17 +177,19 @@ Args:
   - spaceName (string): The resource name of the space to upload to (required)
   - filename (string): The filename for the attachment (required)
   - contentType (string): The MIME type of the file (required, e.g., 'image/png', 'application/pdf')
-  - contentBase64 (string): The file content encoded as base64 (required)
+  - contentBase64 (string): The file content encoded as base64 (required, max 200 MB decoded)
+  - uploadType ('auto' | 'multipart' | 'resumable'): Upload strategy (default: 'auto' - multipart up to 5 MB, resumable above)
   - response_format ('markdown' | 'json'): Output format (default: 'markdown')
 
 Returns:
-  The uploaded attachment reference that can be used when sending a message.
+  The attachmentDataRef of the uploaded file, which can be used when sending a message.
+  Progress notifications are sent while uploading if the client supplies a progress token.
 
 Examples:
   - "Upload an image" -> params with spaceName='spaces/AAAA', filename='photo.png', contentType='image/png', contentBase64='...'
   - "Upload a PDF" -> params with spaceName='spaces/AAAA', filename='document.pdf', contentType='application/pdf', contentBase64='...'
 
-Note: After uploading, use the attachment reference when creating a message to attach the file.`,
+Note: After uploading, pass the attachmentDataRef in the attachments parameter of google_chat_create_message to attach the file.`,
       inputSchema: UploadAttachmentInputSchema,
       annotations: {
         readOnlyHint: false,
@@ -91,40 +198,41 @@ Note: After uploading, use the attachment reference when creating a message to a
         openWorldHint: true
       }
     },
-    async (params: UploadAttachmentInput) => {
+    async (params: UploadAttachmentInput, extra) => {
       try {
-        // Decode base64 content
         const contentBuffer = Buffer.from(params.contentBase64, "base64");
 
-        // The Google Chat API upload endpoint uses multipart/form-data
-        // This is a simplified implementation - full implementation would need form-data
-        const uploadData = {
-          filename: params.filename,
-          contentType: params.contentType,
-          contentLength: contentBuffer.length
-        };
-
-        // Note: Google Chat attachment upload requires multipart upload
-        // This is a metadata-only request for demonstration
-        // Full implementation would use the upload endpoint with proper multipart handling
-        const response = await makeApiRequest<{ attachmentDataRef: { resourceName: string; attachmentUploadToken: string } }>(
-          `${params.spaceName}/attachments:upload`,
-          "POST",
-          uploadData
+        const result = await uploadAttachment(
+          params.spaceName,
+          params.filename,
+          params.contentType,
+          contentBuffer,
+          {
+            uploadType: params.uploadType,
+            onProgress: createProgressReporter(extra)
+          }
         );
 
         const attachment: Attachment = {
-          name: response.attachmentDataRef?.resourceName || "",
+          name: result.attachmentDataRef.resourceName || "",
           contentName: params.filename,
           contentType: params.contentType,
-          attachmentDataRef: response.attachmentDataRef
+          attachmentDataRef: result.attachmentDataRef
         };
 
         const text = formatAttachment(attachment, params.response_format);
+        const summary = `Uploaded ${result.size} bytes via ${result.uploadType} upload (${result.requests} request${result.requests === 1 ? "" : "s"}).`;
 
         return {
-          content: [{ type: "text", text: `Attachment uploaded successfully!\n\n${text}` }],
-          structuredContent: attachment
+          content: [{ type: "text", text: `Attachment uploaded successfully! ${summary}\n\n${text}` }],
+          structuredContent: {
+            ...attachment,
+            upload: {
+              uploadType: result.uploadType,
+              size: result.size,
+              requests: result.requests
+            }
+          }
         };
       } catch (error) {
         return {
@@ -0,0 +1,182 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerTool } from "./register.js";
+import { makeApiRequest, handleApiError } from "../services/api-client.js";
+import { listSpaceEvents } from "../services/space-events.js";
+import { getRecentSpaceEvents } from "../services/event-hub.js";
+import {
+  formatSpaceEvent,
+  formatSpaceEventsList
+} from "../services/formatters.js";
+import {
+  ListSpaceEventsInputSchema,
+  GetSpaceEventInputSchema,
+  ListRecentSpaceEventsInputSchema,
+  type ListSpaceEventsInput,
+  type GetSpaceEventInput,
+  type ListRecentSpaceEventsInput
+} from "../schemas/index.js";
+import type { Space, SpaceEvent } from "../types.js";
+
+/**
+ * Register all space event tools.
+ */
+export function registerSpaceEventTools(server: McpServer): void {
+  // List space events
+  registerTool(
+    server,
+    "google_chat_list_space_events",
+    {
+      title: "List Google Chat Space Events",
+      description: `List what changed in a Google Chat space: messages posted, edited or deleted,
+members joining or leaving, reactions and space updates. Rendered as a changelog.
+
+Args:
+  - spaceName (string): The resource name of the space (e.g., 'spaces/AAAA1234567')
+  - eventTypes (string[]): Event types to include, e.g. 'google.workspace.chat.message.v1.created' (default: all)
+  - startTime (string): RFC 3339 time to start from, e.g. '2024-05-01T00:00:00Z' (required)
+  - endTime (string): RFC 3339 time to stop at (default: now)
+  - pageSize (number): Maximum number of events to return, 1-1000 (default: 100)
+  - pageToken (string): Token for pagination (pass the same filters as the first call)
+  - response_format ('markdown' | 'json'): Output format (default: 'markdown')
+
+Returns:
+  Changelog of events in chronological order, with a pagination token when more are available.
+
+Examples:
+  - "What happened in this space since Monday?" -> params with spaceName='spaces/AAAA', startTime='2024-05-06T00:00:00Z'
+  - "Who joined this week?" -> params with spaceName='spaces/AAAA', startTime=..., eventTypes=['google.workspace.chat.membership.v1.created']
+
+Note: Google Chat only keeps events for the last 28 days. Reading an event type needs
+read access to that resource (e.g. message events need a messages scope).`,
+      inputSchema: ListSpaceEventsInputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true
+      }
+    },
+    async (params: ListSpaceEventsInput) => {
+      try {
+        const response = await listSpaceEvents(params.spaceName, params);
+
+        const spaceEvents = response.spaceEvents || [];
+        const hasMore = !!response.nextPageToken;
+        const text = formatSpaceEventsList(spaceEvents, params.response_format, hasMore, response.nextPageToken);
+
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: {
+            count: spaceEvents.length,
+            spaceEvents,
+            hasMore,
+            nextPageToken: response.nextPageToken
+          }
+        };
+      } catch (error) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: handleApiError(error) }]
+        };
+      }
+    }
+  );
+
+  // Get space event
+  registerTool(
+    server,
+    "google_chat_get_space_event",
+    {
+      title: "Get Google Chat Space Event",
+      description: `Get a single event from a Google Chat space.
+
+Args:
+  - eventName (string): The resource name of the event (e.g., 'spaces/AAAA/spaceEvents/BBBB')
+  - response_format ('markdown' | 'json'): Output format (default: 'markdown')
+
+Returns:
+  The event type, time and the resources it changed.
+
+Examples:
+  - "Show event details" -> params with eventName='spaces/AAAA/spaceEvents/BBBB'`,
+      inputSchema: GetSpaceEventInputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true
+      }
+    },
+    async (params: GetSpaceEventInput) => {
+      try {
+        const event = await makeApiRequest<SpaceEvent>(params.eventName, "GET");
+        const text = formatSpaceEvent(event, params.response_format);
+
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: event
+        };
+      } catch (error) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: handleApiError(error) }]
+        };
+      }
+    }
+  );
+  // List recently pushed events
+  registerTool(
+    server,
+    "google_chat_list_recent_events",
+    {
+      title: "List Recently Pushed Google Chat Events",
+      description: `List space events this server received through Google Workspace Events push delivery,
+without calling the Chat API for the events themselves.
+
+Args:
+  - spaceName (string): The resource name of the space (e.g., 'spaces/AAAA1234567')
+  - eventTypes (string[]): Event types to include (default: all)
+  - limit (number): Maximum number of events to return, 1-500 (default: 50)
+  - response_format ('markdown' | 'json'): Output format (default: 'markdown')
+
+Returns:
+  Changelog of the most recent pushed events for the space, newest first.
+
+Examples:
+  - "What just happened in this space?" -> params with spaceName='spaces/AAAA'
+
+Note: Only available when the HTTP server's push receiver is enabled (EVENTS_PUSH_AUDIENCE).
+The buffer is in memory and holds the last 500 events across all spaces. Use
+google_chat_list_space_events for older history.`,
+      inputSchema: ListRecentSpaceEventsInputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true
+      }
+    },
+    async (params: ListRecentSpaceEventsInput) => {
+      try {
+        // The buffer is shared by every caller; only show it to those who can read the space
+        await makeApiRequest<Space>(params.spaceName, "GET");
+
+        const spaceEvents = getRecentSpaceEvents(params.spaceName, params.eventTypes, params.limit);
+        const text = formatSpaceEventsList(spaceEvents, params.response_format, false);
+
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: {
+            count: spaceEvents.length,
+            spaceEvents
+          }
+        };
+      } catch (error) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: handleApiError(error) }]
+        };
+      }
+    }
+  );
+}
@@ -0,0 +1,146 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerTool } from "./register.js";
+import path from "node:path";
+import { handleApiError } from "../services/api-client.js";
+import { resolveCallerKey } from "../services/tenancy.js";
+import {
+  exportSpace,
+  resolveExportPath,
+  checkExportTarget,
+  getExportUri,
+  EXPORT_MIME_TYPES
+} from "../services/export.js";
+import { createProgressReporter } from "../services/progress.js";
+import { formatExportResult } from "../services/formatters.js";
+import {
+  ExportSpaceInputSchema,
+  type ExportSpaceInput
+} from "../schemas/index.js";
+
+/**
+ * Register space export tools.
+ */
+export function registerExportTools(server: McpServer): void {
+  registerTool(
+    server,
+    "google_chat_export_space",
+    {
+      title: "Export Google Chat Space",
+      description: `Export a space's messages to a transcript file on the server, for archiving.
+
+Args:
+  - spaceName (string): The resource name of the space (required)
+  - format ('markdown' | 'jsonl' | 'html'): Transcript format (default: 'markdown')
+  - outputPath (string): File to write, relative to your export directory (default: '<space ID>.<extension>')
+  - startTime (string): Only messages created after this date or RFC 3339 time
+  - endTime (string): Only messages created before this date or RFC 3339 time
+  - includeThreads (boolean): Include thread replies under the message that started each thread (default: true)
+  - includeReactions (boolean): Include reactions and who added them (default: false)
+  - includeAttachments (boolean): Include attachment names, types and Drive references (default: true)
+  - restart (boolean): Discard any checkpoint and existing file at the output path and start over (default: false)
+  - response_format ('markdown' | 'json'): Output format (default: 'markdown')
+
+Returns:
+  The file path, message and thread counts, the period covered and the file size,
+  plus a link to the gchat://exports/ resource that serves the file. Markdown and HTML transcripts are grouped by day;
+  JSONL has one message per line as returned by the API.
+
+Examples:
+  - "Archive the Project X space before we close it" -> params with spaceName='spaces/AAAA', format='html'
+  - "Export last quarter's messages as JSONL" -> params with spaceName='spaces/AAAA', format='jsonl', startTime='2024-01-01', endTime='2024-04-01'
+
+Note: Progress is reported after every page of 100 messages. Progress is saved to a checkpoint
+next to the output file, so if the call is cancelled or fails, calling again with the same
+arguments continues where it stopped. Over HTTP, each client and Google user has its own export
+directory, so exports cannot be resumed or overwritten by other callers. Attachment contents are
+not downloaded.`,
+      inputSchema: ExportSpaceInputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true
+      }
+    },
+    async (params: ExportSpaceInput, extra) => {
+      const startTime = params.startTime ? Date.parse(params.startTime) : undefined;
+      const endTime = params.endTime ? Date.parse(params.endTime) : undefined;
+      if (Number.isNaN(startTime) || Number.isNaN(endTime)) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: "Error: startTime and endTime must be dates like 2024-05-01 or RFC 3339 times." }]
+        };
+      }
+
+      let callerKey: string | undefined;
+      try {
+        callerKey = await resolveCallerKey(extra.authInfo);
+      } catch (error) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: handleApiError(error) }]
+        };
+      }
+
+      const file = resolveExportPath(params.spaceName, params.format, params.outputPath, callerKey);
+      if (!file) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: "Error: outputPath must be a file inside your export directory." }]
+        };
+      }
+
+      const options = {
+        spaceName: params.spaceName,
+        format: params.format,
+        startTime: startTime !== undefined ? new Date(startTime).toISOString() : undefined,
+        endTime: endTime !== undefined ? new Date(endTime).toISOString() : undefined,
+        includeThreads: params.includeThreads,
+        includeReactions: params.includeReactions,
+        includeAttachments: params.includeAttachments,
+        restart: params.restart
+      };
+
+      try {
+        const targetError = await checkExportTarget(file, options, "set restart");
+        if (targetError) {
+          return {
+            isError: true,
+            content: [{ type: "text", text: `Error: ${targetError}` }]
+          };
+        }
+
+        const result = await exportSpace(file, options, createProgressReporter(extra), extra.signal);
+        const text = formatExportResult(result, params.response_format);
+        if (!result.complete) {
+          return {
+            content: [{ type: "text", text }],
+            structuredContent: result
+          };
+        }
+
+        return {
+          content: [
+            { type: "text", text },
+            {
+              type: "resource_link",
+              uri: getExportUri(result.path, callerKey),
+              name: path.basename(result.path),
+              mimeType: EXPORT_MIME_TYPES[result.format],
+              description: `Transcript of ${result.spaceDisplayName || result.spaceName}`
+            }
+          ],
+          structuredContent: result
+        };
+      } catch (error) {
+        return {
+          isError: true,
+          content: [{
+            type: "text",
+            text: `${handleApiError(error)}\n\nMessages fetched so far are kept; call again with the same arguments to resume.`
+          }]
+        };
+      }
+    }
+  );
+}
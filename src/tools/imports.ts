@@ -0,0 +1,342 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerTool } from "./register.js";
+import { promises as fs } from "node:fs";
+import { handleApiError } from "../services/api-client.js";
+import { isImpersonationAllowed } from "../services/impersonation.js";
+import { getGoogleCredentials } from "../services/tenancy.js";
+import { createProgressReporter } from "../services/progress.js";
+import {
+  createImportSpace,
+  importMessages,
+  importMemberships,
+  completeImport
+} from "../services/imports.js";
+import { readMigrationSource } from "../services/migration-sources.js";
+import { planMigration, runMigration, resolveImportPath } from "../services/migration.js";
+import {
+  formatSpace,
+  formatImportMessagesResult,
+  formatImportMembersResult,
+  formatMigrationReport
+} from "../services/formatters.js";
+import {
+  CreateImportSpaceInputSchema,
+  ImportMessagesInputSchema,
+  ImportMembersInputSchema,
+  CompleteImportInputSchema,
+  MigrateExportInputSchema,
+  type CreateImportSpaceInput,
+  type ImportMessagesInput,
+  type ImportMembersInput,
+  type CompleteImportInput,
+  type MigrateExportInput
+} from "../schemas/index.js";
+
+const IMPERSONATION_REQUIRED = "Error: Imports post as other users through the server's service account, " +
+  "so they cannot be used when the request carries its own Google credentials.";
+
+/**
+ * Register import-mode tools for migrating history from other chat platforms.
+ */
+export function registerImportTools(server: McpServer): void {
+  // Create import space
+  registerTool(
+    server,
+    "google_chat_create_import_space",
+    {
+      title: "Create Google Chat Import Space",
+      description: `Create a space in import mode, to fill with historical messages before people can see it.
+
+Args:
+  - displayName (string): Display name of the space (required)
+  - spaceType ('SPACE' | 'GROUP_CHAT' | 'DIRECT_MESSAGE'): Type of space (default: 'SPACE')
+  - createTime (string): When the space was originally created (RFC 3339)
+  - externalUserAllowed (boolean): Whether external users can join (default: false)
+  - description (string): Description of the space
+  - response_format ('markdown' | 'json'): Output format (default: 'markdown')
+
+Returns:
+  The created space with its resource name.
+
+Examples:
+  - "Set up a space for the old #design channel" -> params with displayName='Design', createTime='2019-03-01T09:00:00Z'
+
+Note: The space is created as actAs, or the default impersonated user. It stays hidden from
+its members until google_chat_complete_import is called, which must happen within 90 days.
+Requires the chat.import scope.`,
+      inputSchema: CreateImportSpaceInputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true
+      }
+    },
+    async (params: CreateImportSpaceInput) => {
+      try {
+        const space = await createImportSpace(params);
+        const text = formatSpace(space, params.response_format);
+
+        return {
+          content: [{ type: "text", text: `Import space created successfully!\n\n${text}` }],
+          structuredContent: space
+        };
+      } catch (error) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: handleApiError(error) }]
+        };
+      }
+    }
+  );
+
+  // Import messages
+  registerTool(
+    server,
+    "google_chat_import_messages",
+    {
+      title: "Import Historical Google Chat Messages",
+      description: `Post historical messages to an import-mode space, each as its original sender at its original time.
+
+Args:
+  - spaceName (string): The resource name of a space in import mode (required)
+  - messages (array): Messages to post in order, oldest first (required, at most 100). Each has:
+    - sender (string): Email of the original sender (required)
+    - text (string): Message text (required)
+    - createTime (string): When it was sent, RFC 3339 (required)
+    - threadKey (string): Messages sharing a threadKey form a thread
+    - messageId (string): Stable ID from the source system, lowercase letters, digits and hyphens
+    - reactions (array): { emoji, users } with the emails of the users who reacted
+  - response_format ('markdown' | 'json'): Output format (default: 'markdown')
+
+Returns:
+  How many messages were imported, how many already existed, and the reactions added.
+  Importing stops at the first failure and reports which message it was.
+
+Examples:
+  - "Import these three messages from the old channel" -> params with spaceName='spaces/AAAA', messages=[{ sender: 'ana@example.com', text: 'Hi all', createTime: '2019-03-01T09:05:00Z', messageId: 'c1-1551431100' }, ...]
+
+Note: Every sender and reacting user must be allowlisted for impersonation (GOOGLE_IMPERSONATE_ALLOWLIST,
+e.g. '*@example.com'). Give messages a messageId so a batch can be sent again after a failure
+without duplicating what was already imported.`,
+      inputSchema: ImportMessagesInputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true
+      }
+    },
+    async (params: ImportMessagesInput, extra) => {
+      if (getGoogleCredentials(extra.authInfo)) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: IMPERSONATION_REQUIRED }]
+        };
+      }
+
+      const users = new Set(params.messages.flatMap(message => [
+        message.sender,
+        ...(message.reactions || []).flatMap(reaction => reaction.users)
+      ]));
+      const forbidden = [...users].filter(user => !isImpersonationAllowed(user));
+      if (forbidden.length > 0) {
+        return {
+          isError: true,
+          content: [{
+            type: "text",
+            text: `Error: Posting as ${forbidden.join(", ")} is not permitted. Add them to GOOGLE_IMPERSONATE_ALLOWLIST.`
+          }]
+        };
+      }
+
+      const result = await importMessages(params.spaceName, params.messages, createProgressReporter(extra), extra.signal);
+      const structured = { total: params.messages.length, ...result };
+      const text = formatImportMessagesResult(result, params.messages.length, params.response_format);
+      return {
+        isError: result.failed ? true : undefined,
+        content: [{ type: "text", text }],
+        structuredContent: structured
+      };
+    }
+  );
+
+  // Import members
+  registerTool(
+    server,
+    "google_chat_import_members",
+    {
+      title: "Import Google Chat Space Members",
+      description: `Add members to an import-mode space, with the times they originally joined and left.
+
+Args:
+  - spaceName (string): The resource name of a space in import mode (required)
+  - members (array): Memberships to import (required, at most 100). Each has:
+    - user (string): Email or user resource name (required)
+    - role ('ROLE_MEMBER' | 'ROLE_MANAGER'): The member's role (default: 'ROLE_MEMBER')
+    - createTime (string): When they joined, RFC 3339
+    - deleteTime (string): When they left, RFC 3339, for former members
+  - response_format ('markdown' | 'json'): Output format (default: 'markdown')
+
+Returns:
+  How many memberships were added, and which users were already members or could not be added.
+
+Examples:
+  - "Add the channel's members to the import space" -> params with spaceName='spaces/AAAA', members=[{ user: 'ana@example.com', createTime: '2019-03-01T09:00:00Z' }]
+
+Note: Former members (with a deleteTime) keep their place in the history but cannot see the space.`,
+      inputSchema: ImportMembersInputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true
+      }
+    },
+    async (params: ImportMembersInput) => {
+      const result = await importMemberships(params.spaceName, params.members);
+      const text = formatImportMembersResult(result, params.response_format);
+
+      return {
+        isError: result.failed.length === params.members.length ? true : undefined,
+        content: [{ type: "text", text }],
+        structuredContent: result
+      };
+    }
+  );
+
+  // Complete import
+  registerTool(
+    server,
+    "google_chat_complete_import",
+    {
+      title: "Complete Google Chat Space Import",
+      description: `Take a space out of import mode, making it and its imported history visible to its members.
+
+Args:
+  - spaceName (string): The resource name of a space in import mode (required)
+  - response_format ('markdown' | 'json'): Output format (default: 'markdown')
+
+Returns:
+  The space, now out of import mode.
+
+Examples:
+  - "The design channel history is in, open the space up" -> params with spaceName='spaces/AAAA'
+
+Note: This cannot be undone; no more historical messages or memberships can be imported afterwards.
+Call it as the user who created the space (actAs).`,
+      inputSchema: CompleteImportInputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true
+      }
+    },
+    async (params: CompleteImportInput) => {
+      try {
+        const space = await completeImport(params.spaceName);
+        const text = formatSpace(space, params.response_format);
+
+        return {
+          content: [{ type: "text", text: `Import completed successfully!\n\n${text}` }],
+          structuredContent: space
+        };
+      } catch (error) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: handleApiError(error) }]
+        };
+      }
+    }
+  );
+
+  // Migrate a Slack or Mattermost export
+  registerTool(
+    server,
+    "google_chat_migrate_export",
+    {
+      title: "Migrate Slack or Mattermost Export",
+      description: `Migrate channels from a Slack or Mattermost export on the server into import-mode spaces.
+
+Args:
+  - platform ('slack' | 'mattermost'): Where the export comes from (required)
+  - path (string): Export directory, relative to the import directory (required)
+  - channels (string[]): Channel names to migrate, as 'team/channel' for Mattermost (default: all public and private channels)
+  - userMap (object): Source user ID or username -> workspace email, for users without a matching email
+  - spacePrefix (string): Text placed before each channel name in the space's display name (default: '')
+  - targetSpaces (object): Channel name -> space from an earlier run, to continue it
+  - dryRun (boolean): Only report what would be migrated (default: true)
+  - completeImport (boolean): Complete each space's import once its messages are in (default: false)
+  - response_format ('markdown' | 'json'): Output format (default: 'markdown')
+
+Returns:
+  Per channel: messages, threads and replies, the period covered, members, reactions, and what
+  cannot be carried over (attachments, unknown emoji, system messages, authors without a
+  workspace email). A real run adds the space created and how many messages were imported.
+
+Examples:
+  - "What would migrating our Slack export look like?" -> params with platform='slack', path='acme-slack'
+  - "Migrate #general and #design" -> params with platform='slack', path='acme-slack', channels=['general', 'design'], dryRun=false
+  - "Migrate the acme team's town square from Mattermost" -> params with platform='mattermost', path='acme-mm', channels=['acme/town-square'], dryRun=false
+
+Note: Run a dry run first and map the users it lists in userMap. Each space is created as the
+channel's creator and every message is posted as its author, so all of them must be allowlisted
+for impersonation. Authors who cannot be impersonated are posted as the creator with their name
+in front. Posts longer than 4096 characters are split into several messages. Attachments are not
+migrated. Progress is reported every 25 messages; a cancelled or failed run can be continued by
+passing the spaces it created as targetSpaces, skipping messages already imported. Direct messages
+are not migrated.`,
+      inputSchema: MigrateExportInputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true
+      }
+    },
+    async (params: MigrateExportInput, extra) => {
+      if (!params.dryRun && getGoogleCredentials(extra.authInfo)) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: IMPERSONATION_REQUIRED }]
+        };
+      }
+
+      const dir = resolveImportPath(params.path);
+      const stat = dir ? await fs.stat(dir).catch(() => null) : null;
+      if (!dir || !stat?.isDirectory()) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Error: '${params.path}' is not a directory inside the import directory.` }]
+        };
+      }
+
+      const options = {
+        channels: params.channels,
+        userMap: params.userMap || {},
+        spacePrefix: params.spacePrefix,
+        targetSpaces: params.targetSpaces || {},
+        completeImport: params.completeImport
+      };
+
+      try {
+        const source = await readMigrationSource(params.platform, dir);
+        const report = params.dryRun
+          ? planMigration(source, options)
+          : await runMigration(source, options, createProgressReporter(extra), extra.signal);
+        const text = formatMigrationReport(report, params.response_format);
+
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: report
+        };
+      } catch (error) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: handleApiError(error) }]
+        };
+      }
+    }
+  );
+}
@@ -1,9 +1,14 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { registerSpaceTools } from "./spaces.js";
 import { registerMessageTools } from "./messages.js";
+import { registerSearchTools } from "./search.js";
+import { registerExportTools } from "./export.js";
+import { registerImportTools } from "./imports.js";
 import { registerMemberTools } from "./members.js";
 import { registerReactionTools } from "./reactions.js";
 import { registerAttachmentTools } from "./attachments.js";
+import { registerSpaceEventTools } from "./events.js";
+import { registerSubscriptionTools } from "./subscriptions.js";
 
 /**
  * Register all Google Chat tools with the MCP server.
@@ -11,7 +16,12 @@ import { registerAttachmentTools } from "./attachments.js";
 export function registerAllTools(server: McpServer): void {
   registerSpaceTools(server);
   registerMessageTools(server);
+  registerSearchTools(server);
+  registerExportTools(server);
+  registerImportTools(server);
   registerMemberTools(server);
   registerReactionTools(server);
   registerAttachmentTools(server);
+  registerSpaceEventTools(server);
+  registerSubscriptionTools(server);
 }
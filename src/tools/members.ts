@@ -1,27 +1,54 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerTool } from "./register.js";
 import { makeApiRequest, handleApiError } from "../services/api-client.js";
+import { paginate } from "../services/pagination.js";
+import type { ToolExtra } from "../services/progress.js";
 import {
   formatMember,
-  formatMembersList
+  formatMembersList,
+  formatManagersList,
+  fitStructuredContent
 } from "../services/formatters.js";
 import {
   ListMembersInputSchema,
   GetMemberInputSchema,
   CreateMemberInputSchema,
+  UpdateMemberInputSchema,
+  ListManagersInputSchema,
   DeleteMemberInputSchema,
   type ListMembersInput,
   type GetMemberInput,
   type CreateMemberInput,
+  type UpdateMemberInput,
+  type ListManagersInput,
   type DeleteMemberInput
 } from "../schemas/index.js";
+import { MAX_PAGE_SIZE, MembershipRole } from "../constants.js";
 import type { Member, ListMembersResponse } from "../types.js";
 
+/**
+ * Fetch every manager of a space.
+ */
+async function listManagers(spaceName: string, extra?: ToolExtra): Promise<Member[]> {
+  const result = await paginate<Member>(async (pageToken, pageSize) => {
+    const response = await makeApiRequest<ListMembersResponse>(
+      `${spaceName}/members`,
+      "GET",
+      undefined,
+      { filter: `role = "${MembershipRole.ROLE_MANAGER}"`, pageSize, pageToken }
+    );
+    return { items: response.memberships || [], nextPageToken: response.nextPageToken };
+  }, { pageSize: MAX_PAGE_SIZE, all: true }, extra);
+  return result.items;
+}
+
 /**
  * Register all member-related tools.
  */
 export function registerMemberTools(server: McpServer): void {
   // List members
-  server.registerTool(
+  registerTool(
+    server,
     "google_chat_list_members",
     {
       title: "List Google Chat Space Members",
@@ -34,6 +61,9 @@ Args:
   - filter (string): Optional filter (e.g., 'member.type = "HUMAN"')
   - showGroups (boolean): Include Google Groups (default: false)
   - showInvited (boolean): Include invited members (default: false)
+  - all (boolean): Fetch every page instead of one, bounded by maxItems and maxPages (default: false)
+  - maxItems (number): Fetch pages until this many members are collected
+  - maxPages (number): Most pages to fetch when walking pages (default: 20)
   - response_format ('markdown' | 'json'): Output format (default: 'markdown')
 
 Returns:
@@ -42,7 +72,12 @@ Returns:
 Examples:
   - "List all members" -> params with spaceName='spaces/AAAA'
   - "List only humans" -> params with spaceName='spaces/AAAA', filter='member.type = "HUMAN"'
-  - "Include invited" -> params with spaceName='spaces/AAAA', showInvited=true`,
+  - "Include invited" -> params with spaceName='spaces/AAAA', showInvited=true
+  - "How many managers does this space have?" -> params with spaceName='spaces/AAAA', all=true
+
+Note: With all or maxItems, pages are fetched until done and progress is reported after each page.
+Results too large to return in full (text and structured content) start with a summary over all members (counts by role, type and state).
+nextPageToken continues after every item fetched, including any left out; use a smaller maxItems to read those.`,
       inputSchema: ListMembersInputSchema,
       annotations: {
         readOnlyHint: true,
@@ -51,35 +86,36 @@ Examples:
         openWorldHint: true
       }
     },
-    async (params: ListMembersInput) => {
+    async (params: ListMembersInput, extra) => {
       try {
-        const queryParams: Record<string, unknown> = {
-          pageSize: params.pageSize
-        };
-        if (params.pageToken) queryParams.pageToken = params.pageToken;
+        const queryParams: Record<string, unknown> = {};
         if (params.filter) queryParams.filter = params.filter;
         if (params.showGroups) queryParams.showGroups = params.showGroups;
         if (params.showInvited) queryParams.showInvited = params.showInvited;
 
-        const response = await makeApiRequest<ListMembersResponse>(
-          `${params.spaceName}/members`,
-          "GET",
-          undefined,
-          queryParams
-        );
+        const result = await paginate<Member>(async (pageToken, pageSize) => {
+          const response = await makeApiRequest<ListMembersResponse>(
+            `${params.spaceName}/members`,
+            "GET",
+            undefined,
+            { ...queryParams, pageSize, pageToken }
+          );
+          return { items: response.memberships || [], nextPageToken: response.nextPageToken };
+        }, params, extra);
 
-        const members = response.memberships || [];
-        const hasMore = !!response.nextPageToken;
-        const text = formatMembersList(members, params.response_format, hasMore, response.nextPageToken);
+        const members = result.items;
+        const hasMore = !!result.nextPageToken;
+        const text = formatMembersList(members, params.response_format, hasMore, result.nextPageToken);
 
         return {
           content: [{ type: "text", text }],
-          structuredContent: {
+          structuredContent: fitStructuredContent({
             count: members.length,
             memberships: members,
             hasMore,
-            nextPageToken: response.nextPageToken
-          }
+            nextPageToken: result.nextPageToken,
+            pages: result.pages
+          }, "memberships")
         };
       } catch (error) {
         return {
@@ -91,7 +127,8 @@ Examples:
   );
 
   // Get member
-  server.registerTool(
+  registerTool(
+    server,
     "google_chat_get_member",
     {
       title: "Get Google Chat Space Member",
@@ -137,7 +174,8 @@ Examples:
   );
 
   // Create member
-  server.registerTool(
+  registerTool(
+    server,
     "google_chat_create_member",
     {
       title: "Add Google Chat Space Member",
@@ -194,8 +232,131 @@ Examples:
     }
   );
 
+  // Update member
+  registerTool(
+    server,
+    "google_chat_update_member",
+    {
+      title: "Update Google Chat Space Member",
+      description: `Change a member's role in a Google Chat space, keeping their membership and history.
+
+Args:
+  - memberName (string): The resource name of the membership (e.g., 'spaces/AAAA/members/BBBB')
+  - role ('ROLE_MEMBER' | 'ROLE_MANAGER'): The new role (required)
+  - response_format ('markdown' | 'json'): Output format (default: 'markdown')
+
+Returns:
+  The updated membership.
+
+Examples:
+  - "Make Ana a manager" -> params with memberName='spaces/AAAA/members/BBBB', role='ROLE_MANAGER'
+  - "Demote Bo to a regular member" -> params with memberName='spaces/AAAA/members/CCCC', role='ROLE_MEMBER'
+
+Note: A space must keep at least one manager, so demoting its only manager is refused;
+promote someone else first. Use google_chat_list_managers to see who manages a space.`,
+      inputSchema: UpdateMemberInputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true
+      }
+    },
+    async (params: UpdateMemberInput) => {
+      try {
+        const current = await makeApiRequest<Member>(params.memberName, "GET");
+        if (current.role === params.role) {
+          const text = formatMember(current, params.response_format);
+          return {
+            content: [{ type: "text", text: `Member already has role ${params.role}.\n\n${text}` }],
+            structuredContent: current
+          };
+        }
+
+        if (current.role === MembershipRole.ROLE_MANAGER) {
+          const spaceName = params.memberName.split("/members/")[0];
+          const managers = await listManagers(spaceName);
+          if (!managers.some(manager => manager.name !== current.name)) {
+            return {
+              isError: true,
+              content: [{
+                type: "text",
+                text: `Error: \`${params.memberName}\` is the only manager of \`${spaceName}\`. ` +
+                  "Promote another member to manager before demoting them."
+              }]
+            };
+          }
+        }
+
+        const member = await makeApiRequest<Member>(
+          params.memberName,
+          "PATCH",
+          { role: params.role },
+          { updateMask: "role" }
+        );
+
+        const text = formatMember(member, params.response_format);
+
+        return {
+          content: [{ type: "text", text: `Member updated successfully!\n\n${text}` }],
+          structuredContent: member
+        };
+      } catch (error) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: handleApiError(error) }]
+        };
+      }
+    }
+  );
+
+  // List managers
+  registerTool(
+    server,
+    "google_chat_list_managers",
+    {
+      title: "List Google Chat Space Managers",
+      description: `List the managers of a Google Chat space.
+
+Args:
+  - spaceName (string): The resource name of the space (e.g., 'spaces/AAAA1234567')
+  - response_format ('markdown' | 'json'): Output format (default: 'markdown')
+
+Returns:
+  Every membership with the manager role, with names and membership IDs.
+
+Examples:
+  - "Who manages this space?" -> params with spaceName='spaces/AAAA'
+  - "Can I demote Bo without leaving the space unmanaged?" -> params with spaceName='spaces/AAAA'`,
+      inputSchema: ListManagersInputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true
+      }
+    },
+    async (params: ListManagersInput, extra) => {
+      try {
+        const managers = await listManagers(params.spaceName, extra);
+        const text = formatManagersList(params.spaceName, managers, params.response_format);
+
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: { spaceName: params.spaceName, count: managers.length, managers }
+        };
+      } catch (error) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: handleApiError(error) }]
+        };
+      }
+    }
+  );
+
   // Delete member
-  server.registerTool(
+  registerTool(
+    server,
     "google_chat_delete_member",
     {
       title: "Remove Google Chat Space Member",
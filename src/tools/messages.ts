@@ -1,29 +1,126 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerTool } from "./register.js";
 import { makeApiRequest, handleApiError } from "../services/api-client.js";
+import { uploadAttachment } from "../services/uploads.js";
+import { markdownToChat } from "../services/markdown.js";
+import { paginate } from "../services/pagination.js";
+import { readThreadMessages } from "../services/threads.js";
+import { resolveMentionNames, resolveOutgoingMentions, type ResolvedMentions } from "../services/mentions.js";
+import { createProgressReporter, type ProgressCallback } from "../services/progress.js";
 import {
   formatMessage,
-  formatMessagesList
+  formatMessagesList,
+  formatThread,
+  fitStructuredContent
 } from "../services/formatters.js";
 import {
   ListMessagesInputSchema,
+  GetThreadInputSchema,
   GetMessageInputSchema,
   CreateMessageInputSchema,
   UpdateMessageInputSchema,
   DeleteMessageInputSchema,
   type ListMessagesInput,
+  type GetThreadInput,
   type GetMessageInput,
   type CreateMessageInput,
+  type MessageAttachmentInput,
   type UpdateMessageInput,
-  type DeleteMessageInput
+  type DeleteMessageInput,
+  type CardV2Input
 } from "../schemas/index.js";
-import type { Message, ListMessagesResponse } from "../types.js";
+import { MAX_CARD_WIDGETS, MAX_MESSAGE_BYTES, MAX_THREAD_PAGES, ResponseFormat, TextFormat } from "../constants.js";
+import type { Message, ListMessagesResponse, AttachmentDataRef } from "../types.js";
+
+interface UploadedAttachment {
+  filename: string;
+  contentType: string;
+  attachmentDataRef: AttachmentDataRef;
+}
+
+interface ResolvedAttachments {
+  attachments: Record<string, unknown>[];
+  uploaded: UploadedAttachment[];
+  pending?: string;
+}
+
+/**
+ * Turn attachment inputs into Message.attachment entries, uploading inline files first.
+ * Fills `resolved` as it goes so callers can report partial progress on failure.
+ */
+async function resolveAttachments(
+  spaceName: string,
+  inputs: MessageAttachmentInput[],
+  resolved: ResolvedAttachments,
+  onProgress: ProgressCallback
+): Promise<void> {
+  for (const input of inputs) {
+    if ("attachmentDataRef" in input) {
+      resolved.attachments.push({ attachmentDataRef: input.attachmentDataRef });
+    } else if ("driveFileId" in input) {
+      resolved.attachments.push({ driveDataRef: { driveFileId: input.driveFileId } });
+    } else {
+      resolved.pending = input.filename;
+      const result = await uploadAttachment(
+        spaceName,
+        input.filename,
+        input.contentType,
+        Buffer.from(input.contentBase64, "base64"),
+        { onProgress }
+      );
+      resolved.pending = undefined;
+      resolved.uploaded.push({
+        filename: input.filename,
+        contentType: input.contentType,
+        attachmentDataRef: result.attachmentDataRef
+      });
+      resolved.attachments.push({
+        contentName: input.filename,
+        contentType: input.contentType,
+        attachmentDataRef: result.attachmentDataRef
+      });
+    }
+  }
+}
+
+/**
+ * List uploads that went through before a failure, with the full attachmentDataRefs
+ * to pass back so a retry does not upload them again.
+ */
+function describeUploaded(uploaded: UploadedAttachment[]): string {
+  const refs = uploaded
+    .map(u => `- ${u.filename}: \`${JSON.stringify({ attachmentDataRef: u.attachmentDataRef })}\``)
+    .join("\n");
+  return `${uploaded.length} attachment(s) were uploaded successfully. ` +
+    `Retry with these attachments in place of the inline files instead of re-uploading:\n${refs}`;
+}
+
+/**
+ * The text to send, converted from Markdown when the caller asked for it.
+ */
+function messageText(text: string | undefined, format: TextFormat): string | undefined {
+  return text && format === TextFormat.MARKDOWN ? markdownToChat(text) : text;
+}
+
+/**
+ * Check a message's text and cards against Chat's size limit.
+ * Returns an error message when the message is too large.
+ */
+function checkMessageSize(text: string | undefined, cardsV2: CardV2Input[] | undefined): string | undefined {
+  const size = Buffer.byteLength(JSON.stringify({ text, cardsV2 }));
+  if (size > MAX_MESSAGE_BYTES) {
+    return `Error: Message text and cards are ${size} bytes; Google Chat accepts at most ${MAX_MESSAGE_BYTES} bytes.`;
+  }
+  return undefined;
+}
 
 /**
  * Register all message-related tools.
  */
 export function registerMessageTools(server: McpServer): void {
   // List messages
-  server.registerTool(
+  registerTool(
+    server,
     "google_chat_list_messages",
     {
       title: "List Google Chat Messages",
@@ -36,6 +133,10 @@ Args:
   - filter (string): Optional filter (e.g., 'createTime > "2023-01-01T00:00:00Z"')
   - orderBy (string): Order by field (e.g., 'createTime desc')
   - showDeleted (boolean): Include deleted messages (default: false)
+  - groupByThread (boolean): Group the page into threads, each root followed by its replies (default: false)
+  - all (boolean): Fetch every page instead of one, bounded by maxItems and maxPages (default: false)
+  - maxItems (number): Fetch pages until this many messages are collected
+  - maxPages (number): Most pages to fetch when walking pages (default: 20)
   - response_format ('markdown' | 'json'): Output format (default: 'markdown')
 
 Returns:
@@ -43,7 +144,12 @@ Returns:
 
 Examples:
   - "List recent messages" -> params with spaceName='spaces/AAAA'
-  - "Get messages from today" -> params with spaceName='spaces/AAAA', filter='createTime > "2024-01-01T00:00:00Z"'`,
+  - "Get messages from today" -> params with spaceName='spaces/AAAA', filter='createTime > "2024-01-01T00:00:00Z"'
+  - "Who sent the most messages in January?" -> params with spaceName='spaces/AAAA', all=true, filter='createTime > "2024-01-01T00:00:00Z" AND createTime < "2024-02-01T00:00:00Z"'
+
+Note: With all or maxItems, pages are fetched until done and progress is reported after each page.
+Results too large to return in full (text and structured content) start with a summary over all messages (counts by sender, threads, time range).
+nextPageToken continues after every item fetched, including any left out; use a smaller maxItems to read those.`,
       inputSchema: ListMessagesInputSchema,
       annotations: {
         readOnlyHint: true,
@@ -52,35 +158,41 @@ Examples:
         openWorldHint: true
       }
     },
-    async (params: ListMessagesInput) => {
+    async (params: ListMessagesInput, extra) => {
       try {
-        const queryParams: Record<string, unknown> = {
-          pageSize: params.pageSize
-        };
-        if (params.pageToken) queryParams.pageToken = params.pageToken;
+        const queryParams: Record<string, unknown> = {};
         if (params.filter) queryParams.filter = params.filter;
         if (params.orderBy) queryParams.orderBy = params.orderBy;
         if (params.showDeleted) queryParams.showDeleted = params.showDeleted;
 
-        const response = await makeApiRequest<ListMessagesResponse>(
-          `${params.spaceName}/messages`,
-          "GET",
-          undefined,
-          queryParams
-        );
-
-        const messages = response.messages || [];
-        const hasMore = !!response.nextPageToken;
-        const text = formatMessagesList(messages, params.response_format, hasMore, response.nextPageToken);
+        const result = await paginate<Message>(async (pageToken, pageSize) => {
+          const response = await makeApiRequest<ListMessagesResponse>(
+            `${params.spaceName}/messages`,
+            "GET",
+            undefined,
+            { ...queryParams, pageSize, pageToken }
+          );
+          return { items: response.messages || [], nextPageToken: response.nextPageToken };
+        }, params, extra);
+
+        const messages = result.items;
+        const hasMore = !!result.nextPageToken;
+        if (params.response_format === ResponseFormat.MARKDOWN) {
+          await resolveMentionNames(messages);
+        }
+        const text = formatMessagesList(messages, params.response_format, hasMore, result.nextPageToken, {
+          groupByThread: params.groupByThread
+        });
 
         return {
           content: [{ type: "text", text }],
-          structuredContent: {
+          structuredContent: fitStructuredContent({
             count: messages.length,
             messages,
             hasMore,
-            nextPageToken: response.nextPageToken
-          }
+            nextPageToken: result.nextPageToken,
+            pages: result.pages
+          }, "messages")
         };
       } catch (error) {
         return {
@@ -92,7 +204,8 @@ Examples:
   );
 
   // Get message
-  server.registerTool(
+  registerTool(
+    server,
     "google_chat_get_message",
     {
       title: "Get Google Chat Message",
@@ -122,6 +235,9 @@ Examples:
           "GET"
         );
 
+        if (params.response_format === ResponseFormat.MARKDOWN) {
+          await resolveMentionNames([message]);
+        }
         const text = formatMessage(message, params.response_format);
 
         return {
@@ -137,8 +253,93 @@ Examples:
     }
   );
 
+  // Get thread
+  registerTool(
+    server,
+    "google_chat_get_thread",
+    {
+      title: "Get Google Chat Thread",
+      description: `Get a whole conversation: the thread's root message and all of its replies, oldest first.
+
+Args:
+  - threadName (string): The resource name of the thread (e.g., 'spaces/AAAA/threads/BBBB')
+  - messageName (string): Any message in the thread, used instead of threadName
+  - pageToken (string): Token to continue a thread too long to return at once
+  - showDeleted (boolean): Include deleted messages (default: false)
+  - response_format ('markdown' | 'json'): Output format (default: 'markdown')
+
+Returns:
+  The thread name and its messages in order, with full text.
+
+Examples:
+  - "Show me this conversation" -> params with messageName='spaces/AAAA/messages/CCCC'
+  - "Read the thread" -> params with threadName='spaces/AAAA/threads/BBBB'
+
+Note: Provide threadName or messageName. Up to ${MAX_THREAD_PAGES * 100} messages are returned per call;
+longer threads return a pageToken to continue.`,
+      inputSchema: GetThreadInputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true
+      }
+    },
+    async (params: GetThreadInput, extra) => {
+      if (!params.threadName && !params.messageName) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: "Error: Provide threadName or messageName." }]
+        };
+      }
+
+      try {
+        let threadName = params.threadName;
+        if (!threadName) {
+          const message = await makeApiRequest<Message>(params.messageName!, "GET");
+          if (!message.thread?.name) {
+            return {
+              isError: true,
+              content: [{ type: "text", text: `Error: Message ${params.messageName} is not part of a thread.` }]
+            };
+          }
+          threadName = message.thread.name;
+        }
+        const result = await readThreadMessages(threadName, {
+          pageToken: params.pageToken,
+          showDeleted: params.showDeleted
+        }, extra);
+
+        const messages = result.items;
+        const pageToken = result.nextPageToken;
+        const hasMore = !!pageToken;
+        if (params.response_format === ResponseFormat.MARKDOWN) {
+          await resolveMentionNames(messages);
+        }
+        const text = formatThread(threadName, messages, params.response_format, hasMore, pageToken, !!params.pageToken);
+
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: fitStructuredContent({
+            threadName,
+            count: messages.length,
+            messages,
+            hasMore,
+            nextPageToken: pageToken
+          }, "messages")
+        };
+      } catch (error) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: handleApiError(error) }]
+        };
+      }
+    }
+  );
+
   // Create message
-  server.registerTool(
+  registerTool(
+    server,
     "google_chat_create_message",
     {
       title: "Send Google Chat Message",
@@ -146,7 +347,22 @@ Examples:
 
 Args:
   - spaceName (string): The resource name of the space (required)
-  - text (string): The message text content (required, max 4096 chars)
+  - text (string): The message text content (max 4096 chars; required unless attachments or cards are given)
+  - format ('chat' | 'markdown'): 'markdown' converts standard Markdown to Chat formatting before sending (default: 'chat')
+  - mentions (string[]): Users to mention at the start of the message: emails, 'users/123' or 'all' (optional)
+  - cardsV2 (array): Cards to send (optional). Each is { cardId, card: { header?, sections } } where
+      header is { title, subtitle?, imageUrl?, imageType?: 'SQUARE' | 'CIRCLE' } and each section is
+      { header?, collapsible?, widgets } with widgets of one of these shapes:
+        { textParagraph: { text } }
+        { decoratedText: { topLabel?, text, bottomLabel?, startIcon?, wrapText?, button?, onClick? } }
+        { image: { imageUrl, altText? } }
+        { buttonList: { buttons: [{ text, onClick: { openLink: { url } } }] } }
+        { divider: {} }
+  - fallbackText (string): Plain-text summary of the cards for notifications (optional)
+  - attachments (array): Files to attach (optional, max 10). Each entry is one of:
+      { attachmentDataRef: { resourceName, attachmentUploadToken } } from google_chat_upload_attachment
+      { driveFileId } for a Google Drive file
+      { filename, contentType, contentBase64 } to upload inline before sending
   - threadKey (string): Thread key to reply to a specific thread (optional)
   - threadName (string): Thread name to reply to a specific thread (optional)
   - messageReplyOption (string): How to handle thread replies (optional)
@@ -158,7 +374,20 @@ Returns:
 
 Examples:
   - "Send a message" -> params with spaceName='spaces/AAAA', text='Hello everyone!'
-  - "Reply to a thread" -> params with spaceName='spaces/AAAA', text='Reply', threadName='spaces/AAAA/threads/BBBB'`,
+  - "Reply to a thread" -> params with spaceName='spaces/AAAA', text='Reply', threadName='spaces/AAAA/threads/BBBB'
+  - "Ask Alice to review" -> params with spaceName='spaces/AAAA', text='@alice@example.com can you review this?'
+  - "Ping everyone" -> params with spaceName='spaces/AAAA', mentions=['all'], text='Standup in 5 minutes'
+  - "Send a Markdown summary" -> params with spaceName='spaces/AAAA', format='markdown', text='## Summary\\n\\n**Done:** [PR 12](https://example.com/pr/12)'
+  - "Send a file" -> params with spaceName='spaces/AAAA', text='Report', attachments=[{ filename: 'report.pdf', contentType: 'application/pdf', contentBase64: '...' }]
+  - "Send a status card" -> params with spaceName='spaces/AAAA', fallbackText='Deploy succeeded', cardsV2=[{ cardId: 'status', card: { header: { title: 'Deploy succeeded' }, sections: [{ widgets: [{ decoratedText: { topLabel: 'Service', text: 'api' } }, { buttonList: { buttons: [{ text: 'Open logs', onClick: { openLink: { url: 'https://example.com/logs' } } }] } }] }] } }]
+
+Note: Inline files are uploaded first. If a later upload or the send fails, the error lists the attachmentDataRefs (resourceName and attachmentUploadToken) already uploaded, so the send can be retried without uploading them again.
+Write @email (e.g. @alice@example.com) or @all in text to mention people; emails are resolved through the
+space's members, so mentioned users must belong to the space.
+Chat formatting differs from Markdown: *bold*, _italic_, ~strike~ and <url|label> links. With format='markdown',
+headings become bold lines, tables become code blocks and literal characters Chat would read as formatting are escaped.
+Cards can hold at most ${MAX_CARD_WIDGETS} widgets each, and text plus cards must fit in ${MAX_MESSAGE_BYTES} bytes.
+Google Chat only accepts cards from apps, so sending cards needs service account authentication.`,
       inputSchema: CreateMessageInputSchema,
       annotations: {
         readOnlyHint: false,
@@ -167,11 +396,79 @@ Examples:
         openWorldHint: true
       }
     },
-    async (params: CreateMessageInput) => {
+    async (params: CreateMessageInput, extra) => {
+      if (!params.text && !params.mentions?.length && !params.attachments?.length && !params.cardsV2?.length) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: "Error: Provide text, mentions, cards or attachments." }]
+        };
+      }
+
+      let messageBody: string | undefined;
+      const mentions: ResolvedMentions = {};
       try {
-        const messageData: Record<string, unknown> = {
-          text: params.text
+        const text = await resolveOutgoingMentions(params.spaceName, params.text, params.mentions, mentions);
+        messageBody = messageText(text, params.format);
+      } catch (error) {
+        return {
+          isError: true,
+          content: [{
+            type: "text",
+            text: mentions.pending
+              ? `${handleApiError(error)}\n\nCould not mention '${mentions.pending}'; the message was not sent. Mentioned users must be members of the space.`
+              : handleApiError(error)
+          }]
+        };
+      }
+      const sizeError = checkMessageSize(messageBody, params.cardsV2);
+      if (sizeError) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: sizeError }]
         };
+      }
+
+      const resolved: ResolvedAttachments = { attachments: [], uploaded: [] };
+      try {
+        await resolveAttachments(
+          params.spaceName,
+          params.attachments || [],
+          resolved,
+          createProgressReporter(extra)
+        );
+      } catch (error) {
+        const failure = `${handleApiError(error)}\n\nUploading attachment '${resolved.pending}' failed; the message was not sent.`;
+        if (resolved.uploaded.length === 0) {
+          return {
+            isError: true,
+            content: [{ type: "text", text: failure }]
+          };
+        }
+
+        return {
+          isError: true,
+          content: [{ type: "text", text: `${failure} ${describeUploaded(resolved.uploaded)}` }],
+          structuredContent: {
+            sent: false,
+            uploadedAttachments: resolved.uploaded
+          }
+        };
+      }
+
+      try {
+        const messageData: Record<string, unknown> = {};
+        if (messageBody) {
+          messageData.text = messageBody;
+        }
+        if (params.cardsV2) {
+          messageData.cardsV2 = params.cardsV2;
+        }
+        if (params.fallbackText) {
+          messageData.fallbackText = params.fallbackText;
+        }
+        if (resolved.attachments.length > 0) {
+          messageData.attachment = resolved.attachments;
+        }
 
         // Handle thread configuration
         if (params.threadKey || params.threadName) {
@@ -206,16 +503,31 @@ Examples:
           structuredContent: message
         };
       } catch (error) {
+        if (resolved.uploaded.length === 0) {
+          return {
+            isError: true,
+            content: [{ type: "text", text: handleApiError(error) }]
+          };
+        }
+
         return {
           isError: true,
-          content: [{ type: "text", text: handleApiError(error) }]
+          content: [{
+            type: "text",
+            text: `${handleApiError(error)}\n\nThe message was not sent. ${describeUploaded(resolved.uploaded)}`
+          }],
+          structuredContent: {
+            sent: false,
+            uploadedAttachments: resolved.uploaded
+          }
         };
       }
     }
   );
 
   // Update message
-  server.registerTool(
+  registerTool(
+    server,
     "google_chat_update_message",
     {
       title: "Update Google Chat Message",
@@ -223,7 +535,9 @@ Examples:
 
 Args:
   - messageName (string): The resource name of the message to update (required)
-  - text (string): The new message text content (required, max 4096 chars)
+  - text (string): The new message text content (max 4096 chars)
+  - format ('chat' | 'markdown'): 'markdown' converts standard Markdown to Chat formatting (default: 'chat')
+  - cardsV2 (array): Replacement cards, same shape as in google_chat_create_message; [] removes all cards
   - response_format ('markdown' | 'json'): Output format (default: 'markdown')
 
 Returns:
@@ -231,8 +545,12 @@ Returns:
 
 Examples:
   - "Edit a message" -> params with messageName='spaces/AAAA/messages/BBBB', text='Updated content'
+  - "Add a mention" -> params with messageName='spaces/AAAA/messages/BBBB', text='@alice@example.com can you review this?'
+  - "Update a status card" -> params with messageName='spaces/AAAA/messages/BBBB', cardsV2=[{ cardId: 'status', card: { ... } }]
 
-Note: Only the text content can be updated. Cards and attachments cannot be modified.`,
+Note: Provide text, cardsV2 or both; only the fields given are changed. Attachments cannot be modified,
+and only messages sent by the app can have their cards updated.
+@email and @all in text become mentions as in google_chat_create_message.`,
       inputSchema: UpdateMessageInputSchema,
       annotations: {
         readOnlyHint: false,
@@ -242,16 +560,54 @@ Note: Only the text content can be updated. Cards and attachments cannot be modi
       }
     },
     async (params: UpdateMessageInput) => {
+      if (params.text === undefined && params.cardsV2 === undefined) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: "Error: Provide text, cardsV2 or both." }]
+        };
+      }
+      let messageBody: string | undefined;
+      const mentions: ResolvedMentions = {};
       try {
-        const messageData = {
-          text: params.text
+        const spaceName = params.messageName.split("/messages/")[0];
+        const text = await resolveOutgoingMentions(spaceName, params.text, undefined, mentions);
+        messageBody = messageText(text, params.format);
+      } catch (error) {
+        return {
+          isError: true,
+          content: [{
+            type: "text",
+            text: mentions.pending
+              ? `${handleApiError(error)}\n\nCould not mention '${mentions.pending}'; the message was not updated. Mentioned users must be members of the space.`
+              : handleApiError(error)
+          }]
         };
+      }
+      const sizeError = checkMessageSize(messageBody, params.cardsV2);
+      if (sizeError) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: sizeError }]
+        };
+      }
+
+      try {
+        const messageData: Record<string, unknown> = {};
+        const updateMask: string[] = [];
+        if (messageBody !== undefined) {
+          messageData.text = messageBody;
+          updateMask.push("text");
+        }
+        if (params.cardsV2 !== undefined) {
+          messageData.cardsV2 = params.cardsV2;
+          updateMask.push("cards_v2");
+        }
 
         const message = await makeApiRequest<Message>(
           params.messageName,
           "PATCH",
           messageData,
-          { updateMask: "text" }
+          { updateMask: updateMask.join(",") }
         );
 
         const text = formatMessage(message, params.response_format);
@@ -270,7 +626,8 @@ Note: Only the text content can be updated. Cards and attachments cannot be modi
   );
 
   // Delete message
-  server.registerTool(
+  registerTool(
+    server,
     "google_chat_delete_message",
     {
       title: "Delete Google Chat Message",
@@ -1,8 +1,11 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerTool } from "./register.js";
 import { makeApiRequest, handleApiError } from "../services/api-client.js";
+import { paginate } from "../services/pagination.js";
 import {
   formatReaction,
-  formatReactionsList
+  formatReactionsList,
+  fitStructuredContent
 } from "../services/formatters.js";
 import {
   ListReactionsInputSchema,
@@ -19,7 +22,8 @@ import type { Reaction, ListReactionsResponse } from "../types.js";
  */
 export function registerReactionTools(server: McpServer): void {
   // List reactions
-  server.registerTool(
+  registerTool(
+    server,
     "google_chat_list_reactions",
     {
       title: "List Google Chat Message Reactions",
@@ -30,6 +34,9 @@ Args:
   - pageSize (number): Maximum number of reactions to return, 1-100 (default: 25)
   - pageToken (string): Token for pagination
   - filter (string): Optional filter for reactions (e.g., 'emoji.unicode = "👍"')
+  - all (boolean): Fetch every page instead of one, bounded by maxItems and maxPages (default: false)
+  - maxItems (number): Fetch pages until this many reactions are collected
+  - maxPages (number): Most pages to fetch when walking pages (default: 20)
   - response_format ('markdown' | 'json'): Output format (default: 'markdown')
 
 Returns:
@@ -37,7 +44,12 @@ Returns:
 
 Examples:
   - "List all reactions" -> params with messageName='spaces/AAAA/messages/BBBB'
-  - "List thumbs up only" -> params with messageName='spaces/AAAA/messages/BBBB', filter='emoji.unicode = "👍"'`,
+  - "List thumbs up only" -> params with messageName='spaces/AAAA/messages/BBBB', filter='emoji.unicode = "👍"'
+  - "Who reacted to this announcement?" -> params with messageName='spaces/AAAA/messages/BBBB', all=true
+
+Note: With all or maxItems, pages are fetched until done and progress is reported after each page.
+Results too large to return in full (text and structured content) start with a summary over all reactions (counts by emoji and user).
+nextPageToken continues after every item fetched, including any left out; use a smaller maxItems to read those.`,
       inputSchema: ListReactionsInputSchema,
       annotations: {
         readOnlyHint: true,
@@ -46,33 +58,34 @@ Examples:
         openWorldHint: true
       }
     },
-    async (params: ListReactionsInput) => {
+    async (params: ListReactionsInput, extra) => {
       try {
-        const queryParams: Record<string, unknown> = {
-          pageSize: params.pageSize
-        };
-        if (params.pageToken) queryParams.pageToken = params.pageToken;
+        const queryParams: Record<string, unknown> = {};
         if (params.filter) queryParams.filter = params.filter;
 
-        const response = await makeApiRequest<ListReactionsResponse>(
-          `${params.messageName}/reactions`,
-          "GET",
-          undefined,
-          queryParams
-        );
+        const result = await paginate<Reaction>(async (pageToken, pageSize) => {
+          const response = await makeApiRequest<ListReactionsResponse>(
+            `${params.messageName}/reactions`,
+            "GET",
+            undefined,
+            { ...queryParams, pageSize, pageToken }
+          );
+          return { items: response.reactions || [], nextPageToken: response.nextPageToken };
+        }, params, extra);
 
-        const reactions = response.reactions || [];
-        const hasMore = !!response.nextPageToken;
-        const text = formatReactionsList(reactions, params.response_format, hasMore, response.nextPageToken);
+        const reactions = result.items;
+        const hasMore = !!result.nextPageToken;
+        const text = formatReactionsList(reactions, params.response_format, hasMore, result.nextPageToken);
 
         return {
           content: [{ type: "text", text }],
-          structuredContent: {
+          structuredContent: fitStructuredContent({
             count: reactions.length,
             reactions,
             hasMore,
-            nextPageToken: response.nextPageToken
-          }
+            nextPageToken: result.nextPageToken,
+            pages: result.pages
+          }, "reactions")
         };
       } catch (error) {
         return {
@@ -84,7 +97,8 @@ Examples:
   );
 
   // Create reaction
-  server.registerTool(
+  registerTool(
+    server,
     "google_chat_create_reaction",
     {
       title: "Add Google Chat Reaction",
@@ -141,7 +155,8 @@ Note: You can only add one reaction per emoji per user. Adding the same emoji ag
   );
 
   // Delete reaction
-  server.registerTool(
+  registerTool(
+    server,
     "google_chat_delete_reaction",
     {
       title: "Remove Google Chat Reaction",
@@ -0,0 +1,106 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { CallToolResult, ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { trackRetries } from "../services/retry.js";
+import { isImpersonationAllowed, runAsUser } from "../services/impersonation.js";
+import { isReadOnlyMode } from "../services/api-client.js";
+import { getGoogleCredentials, runWithRequestCredentials } from "../services/tenancy.js";
+import { isToolPermitted } from "../services/http-auth.js";
+import type { ToolExtra } from "../services/progress.js";
+
+export interface ToolConfig<Schema extends z.AnyZodObject> {
+  title: string;
+  description: string;
+  inputSchema: Schema;
+  annotations: ToolAnnotations;
+}
+
+export type ToolHandler<Schema extends z.AnyZodObject> = (
+  params: z.infer<Schema>,
+  extra: ToolExtra
+) => CallToolResult | Promise<CallToolResult>;
+
+const ActAsSchema = z.string()
+  .email()
+  .optional()
+  .describe("Workspace user email to act as via domain-wide delegation (must be allowlisted)");
+
+// Every tool name passed to registerTool, including those read-only mode leaves out
+const toolNames = new Set<string>();
+
+/**
+ * Names of every tool registered so far, whether or not read-only mode exposed it.
+ */
+export function getToolNames(): string[] {
+  return [...toolNames];
+}
+
+/**
+ * Register a tool with the MCP server so that it:
+ *  - is not registered in read-only mode unless annotated readOnlyHint
+ *  - is only callable by HTTP callers whose API key permits it
+ *  - uses the session's own Google credentials when the request carries them
+ *  - accepts an optional `actAs` user to impersonate for that call
+ *  - reports how many API requests had to be retried
+ */
+export function registerTool<Schema extends z.AnyZodObject>(
+  server: McpServer,
+  name: string,
+  config: ToolConfig<Schema>,
+  handler: ToolHandler<Schema>
+): void {
+  toolNames.add(name);
+
+  // Mutating tools are never exposed in read-only mode
+  if (isReadOnlyMode() && config.annotations.readOnlyHint !== true) {
+    return;
+  }
+
+  const inputSchema = config.inputSchema.extend({ actAs: ActAsSchema });
+
+  server.registerTool(name, { ...config, inputSchema }, async (params, extra): Promise<CallToolResult> => {
+    const { actAs, ...args } = params as z.infer<Schema> & { actAs?: string };
+    const credentials = getGoogleCredentials(extra.authInfo);
+
+    if (!isToolPermitted(extra.authInfo, name)) {
+      return {
+        isError: true,
+        content: [{ type: "text", text: `Error: This API key is not permitted to call ${name}.` }]
+      };
+    }
+
+    if (actAs && credentials) {
+      return {
+        isError: true,
+        content: [{ type: "text", text: "Error: actAs cannot be used when the request carries its own Google credentials." }]
+      };
+    }
+    if (actAs && !isImpersonationAllowed(actAs)) {
+      return {
+        isError: true,
+        content: [{ type: "text", text: `Error: Acting as ${actAs} is not permitted. Add the user to GOOGLE_IMPERSONATE_ALLOWLIST.` }]
+      };
+    }
+
+    let call = async () => handler(args as z.infer<Schema>, extra);
+    if (credentials) {
+      const inner = call;
+      call = () => runWithRequestCredentials(extra, inner);
+    } else if (actAs) {
+      const inner = call;
+      call = () => runAsUser(actAs, inner);
+    }
+
+    const { result, retries } = await trackRetries(call);
+    if (retries === 0) {
+      return result;
+    }
+
+    const note = `Note: ${retries} API request${retries === 1 ? " was" : "s were"} retried after rate limiting or transient errors.`;
+    return {
+      ...result,
+      content: [...result.content, { type: "text", text: note }],
+      _meta: { ...result._meta, retries }
+    };
+  });
+}
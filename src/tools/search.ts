@@ -0,0 +1,111 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerTool } from "./register.js";
+import { handleApiError } from "../services/api-client.js";
+import { searchMessages } from "../services/search.js";
+import { resolveMentionNames } from "../services/mentions.js";
+import { createProgressReporter } from "../services/progress.js";
+import { formatSearchResults } from "../services/formatters.js";
+import {
+  SearchMessagesInputSchema,
+  type SearchMessagesInput
+} from "../schemas/index.js";
+import { ResponseFormat, MAX_SEARCH_SPACES, MAX_SEARCH_REGEX_LENGTH, SEARCH_REGEX_TIMEOUT_MS } from "../constants.js";
+
+/**
+ * Register message search tools.
+ */
+export function registerSearchTools(server: McpServer): void {
+  registerTool(
+    server,
+    "google_chat_search_messages",
+    {
+      title: "Search Google Chat Messages",
+      description: `Search message text across Google Chat spaces.
+
+Args:
+  - query (string): Keywords that must all appear, case-insensitive (required)
+  - regex (boolean): Treat query as a regular expression instead (default: false)
+  - sender (string): Only messages from this sender: 'users/123', an email or a display name
+  - startTime (string): Only messages created after this date or RFC 3339 time
+  - endTime (string): Only messages created before this date or RFC 3339 time
+  - spaces (string[]): Spaces to search (default: your ${MAX_SEARCH_SPACES} most recently active spaces)
+  - hasAttachment (boolean): Only messages with (true) or without (false) attachments
+  - hasReaction (boolean): Only messages with (true) or without (false) reactions
+  - maxResults (number): Maximum number of hits to return, 1-100 (default: 20)
+  - maxMessagesPerSpace (number): Most messages to scan in each space, newest first (default: 1000)
+  - response_format ('markdown' | 'json'): Output format (default: 'markdown')
+
+Returns:
+  Hits ranked by relevance, then recency. Each has the space, sender, time, a snippet
+  with the match in bold, the messages just before and after, and a link to open it in Google Chat.
+
+Examples:
+  - "Find the message about the deadline in December 2023" -> params with query='deadline', startTime='2023-12-01', endTime='2024-01-01'
+  - "What did Alice say about the budget?" -> params with query='budget', sender='alice@example.com'
+  - "Find ticket numbers in the support space" -> params with query='TICKET-\\\\d+', regex=true, spaces=['spaces/AAAA']
+
+Note: Spaces are scanned a few at a time with progress reported after each, until the request is cancelled.
+Set startTime and endTime whenever possible: the time window is applied by the API, which keeps
+scans short. A regex can be at most ${MAX_SEARCH_REGEX_LENGTH} characters; one that takes over
+${SEARCH_REGEX_TIMEOUT_MS / 1000}s to match a space's messages stops the search.
+The result says which spaces had more messages than maxMessagesPerSpace.`,
+      inputSchema: SearchMessagesInputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true
+      }
+    },
+    async (params: SearchMessagesInput, extra) => {
+      const startTime = params.startTime ? Date.parse(params.startTime) : undefined;
+      const endTime = params.endTime ? Date.parse(params.endTime) : undefined;
+      if (Number.isNaN(startTime) || Number.isNaN(endTime)) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: "Error: startTime and endTime must be dates like 2024-05-01 or RFC 3339 times." }]
+        };
+      }
+
+      if (params.regex) {
+        if (params.query.length > MAX_SEARCH_REGEX_LENGTH) {
+          return {
+            isError: true,
+            content: [{ type: "text", text: `Error: Regular expressions can be at most ${MAX_SEARCH_REGEX_LENGTH} characters long.` }]
+          };
+        }
+        try {
+          new RegExp(params.query);
+        } catch (error) {
+          return {
+            isError: true,
+            content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}.` }]
+          };
+        }
+      }
+
+      try {
+        const result = await searchMessages({
+          ...params,
+          startTime: startTime !== undefined ? new Date(startTime).toISOString() : undefined,
+          endTime: endTime !== undefined ? new Date(endTime).toISOString() : undefined
+        }, createProgressReporter(extra), extra.signal);
+
+        if (params.response_format === ResponseFormat.MARKDOWN) {
+          await resolveMentionNames(result.hits.map(hit => hit.message));
+        }
+        const text = formatSearchResults(params.query, result, params.response_format);
+
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: result
+        };
+      } catch (error) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: handleApiError(error) }]
+        };
+      }
+    }
+  );
+}
@@ -1,8 +1,11 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerTool } from "./register.js";
 import { makeApiRequest, handleApiError } from "../services/api-client.js";
+import { paginate } from "../services/pagination.js";
 import {
   formatSpace,
-  formatSpacesList
+  formatSpacesList,
+  fitStructuredContent
 } from "../services/formatters.js";
 import {
   ListSpacesInputSchema,
@@ -28,7 +31,8 @@ import { ResponseFormat } from "../constants.js";
  */
 export function registerSpaceTools(server: McpServer): void {
   // List spaces
-  server.registerTool(
+  registerTool(
+    server,
     "google_chat_list_spaces",
     {
       title: "List Google Chat Spaces",
@@ -38,6 +42,9 @@ Args:
   - pageSize (number): Maximum number of spaces to return, 1-100 (default: 25)
   - pageToken (string): Token for pagination to get the next page
   - filter (string): Optional filter (e.g., 'spaceType = "SPACE"')
+  - all (boolean): Fetch every page instead of one, bounded by maxItems and maxPages (default: false)
+  - maxItems (number): Fetch pages until this many spaces are collected
+  - maxPages (number): Most pages to fetch when walking pages (default: 20)
   - response_format ('markdown' | 'json'): Output format (default: 'markdown')
 
 Returns:
@@ -46,7 +53,12 @@ Returns:
 Examples:
   - "List all my spaces" -> params with no filter
   - "List only group spaces" -> params with filter='spaceType = "SPACE"'
-  - "Get next page" -> params with pageToken from previous response`,
+  - "Get next page" -> params with pageToken from previous response
+  - "How many spaces am I in?" -> params with all=true
+
+Note: With all or maxItems, pages are fetched until done and progress is reported after each page.
+Results too large to return in full (text and structured content) start with a summary over all spaces (counts by type).
+nextPageToken continues after every item fetched, including any left out; use a smaller maxItems to read those.`,
       inputSchema: ListSpacesInputSchema,
       annotations: {
         readOnlyHint: true,
@@ -55,33 +67,34 @@ Examples:
         openWorldHint: true
       }
     },
-    async (params: ListSpacesInput) => {
+    async (params: ListSpacesInput, extra) => {
       try {
-        const queryParams: Record<string, unknown> = {
-          pageSize: params.pageSize
-        };
-        if (params.pageToken) queryParams.pageToken = params.pageToken;
+        const queryParams: Record<string, unknown> = {};
         if (params.filter) queryParams.filter = params.filter;
 
-        const response = await makeApiRequest<ListSpacesResponse>(
-          "spaces",
-          "GET",
-          undefined,
-          queryParams
-        );
+        const result = await paginate<Space>(async (pageToken, pageSize) => {
+          const response = await makeApiRequest<ListSpacesResponse>(
+            "spaces",
+            "GET",
+            undefined,
+            { ...queryParams, pageSize, pageToken }
+          );
+          return { items: response.spaces || [], nextPageToken: response.nextPageToken };
+        }, params, extra);
 
-        const spaces = response.spaces || [];
-        const hasMore = !!response.nextPageToken;
-        const text = formatSpacesList(spaces, params.response_format, hasMore, response.nextPageToken);
+        const spaces = result.items;
+        const hasMore = !!result.nextPageToken;
+        const text = formatSpacesList(spaces, params.response_format, hasMore, result.nextPageToken);
 
         return {
           content: [{ type: "text", text }],
-          structuredContent: {
+          structuredContent: fitStructuredContent({
             count: spaces.length,
             spaces,
             hasMore,
-            nextPageToken: response.nextPageToken
-          }
+            nextPageToken: result.nextPageToken,
+            pages: result.pages
+          }, "spaces")
         };
       } catch (error) {
         return {
@@ -93,7 +106,8 @@ Examples:
   );
 
   // Get space
-  server.registerTool(
+  registerTool(
+    server,
     "google_chat_get_space",
     {
       title: "Get Google Chat Space",
@@ -139,7 +153,8 @@ Examples:
   );
 
   // Create space
-  server.registerTool(
+  registerTool(
+    server,
     "google_chat_create_space",
     {
       title: "Create Google Chat Space",
@@ -204,7 +219,8 @@ Examples:
   );
 
   // Update space
-  server.registerTool(
+  registerTool(
+    server,
     "google_chat_update_space",
     {
       title: "Update Google Chat Space",
@@ -283,7 +299,8 @@ Examples:
   );
 
   // Delete space
-  server.registerTool(
+  registerTool(
+    server,
     "google_chat_delete_space",
     {
       title: "Delete Google Chat Space",
@@ -328,7 +345,8 @@ Warning: This permanently deletes the space and all its messages.`,
   );
 
   // Search spaces
-  server.registerTool(
+  registerTool(
+    server,
     "google_chat_search_spaces",
     {
       title: "Search Google Chat Spaces",
@@ -338,6 +356,9 @@ Args:
   - query (string): Search query for finding spaces (required)
   - pageSize (number): Maximum number of results, 1-100 (default: 25)
   - pageToken (string): Token for pagination
+  - all (boolean): Fetch every page instead of one, bounded by maxItems and maxPages (default: false)
+  - maxItems (number): Fetch pages until this many spaces are collected
+  - maxPages (number): Most pages to fetch when walking pages (default: 20)
   - response_format ('markdown' | 'json'): Output format (default: 'markdown')
 
 Returns:
@@ -347,7 +368,7 @@ Examples:
   - "Search for engineering spaces" -> params with query='engineering'
   - "Find project spaces" -> params with query='project'
 
-Note: Requires domain-wide delegation for service accounts.`,
+Note: Requires user authentication. With a service account, set GOOGLE_IMPERSONATE_USER or pass actAs to search as a workspace user via domain-wide delegation.`,
       inputSchema: SearchSpacesInputSchema,
       annotations: {
         readOnlyHint: true,
@@ -356,34 +377,34 @@ Note: Requires domain-wide delegation for service accounts.`,
         openWorldHint: true
       }
     },
-    async (params: SearchSpacesInput) => {
+    async (params: SearchSpacesInput, extra) => {
       try {
-        const queryParams: Record<string, unknown> = {
-          query: params.query,
-          pageSize: params.pageSize
-        };
-        if (params.pageToken) queryParams.pageToken = params.pageToken;
-
-        const response = await makeApiRequest<SearchSpacesResponse>(
-          "spaces:search",
-          "GET",
-          undefined,
-          queryParams
-        );
-
-        const spaces = response.spaces || [];
-        const hasMore = !!response.nextPageToken;
-        const text = formatSpacesList(spaces, params.response_format, hasMore, response.nextPageToken);
+        let totalSize: number | undefined;
+        const result = await paginate<Space>(async (pageToken, pageSize) => {
+          const response = await makeApiRequest<SearchSpacesResponse>(
+            "spaces:search",
+            "GET",
+            undefined,
+            { query: params.query, pageSize, pageToken }
+          );
+          totalSize ??= response.totalSize;
+          return { items: response.spaces || [], nextPageToken: response.nextPageToken };
+        }, params, extra);
+
+        const spaces = result.items;
+        const hasMore = !!result.nextPageToken;
+        const text = formatSpacesList(spaces, params.response_format, hasMore, result.nextPageToken);
 
         return {
           content: [{ type: "text", text }],
-          structuredContent: {
+          structuredContent: fitStructuredContent({
             count: spaces.length,
-            totalSize: response.totalSize,
+            totalSize,
             spaces,
             hasMore,
-            nextPageToken: response.nextPageToken
-          }
+            nextPageToken: result.nextPageToken,
+            pages: result.pages
+          }, "spaces")
         };
       } catch (error) {
         return {
@@ -395,7 +416,8 @@ Note: Requires domain-wide delegation for service accounts.`,
   );
 
   // Find direct message
-  server.registerTool(
+  registerTool(
+    server,
     "google_chat_find_direct_message",
     {
       title: "Find Direct Message Space",
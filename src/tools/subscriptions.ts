@@ -0,0 +1,215 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerTool } from "./register.js";
+import { handleApiError } from "../services/api-client.js";
+import { createSubscriptionManager } from "../services/subscriptions.js";
+import { onSpaceEvent } from "../services/event-hub.js";
+import { getAccessTokenExpiry, getGoogleCredentials } from "../services/tenancy.js";
+import {
+  formatSpaceEventsList,
+  formatSubscription,
+  formatSubscriptionsList
+} from "../services/formatters.js";
+import {
+  SubscribeSpaceInputSchema,
+  UnsubscribeSpaceInputSchema,
+  ListSubscriptionsInputSchema,
+  type SubscribeSpaceInput,
+  type UnsubscribeSpaceInput,
+  type ListSubscriptionsInput
+} from "../schemas/index.js";
+import { ResponseFormat } from "../constants.js";
+
+/**
+ * Register subscription tools. Subscriptions belong to this server instance
+ * (one per stdio process or HTTP session) and stop when it closes.
+ */
+export function registerSubscriptionTools(server: McpServer): void {
+  // New events are pushed to the client as log notifications
+  const manager = createSubscriptionManager(async (subscription, events) => {
+    if (!server.isConnected()) {
+      return;
+    }
+    await server.server.sendLoggingMessage({
+      level: "info",
+      logger: "google-chat-subscriptions",
+      data: {
+        subscriptionId: subscription.id,
+        spaceName: subscription.spaceName,
+        changes: formatSpaceEventsList(events, ResponseFormat.MARKDOWN, false),
+        spaceEvents: events
+      }
+    }, server.server.transport?.sessionId);
+  }, {
+    // A subscription that stops on its own says so, rather than going quiet
+    onEnd: async (subscription, reason) => {
+      if (!server.isConnected()) {
+        return;
+      }
+      await server.server.sendLoggingMessage({
+        level: "warning",
+        logger: "google-chat-subscriptions",
+        data: {
+          subscriptionId: subscription.id,
+          spaceName: subscription.spaceName,
+          ended: true,
+          reason: `${reason} Subscribe again to keep watching the space.`
+        }
+      }, server.server.transport?.sessionId);
+    }
+  });
+
+  // Events pushed to the HTTP receiver reach subscriptions without waiting for a poll
+  const stopListening = onSpaceEvent((spaceName, event) => {
+    void manager.deliver(spaceName, [event]);
+  });
+
+  const onclose = server.server.onclose;
+  server.server.onclose = () => {
+    stopListening();
+    manager.stopAll();
+    onclose?.();
+  };
+
+  // Subscribe to a space
+  registerTool(
+    server,
+    "google_chat_subscribe_space",
+    {
+      title: "Subscribe to Google Chat Space Changes",
+      description: `Watch a Google Chat space and get notified when something changes, instead of polling list_messages.
+
+Args:
+  - spaceName (string): The resource name of the space (e.g., 'spaces/AAAA1234567')
+  - eventTypes (string[]): Event types to deliver, e.g. 'google.workspace.chat.message.v1.created' (default: all)
+  - intervalSeconds (number): How often the server checks for new events, 10-3600 (default: 30)
+  - startTime (string): Also deliver events since this RFC 3339 time (default: only new events)
+  - response_format ('markdown' | 'json'): Output format (default: 'markdown')
+
+Returns:
+  The subscription, including its id for google_chat_unsubscribe_space.
+
+Examples:
+  - "Tell me about new messages in this space" -> params with spaceName='spaces/AAAA', eventTypes=['google.workspace.chat.message.v1.created']
+  - "Watch membership changes" -> params with spaceName='spaces/AAAA', eventTypes=['google.workspace.chat.membership.v1.created', 'google.workspace.chat.membership.v1.deleted']
+
+Note: New events arrive as MCP log notifications (logger 'google-chat-subscriptions') with
+a changelog and the raw events. When the HTTP server receives Workspace Events pushes,
+they are delivered as they arrive. Subscriptions end when the session closes. A subscription
+created with a passthrough access token ends when that token expires (expiresAt), with a
+warning notification carrying ended=true; subscribe again with a fresh token to continue.`,
+      inputSchema: SubscribeSpaceInputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true
+      }
+    },
+    async (params: SubscribeSpaceInput, extra) => {
+      // Background polls keep using this call's token, which cannot be refreshed
+      const accessToken = getGoogleCredentials(extra.authInfo)?.accessToken;
+      const expiry = accessToken ? getAccessTokenExpiry(accessToken) : undefined;
+
+      let subscriptionId: string | undefined;
+      try {
+        const subscription = manager.subscribe({
+          spaceName: params.spaceName,
+          eventTypes: params.eventTypes,
+          intervalMs: params.intervalSeconds * 1000,
+          startTime: params.startTime,
+          expiresAt: expiry ? new Date(expiry).toISOString() : undefined
+        });
+        subscriptionId = subscription.id;
+
+        // Poll once up front so a space the caller cannot read fails here, not silently later
+        await manager.poll(subscription.id);
+
+        const text = formatSubscription(subscription, params.response_format);
+
+        return {
+          content: [{ type: "text", text: `Subscribed successfully!\n\n${text}` }],
+          structuredContent: subscription
+        };
+      } catch (error) {
+        if (subscriptionId) {
+          manager.unsubscribe(subscriptionId);
+        }
+        return {
+          isError: true,
+          content: [{ type: "text", text: handleApiError(error) }]
+        };
+      }
+    }
+  );
+
+  // Unsubscribe
+  registerTool(
+    server,
+    "google_chat_unsubscribe_space",
+    {
+      title: "Unsubscribe from Google Chat Space Changes",
+      description: `Stop a subscription created with google_chat_subscribe_space.
+
+Args:
+  - subscriptionId (string): The subscription id (required)
+
+Returns:
+  Confirmation that the subscription was stopped.
+
+Examples:
+  - "Stop watching that space" -> params with subscriptionId='0b6c...'`,
+      inputSchema: UnsubscribeSpaceInputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    async (params: UnsubscribeSpaceInput) => {
+      if (!manager.unsubscribe(params.subscriptionId)) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Error: Subscription ${params.subscriptionId} not found.` }]
+        };
+      }
+
+      return {
+        content: [{ type: "text", text: `Subscription \`${params.subscriptionId}\` has been stopped.` }],
+        structuredContent: { unsubscribed: true, subscriptionId: params.subscriptionId }
+      };
+    }
+  );
+
+  // List subscriptions
+  registerTool(
+    server,
+    "google_chat_list_subscriptions",
+    {
+      title: "List Google Chat Subscriptions",
+      description: `List this session's active space subscriptions.
+
+Args:
+  - response_format ('markdown' | 'json'): Output format (default: 'markdown')
+
+Returns:
+  Each subscription with its space, cursor, delivered count and last error, if any.`,
+      inputSchema: ListSubscriptionsInputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    async (params: ListSubscriptionsInput) => {
+      const subscriptions = manager.list();
+      const text = formatSubscriptionsList(subscriptions, params.response_format);
+
+      return {
+        content: [{ type: "text", text }],
+        structuredContent: { count: subscriptions.length, subscriptions }
+      };
+    }
+  );
+}
@@ -15,6 +15,7 @@ export interface Space {
   spaceHistoryState?: string;
   importMode?: boolean;
   createTime?: string;
+  lastActiveTime?: string;
   adminInstalled?: boolean;
   membershipCount?: MembershipCount;
 }
@@ -101,6 +102,8 @@ export interface CardHeader {
   subtitle?: string;
   imageUrl?: string;
   imageStyle?: string;
+  imageType?: string;
+  imageAltText?: string;
 }
 
 export interface CardSection {
@@ -115,6 +118,9 @@ export interface Widget {
   image?: Image;
   keyValue?: KeyValue;
   buttons?: Button[];
+  decoratedText?: DecoratedText;
+  buttonList?: ButtonList;
+  divider?: Record<string, never>;
 }
 
 export interface TextParagraph {
@@ -125,6 +131,27 @@ export interface Image {
   imageUrl?: string;
   onClick?: OnClick;
   aspectRatio?: number;
+  altText?: string;
+}
+
+export interface DecoratedText {
+  topLabel?: string;
+  text?: string;
+  bottomLabel?: string;
+  startIcon?: Icon;
+  wrapText?: boolean;
+  button?: Button;
+  onClick?: OnClick;
+}
+
+export interface ButtonList {
+  buttons?: Button[];
+}
+
+export interface Icon {
+  knownIcon?: string;
+  iconUrl?: string;
+  altText?: string;
 }
 
 export interface KeyValue {
@@ -138,9 +165,15 @@ export interface KeyValue {
   button?: Button;
 }
 
+// Card v1 buttons use textButton/imageButton; Card v2 buttons set text, icon and onClick directly
 export interface Button {
   textButton?: TextButton;
   imageButton?: ImageButton;
+  text?: string;
+  icon?: Icon;
+  onClick?: OnClick;
+  disabled?: boolean;
+  altText?: string;
 }
 
 export interface TextButton {
@@ -265,6 +298,7 @@ export interface Reaction {
 }
 
 export interface SpaceEvent {
+  [key: string]: unknown;
   name: string;
   eventTime?: string;
   eventType?: string;
@@ -347,6 +381,10 @@ export interface ListReactionsResponse {
   nextPageToken?: string;
 }
 
+export interface UploadAttachmentResponse {
+  attachmentDataRef?: AttachmentDataRef;
+}
+
 export interface ListSpaceEventsResponse {
   spaceEvents?: SpaceEvent[];
   nextPageToken?: string;
@@ -0,0 +1,140 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import axios from "axios";
+import {
+  resolveExportPath,
+  listExports,
+  readExport,
+  getExportUri,
+  getExportDir,
+  exportSpace,
+  checkExportTarget,
+  type ExportOptions
+} from "../src/services/export.js";
+import { resolveCallerKey } from "../src/services/tenancy.js";
+import { runWithApiClient } from "../src/services/api-client.js";
+import { ExportFormat } from "../src/constants.js";
+import type { Message } from "../src/types.js";
+import { startStandIn, type StandIn, type RecordedRequest, type StandInResponse } from "./stand-in.js";
+
+// Messages the stand-in returns per page
+const PAGE = 3;
+const MESSAGES: Message[] = Array.from({ length: 7 }, (_, i) => ({
+  name: `spaces/AAAA/messages/m${i}`,
+  text: `message number ${i}`,
+  createTime: new Date(Date.UTC(2026, 0, 1, 9, i)).toISOString()
+}));
+
+let dir: string;
+let standIn: StandIn;
+
+before(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "gchat-export-"));
+  process.env.GOOGLE_CHAT_EXPORT_DIR = dir;
+
+  standIn = await startStandIn((request: RecordedRequest): StandInResponse => {
+    if (request.path === "/spaces/AAAA") {
+      return { body: { name: "spaces/AAAA", displayName: "Project X" } };
+    }
+    const after = /createTime > "([^"]+)"/.exec(request.query.get("filter") || "")?.[1];
+    const matching = MESSAGES.filter(message => !after || message.createTime! > after);
+    const offset = Number(request.query.get("pageToken") || 0);
+    const next = offset + PAGE < matching.length ? String(offset + PAGE) : undefined;
+    return { body: { messages: matching.slice(offset, offset + PAGE), nextPageToken: next } };
+  });
+});
+
+after(async () => {
+  delete process.env.GOOGLE_CHAT_EXPORT_DIR;
+  await fs.rm(dir, { recursive: true, force: true });
+  await standIn.close();
+});
+
+test("each caller's exports live in its own directory", async () => {
+  const ana = await resolveCallerKey({ token: "key-a", clientId: "ana", scopes: [] });
+  const bob = await resolveCallerKey({ token: "key-b", clientId: "bob", scopes: [] });
+  assert.ok(ana && bob && ana !== bob);
+  assert.equal(await resolveCallerKey(undefined), undefined);
+
+  const file = resolveExportPath("spaces/AAAA", ExportFormat.MARKDOWN, "archive/project x.md", ana)!;
+  assert.equal(file, path.join(dir, ana, "archive", "project x.md"));
+  assert.equal(resolveExportPath("spaces/AAAA", ExportFormat.MARKDOWN, `../${bob}/AAAA.md`, ana), undefined);
+
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, "# Project X\n");
+  await fs.writeFile(`${file}.partial.jsonl`, "{}\n");
+  await fs.writeFile(path.join(dir, "cli.html"), "<html></html>");
+
+  // Unfinished exports and other callers' directories are not listed
+  assert.deepEqual(await listExports(ana), [path.join("archive", "project x.md")]);
+  assert.deepEqual(await listExports(bob), []);
+  assert.deepEqual(await listExports(), ["cli.html"]);
+
+  const uri = getExportUri(file, ana);
+  assert.equal(uri, "gchat://exports/archive%2Fproject%20x.md");
+  assert.deepEqual(await readExport("archive/project x.md", ana), { text: "# Project X\n", mimeType: "text/markdown" });
+  assert.equal(await readExport("archive/project x.md", bob), undefined);
+  assert.equal(await readExport(`../${ana}/archive/project x.md`, bob), undefined);
+  assert.equal(await readExport("archive/project x.md.partial.jsonl", ana), undefined);
+  assert.equal(getExportDir(ana), path.join(dir, ana));
+});
+
+test("a cancelled export resumes after the last page it saved", async () => {
+  const file = path.join(dir, "resume", "project-x.md");
+  const options: ExportOptions = {
+    spaceName: "spaces/AAAA",
+    format: ExportFormat.MARKDOWN,
+    includeThreads: true,
+    includeReactions: false,
+    includeAttachments: true,
+    restart: false
+  };
+  const run = (runOptions: ExportOptions, signal?: AbortSignal) => {
+    standIn.requests.length = 0;
+    return runWithApiClient(axios.create({ baseURL: standIn.url }), () => exportSpace(file, runOptions, async () => {}, signal));
+  };
+
+  // Cancel once the first page is saved
+  const controller = new AbortController();
+  controller.abort();
+  const paused = await run(options, controller.signal);
+  assert.equal(paused.complete, false);
+  assert.equal(paused.messageCount, PAGE);
+  assert.equal(await fs.access(file).then(() => true, () => false), false);
+
+  // A line written after the checkpoint, as when a page is interrupted, is dropped on resume
+  await fs.appendFile(`${file}.partial.jsonl`, JSON.stringify(MESSAGES[PAGE]) + "\n");
+
+  assert.match(
+    (await checkExportTarget(file, { ...options, includeThreads: false }, "set restart"))!,
+    /^An unfinished export of spaces\/AAAA with different options .* set restart to discard it/
+  );
+  assert.equal(await checkExportTarget(file, options, "set restart"), undefined);
+
+  const resumed = await run(options);
+  assert.equal(resumed.complete, true);
+  assert.equal(resumed.resumed, true);
+  assert.equal(resumed.messageCount, MESSAGES.length);
+  // The walk continues after the last message saved rather than starting over
+  const listed = standIn.requests.filter(request => request.path.endsWith("/messages"));
+  assert.equal(listed[0].query.get("filter"), `createTime > "${MESSAGES[PAGE - 1].createTime}"`);
+  assert.equal(listed[0].query.get("pageToken"), null);
+
+  const transcript = await fs.readFile(file, "utf8");
+  for (const message of MESSAGES) {
+    assert.equal(transcript.split(message.text!).length, 2, `${message.text} appears once`);
+  }
+  assert.deepEqual((await fs.readdir(path.dirname(file))).sort(), ["project-x.md"]);
+
+  assert.equal(
+    await checkExportTarget(file, options, "pass --restart"),
+    `${file} already exists. To overwrite it, pass --restart, or choose another output path.`
+  );
+  const restarted = await run({ ...options, restart: true });
+  assert.equal(restarted.resumed, false);
+  assert.equal(restarted.messageCount, MESSAGES.length);
+  assert.equal(standIn.requests.find(request => request.path.endsWith("/messages"))!.query.get("filter"), null);
+});
@@ -0,0 +1,160 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { fitStructuredContent, formatMessage, formatMessagesList } from "../src/services/formatters.js";
+import { CHARACTER_LIMIT, ResponseFormat } from "../src/constants.js";
+import type { Message } from "../src/types.js";
+
+function messages(count: number): Message[] {
+  return Array.from({ length: count }, (_, i) => ({
+    name: `spaces/AAAA/messages/m${i}`,
+    text: "x".repeat(500),
+    sender: { name: `users/${i % 3}` },
+    createTime: new Date(Date.UTC(2026, 0, 1, 0, i)).toISOString()
+  }));
+}
+
+test("structured content that fits is returned unchanged", () => {
+  const payload = { count: 2, messages: messages(2), hasMore: false };
+  assert.equal(fitStructuredContent(payload, "messages"), payload);
+});
+
+test("structured content is trimmed to the budget with a summary of every item", () => {
+  const all = messages(200);
+  const fitted = fitStructuredContent({ count: 200, messages: all, hasMore: true, nextPageToken: "next" }, "messages");
+
+  const shown = fitted.messages as Message[];
+  assert.ok(shown.length > 0 && shown.length < 200);
+  assert.deepEqual(shown, all.slice(0, shown.length));
+  assert.equal(fitted.truncated, true);
+  assert.equal(fitted.omitted, 200 - shown.length);
+  assert.equal(fitted.nextPageToken, "next");
+  assert.match(String(fitted.note), /continues after all 200 messages, not after those shown/);
+  assert.deepEqual((fitted.summary as { bySender: Record<string, number> }).bySender, { "users/0": 67, "users/1": 67, "users/2": 66 });
+  assert.ok(JSON.stringify(fitted, null, 2).length <= CHARACTER_LIMIT);
+});
+
+test("trimmed markdown says a page token skips the omitted entries", () => {
+  const text = formatMessagesList(messages(200), ResponseFormat.MARKDOWN, true, "next");
+  assert.ok(text.length <= CHARACTER_LIMIT);
+  assert.match(text, /more messages not shown/);
+  assert.match(text, /continues after all 200 messages, not after those shown/);
+  assert.match(text, /Use pageToken: `next`/);
+});
+
+/**
+ * Markdown and JSON renderings of a single message and of a one-message list.
+ */
+function render(message: Message): { markdown: string; entry: string; json: Message; listed: Message } {
+  return {
+    markdown: formatMessage(message, ResponseFormat.MARKDOWN),
+    entry: formatMessagesList([message], ResponseFormat.MARKDOWN, false),
+    json: JSON.parse(formatMessage(message, ResponseFormat.JSON)) as Message,
+    listed: (JSON.parse(formatMessagesList([message], ResponseFormat.JSON, false)) as { messages: Message[] }).messages[0]
+  };
+}
+
+test("a cardsV2 message renders its header, widgets and buttons", () => {
+  const message: Message = {
+    name: "spaces/AAAA/messages/card",
+    sender: { name: "users/app", displayName: "Deploy Bot", type: "BOT" },
+    cardsV2: [{
+      cardId: "deploy",
+      card: {
+        header: { title: "Deploy finished", subtitle: "production" },
+        sections: [{
+          header: "<b>Summary</b>",
+          widgets: [
+            { decoratedText: { topLabel: "Version", text: "v1.2.3" } },
+            { textParagraph: { text: "All <i>checks</i> passed &amp; live" } },
+            { buttonList: { buttons: [{ text: "Open logs", onClick: { openLink: { url: "https://ci.example.com/42" } } }] } }
+          ]
+        }]
+      }
+    }]
+  };
+  const { markdown, entry, json, listed } = render(message);
+
+  assert.match(markdown, /- \*\*From\*\*: Deploy Bot \(app\)/);
+  assert.ok(markdown.includes([
+    "### Cards",
+    "**Card: Deploy finished - production**",
+    "#### **Summary**",
+    "- **Version**: v1.2.3",
+    "All *checks* passed & live",
+    "- Buttons: [Open logs](https://ci.example.com/42)"
+  ].join("\n")));
+  // Without text, the list preview falls back to the card
+  assert.match(entry, /- \*\*Content\*\*: \[Card: Deploy finished\] Version: v1\.2\.3\n/);
+  assert.deepEqual(json, message);
+  assert.deepEqual(listed, message);
+});
+
+test("attachments are listed with their type and Drive origin", () => {
+  const message: Message = {
+    name: "spaces/AAAA/messages/files",
+    text: "Files attached",
+    attachment: [
+      { name: "spaces/AAAA/messages/files/attachments/a1", contentName: "plan.pdf", contentType: "application/pdf" },
+      { name: "spaces/AAAA/messages/files/attachments/a2", contentName: "Budget", driveDataRef: { driveFileId: "drive-1" } },
+      { name: "spaces/AAAA/messages/files/attachments/a3" }
+    ]
+  };
+  const { markdown, entry, json, listed } = render(message);
+
+  assert.ok(markdown.includes([
+    "### Attachments",
+    "- plan.pdf (application/pdf)",
+    "- Budget (Google Drive)",
+    "- spaces/AAAA/messages/files/attachments/a3"
+  ].join("\n")));
+  assert.match(entry, /- \*\*Attachments\*\*: plan\.pdf \(application\/pdf\); Budget \(Google Drive\); spaces\/AAAA\/messages\/files\/attachments\/a3/);
+  assert.deepEqual(json.attachment, message.attachment);
+  assert.deepEqual(listed.attachment, message.attachment);
+});
+
+test("a quoted message names the message it quotes", () => {
+  const message: Message = {
+    name: "spaces/AAAA/messages/reply",
+    text: "Agreed",
+    quotedMessageMetadata: { name: "spaces/AAAA/messages/original", lastUpdateTime: "2026-01-01T09:00:00Z" }
+  };
+  const { markdown, entry, json, listed } = render(message);
+
+  assert.match(markdown, /- \*\*Quotes\*\*: `spaces\/AAAA\/messages\/original`/);
+  assert.match(entry, /- \*\*Quotes\*\*: `spaces\/AAAA\/messages\/original`/);
+  assert.deepEqual(json.quotedMessageMetadata, message.quotedMessageMetadata);
+  assert.deepEqual(listed.quotedMessageMetadata, message.quotedMessageMetadata);
+});
+
+test("deleted and edited messages are flagged", () => {
+  const deleted: Message = {
+    name: "spaces/AAAA/messages/gone",
+    createTime: "2026-01-01T09:00:00Z",
+    deleteTime: "2026-01-01T10:00:00Z",
+    deletionMetadata: { deletionType: "SPACE_OWNER" }
+  };
+  const gone = render(deleted);
+  assert.match(gone.markdown, /- \*\*Status\*\*: deleted: space owner/);
+  assert.match(gone.markdown, /\*This message was deleted\.\*/);
+  assert.match(gone.entry, /\(deleted: space owner\)\n/);
+  assert.match(gone.entry, /- \*\*Content\*\*: \[Deleted\]/);
+  assert.deepEqual(gone.json.deletionMetadata, { deletionType: "SPACE_OWNER" });
+  assert.equal(gone.listed.deleteTime, deleted.deleteTime);
+
+  const edited: Message = {
+    name: "spaces/AAAA/messages/fixed",
+    text: "Fixed the typo",
+    createTime: "2026-01-01T09:00:00Z",
+    lastUpdateTime: "2026-01-01T09:05:00Z",
+    threadReply: true
+  };
+  const fixed = render(edited);
+  assert.match(fixed.markdown, /- \*\*Status\*\*: edited, thread reply/);
+  assert.match(fixed.entry, /\(edited, thread reply\)\n/);
+  assert.equal(fixed.json.lastUpdateTime, edited.lastUpdateTime);
+  assert.equal(fixed.listed.lastUpdateTime, edited.lastUpdateTime);
+
+  // A message saved without changes is not flagged as edited
+  const unchanged = render({ ...edited, lastUpdateTime: edited.createTime, threadReply: false });
+  assert.doesNotMatch(unchanged.markdown, /Status/);
+});
@@ -0,0 +1,67 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { createTokenVerifier, checkApiKeyTools, type InboundAuthConfig } from "../src/services/http-auth.js";
+import { registerMessageTools } from "../src/tools/messages.js";
+import { getToolNames } from "../src/tools/register.js";
+import { startStandIn, type StandIn, type RecordedRequest, type StandInResponse } from "./stand-in.js";
+
+const RESOURCE = "https://chat-mcp.example.com/mcp";
+
+let standIn: StandIn;
+
+before(async () => {
+  // Introspection answers with the audience named by the token itself
+  standIn = await startStandIn((request: RecordedRequest): StandInResponse => {
+    const token = new URLSearchParams(request.body.toString()).get("token");
+    const audiences: Record<string, string | string[] | undefined> = {
+      "for-us": RESOURCE,
+      "for-several": ["https://other.example.com", RESOURCE],
+      "for-others": "https://other.example.com",
+      "for-anyone": undefined
+    };
+    return { body: { active: true, sub: "ana", aud: audiences[token || ""] } };
+  });
+});
+
+after(async () => {
+  await standIn.close();
+});
+
+test("OAuth tokens are accepted only when their audience names this server", async () => {
+  const config: InboundAuthConfig = {
+    apiKeys: [],
+    oauth: {
+      issuer: "https://issuer.example.com",
+      metadata: {
+        issuer: "https://issuer.example.com",
+        authorization_endpoint: "https://issuer.example.com/authorize",
+        token_endpoint: "https://issuer.example.com/token",
+        response_types_supported: ["code"]
+      },
+      introspectionUrl: `${standIn.url}/introspect`,
+      resourceUrl: new URL(RESOURCE),
+      requiredScopes: []
+    }
+  };
+  const verifier = createTokenVerifier(config);
+
+  assert.equal((await verifier.verifyAccessToken("for-us")).clientId, "ana");
+  assert.equal((await verifier.verifyAccessToken("for-several")).clientId, "ana");
+  await assert.rejects(verifier.verifyAccessToken("for-others"), /not issued for this resource/);
+  // A token without an audience could have been issued for any server
+  await assert.rejects(verifier.verifyAccessToken("for-anyone"), /not issued for this resource/);
+});
+
+test("API key tool patterns must each match a registered tool", () => {
+  registerMessageTools(new McpServer({ name: "http-auth-test", version: "1.0.0" }));
+  const toolNames = getToolNames();
+  assert.ok(toolNames.includes("google_chat_create_message"));
+
+  checkApiKeyTools([{ name: "everything", key: "k0" }], toolNames);
+  checkApiKeyTools([{ name: "writer", key: "k1", tools: ["google_chat_create_message", "google_chat_*_messages"] }], toolNames);
+  assert.throws(
+    () => checkApiKeyTools([{ name: "summarizer", key: "k2", tools: ["google_chat_list_messages", "google_chat_lst_*"] }], toolNames),
+    /^Error: Invalid MCP_API_KEYS: key 'summarizer' lists tools that do not exist: google_chat_lst_\*$/
+  );
+});
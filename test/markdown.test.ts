@@ -0,0 +1,21 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { markdownToChat } from "../src/services/markdown.js";
+
+const BREAK = "\u200B";
+
+test("literal characters that cannot open formatting are left alone", () => {
+  for (const text of ["use snake_case_names here", "_private_var", "2 * 3 * 4", "*nix and *bsd", "x < y > z", "one ` tick"]) {
+    assert.equal(markdownToChat(text), text);
+  }
+});
+
+test("literal characters Chat would pair up are broken with a zero-width space", () => {
+  assert.equal(markdownToChat("a \\*literal\\* star"), `a *${BREAK}literal* star`);
+  assert.equal(markdownToChat("\\_not italic\\_"), `_${BREAK}not italic_`);
+  assert.equal(markdownToChat("see \\<https://example.com>"), `see <${BREAK}https://example.com>`);
+});
+
+test("Markdown emphasis becomes Chat formatting", () => {
+  assert.equal(markdownToChat("**bold**, _italic_ and ~~strike~~"), "*bold*, _italic_ and ~strike~");
+});
@@ -0,0 +1,89 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import axios from "axios";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { registerMemberTools } from "../src/tools/members.js";
+import { runWithApiClient } from "../src/services/api-client.js";
+import type { Member } from "../src/types.js";
+import { startStandIn, type StandIn, type RecordedRequest, type StandInResponse } from "./stand-in.js";
+
+let standIn: StandIn;
+let client: Client;
+// Memberships of spaces/AAAA by resource name
+let members: Record<string, Member> = {};
+
+before(async () => {
+  standIn = await startStandIn((request: RecordedRequest): StandInResponse => {
+    const name = request.path.slice(1);
+    if (request.method === "GET" && name === "spaces/AAAA/members") {
+      const role = /role = "(\w+)"/.exec(request.query.get("filter") || "")?.[1];
+      return { body: { memberships: Object.values(members).filter(member => !role || member.role === role) } };
+    }
+    if (request.method === "PATCH") {
+      members[name] = { ...members[name], ...JSON.parse(request.body.toString()) };
+    }
+    return { body: members[name] };
+  });
+
+  const server = new McpServer({ name: "members-test", version: "1.0.0" });
+  registerMemberTools(server);
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  client = new Client({ name: "members-test", version: "1.0.0" });
+  await client.connect(clientTransport);
+});
+
+after(async () => {
+  await client.close();
+  await standIn.close();
+});
+
+function updateMember(memberName: string, role: string): Promise<CallToolResult> {
+  standIn.requests.length = 0;
+  return runWithApiClient(axios.create({ baseURL: standIn.url }), () =>
+    client.callTool({ name: "google_chat_update_member", arguments: { memberName, role } }) as Promise<CallToolResult>);
+}
+
+function patches(): RecordedRequest[] {
+  return standIn.requests.filter(request => request.method === "PATCH");
+}
+
+test("demoting the only manager is refused without a PATCH", async () => {
+  members = {
+    "spaces/AAAA/members/ana": { name: "spaces/AAAA/members/ana", role: "ROLE_MANAGER" },
+    "spaces/AAAA/members/bob": { name: "spaces/AAAA/members/bob", role: "ROLE_MEMBER" }
+  };
+  const result = await updateMember("spaces/AAAA/members/ana", "ROLE_MEMBER");
+
+  assert.equal(result.isError, true);
+  assert.match((result.content[0] as { text: string }).text, /is the only manager of `spaces\/AAAA`/);
+  assert.deepEqual(patches(), []);
+});
+
+test("a manager is demoted when another manager remains", async () => {
+  members = {
+    "spaces/AAAA/members/ana": { name: "spaces/AAAA/members/ana", role: "ROLE_MANAGER" },
+    "spaces/AAAA/members/bob": { name: "spaces/AAAA/members/bob", role: "ROLE_MANAGER" }
+  };
+  const result = await updateMember("spaces/AAAA/members/ana", "ROLE_MEMBER");
+
+  assert.equal(result.isError, undefined);
+  const [patch] = patches();
+  assert.equal(patch.path, "/spaces/AAAA/members/ana");
+  assert.equal(patch.query.get("updateMask"), "role");
+  assert.deepEqual(JSON.parse(patch.body.toString()), { role: "ROLE_MEMBER" });
+});
+
+test("a member who already has the role is left alone", async () => {
+  members = {
+    "spaces/AAAA/members/bob": { name: "spaces/AAAA/members/bob", role: "ROLE_MEMBER" }
+  };
+  const result = await updateMember("spaces/AAAA/members/bob", "ROLE_MEMBER");
+
+  assert.equal(result.isError, undefined);
+  assert.match((result.content[0] as { text: string }).text, /already has role ROLE_MEMBER/);
+  assert.deepEqual(patches(), []);
+});
@@ -0,0 +1,60 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import axios from "axios";
+import { resolveMentionNames } from "../src/services/mentions.js";
+import { runWithApiClient } from "../src/services/api-client.js";
+import type { Message } from "../src/types.js";
+import { startStandIn, type StandIn, type RecordedRequest, type StandInResponse } from "./stand-in.js";
+
+let standIn: StandIn;
+let inFlight = 0;
+let maxInFlight = 0;
+
+before(async () => {
+  standIn = await startStandIn(async (request: RecordedRequest): Promise<StandInResponse> => {
+    inFlight++;
+    maxInFlight = Math.max(maxInFlight, inFlight);
+    await new Promise(resolve => setTimeout(resolve, 10));
+    inFlight--;
+
+    const id = request.path.split("/").pop()!;
+    if (id === "gone") {
+      return { status: 404, body: { error: { message: "not found" } } };
+    }
+    return { body: { name: `spaces/AAAA/members/${id}`, member: { name: `users/${id}`, displayName: `User ${id}` } } };
+  });
+});
+
+after(async () => {
+  await standIn.close();
+});
+
+function mentioning(...ids: string[]): Message[] {
+  return [{
+    name: "spaces/AAAA/messages/m1",
+    annotations: ids.map(id => ({ type: "USER_MENTION", userMention: { user: { name: `users/${id}` } } }))
+  }];
+}
+
+test("mention names are looked up a few at a time and cached per caller", async () => {
+  const ids = [...Array.from({ length: 10 }, (_, i) => String(i)), "gone"];
+  const client = axios.create({ baseURL: standIn.url });
+  standIn.requests.length = 0;
+
+  const messages = mentioning(...ids);
+  await runWithApiClient(client, () => resolveMentionNames(messages));
+  const names = messages[0].annotations!.map(annotation => annotation.userMention!.user!.displayName);
+  assert.deepEqual(names, [...ids.slice(0, 10).map(id => `User ${id}`), undefined]);
+  assert.equal(standIn.requests.length, 11);
+  assert.ok(maxInFlight <= 4, `${maxInFlight} lookups ran at once`);
+
+  // The same caller reuses the names, including users it could not look up
+  const again = mentioning(...ids);
+  await runWithApiClient(client, () => resolveMentionNames(again));
+  assert.equal(again[0].annotations![3].userMention!.user!.displayName, "User 3");
+  assert.equal(standIn.requests.length, 11);
+
+  // Another caller looks them up for itself
+  await runWithApiClient(axios.create({ baseURL: standIn.url }), () => resolveMentionNames(mentioning("3")));
+  assert.equal(standIn.requests.length, 12);
+});
@@ -0,0 +1,64 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import axios from "axios";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { registerMessageTools } from "../src/tools/messages.js";
+import { runWithApiClient } from "../src/services/api-client.js";
+import { startStandIn, type StandIn, type RecordedRequest, type StandInResponse } from "./stand-in.js";
+
+let standIn: StandIn;
+let client: Client;
+
+before(async () => {
+  // Only ana@example.com is a member of spaces/AAAA
+  standIn = await startStandIn((request: RecordedRequest): StandInResponse => {
+    if (request.method === "GET" && request.path.startsWith("/spaces/AAAA/members/")) {
+      return request.path.endsWith("/ana@example.com")
+        ? { body: { name: "spaces/AAAA/members/111", member: { name: "users/111" } } }
+        : { status: 404, body: { error: { message: "Membership not found" } } };
+    }
+    return { body: { name: request.path.slice(1), ...JSON.parse(request.body.toString() || "{}") } };
+  });
+
+  const server = new McpServer({ name: "messages-test", version: "1.0.0" });
+  registerMessageTools(server);
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  client = new Client({ name: "messages-test", version: "1.0.0" });
+  await client.connect(clientTransport);
+});
+
+after(async () => {
+  await client.close();
+  await standIn.close();
+});
+
+function updateMessage(text: string): Promise<CallToolResult> {
+  standIn.requests.length = 0;
+  return runWithApiClient(axios.create({ baseURL: standIn.url }), () =>
+    client.callTool({
+      name: "google_chat_update_message",
+      arguments: { messageName: "spaces/AAAA/messages/BBBB", text }
+    }) as Promise<CallToolResult>);
+}
+
+test("mentions in edited text are resolved through the message's space", async () => {
+  const result = await updateMessage("@ana@example.com and @all, see the new plan");
+
+  assert.equal(result.isError, undefined);
+  const patch = standIn.requests.find(request => request.method === "PATCH")!;
+  assert.equal(patch.path, "/spaces/AAAA/messages/BBBB");
+  assert.equal(patch.query.get("updateMask"), "text");
+  assert.deepEqual(JSON.parse(patch.body.toString()), { text: "<users/111> and <users/all>, see the new plan" });
+});
+
+test("a message is not edited when a mentioned user is not in the space", async () => {
+  const result = await updateMessage("@bob@example.com please check");
+
+  assert.equal(result.isError, true);
+  assert.match((result.content[0] as { text: string }).text, /Could not mention 'bob@example.com'; the message was not updated/);
+  assert.equal(standIn.requests.filter(request => request.method === "PATCH").length, 0);
+});
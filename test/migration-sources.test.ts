@@ -0,0 +1,88 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { readMigrationSource, type SourceChannel } from "../src/services/migration-sources.js";
+import { toImportMessageId } from "../src/services/migration.js";
+import { MigrationPlatform } from "../src/constants.js";
+
+const FIXTURES = path.join(path.dirname(fileURLToPath(import.meta.url)), "fixtures");
+
+function channel(channels: SourceChannel[], name: string): SourceChannel {
+  const found = channels.find(candidate => candidate.name === name);
+  assert.ok(found, `channel ${name} was not read`);
+  return found;
+}
+
+test("a Slack export keeps conversation messages, threads and reactions", async () => {
+  const source = await readMigrationSource(MigrationPlatform.SLACK, path.join(FIXTURES, "slack"));
+  assert.deepEqual(source.channels.map(c => [c.name, c.private]), [["general", false], ["secret", true]]);
+  assert.deepEqual(source.notes, ["1 direct message conversation is not migrated."]);
+  assert.equal(source.users.get("B03DEPLOY")?.bot, true);
+
+  const general = channel(source.channels, "general");
+  // Joins and topic changes are skipped; bot messages and thread broadcasts are kept
+  assert.equal(general.skipped, 2);
+  assert.deepEqual(general.messages.map(m => m.id), [
+    "1551431100.000200",
+    "1551431160.000300",
+    "1551431200.000400",
+    "1551431400.000600",
+    "1551488400.000700"
+  ]);
+
+  const [parent, reply, lone, bot, broadcast] = general.messages;
+  assert.equal(parent.threadId, "1551431100.000200");
+  assert.equal(reply.threadId, parent.threadId);
+  assert.equal(broadcast.threadId, parent.threadId);
+  // A message whose thread_ts is its own ts but has no replies is not a thread
+  assert.equal(lone.threadId, undefined);
+
+  assert.equal(parent.text, "Hi @Bob Stone, see <https://example.com|the plan> & #general");
+  assert.equal(parent.createTime, "2019-03-01T09:05:00.000Z");
+  assert.deepEqual(parent.reactions, [
+    { name: "thumbsup::skin-tone-2", emoji: "👍", users: ["U02BOB"] },
+    { name: "partyparrot", emoji: undefined, users: ["U01ANA"] }
+  ]);
+
+  assert.equal(bot.user, undefined);
+  assert.equal(bot.authorName, "deploybot");
+  assert.equal(bot.files, 1);
+
+  assert.equal(toImportMessageId(parent.id), "1551431100-000200");
+});
+
+test("a Mattermost export gathers replies and per-user reactions under their post", async () => {
+  const source = await readMigrationSource(MigrationPlatform.MATTERMOST, path.join(FIXTURES, "mattermost"));
+  // Channels are named after their team, so each team's town-square stays apart
+  assert.deepEqual(source.channels.map(c => [c.name, c.private]), [
+    ["acme/town-square", false],
+    ["acme/secret", true],
+    ["beta/town-square", false]
+  ]);
+  assert.deepEqual(channel(source.channels, "beta/town-square").messages.map(m => m.text), ["Hello from beta"]);
+  assert.deepEqual(source.notes, ["1 direct message post is not migrated."]);
+  assert.equal(source.users.get("bob.stone")?.name, "Bobby");
+
+  const townSquare = channel(source.channels, "acme/town-square");
+  assert.deepEqual(townSquare.members, ["ana", "bob.stone"]);
+  assert.equal(townSquare.displayName, "Town Square");
+
+  const [post, reply] = townSquare.messages;
+  assert.equal(post.id, "1700000000000-ana");
+  assert.equal(post.threadId, post.id);
+  assert.equal(reply.id, "1700000060000-bob.stone");
+  assert.equal(reply.threadId, post.id);
+  assert.equal(post.text, "*Launch* is on");
+  assert.deepEqual(post.reactions, [
+    { name: "+1", emoji: "👍", users: ["bob.stone", "ana"] },
+    { name: "parrot", emoji: undefined, users: ["bob.stone"] }
+  ]);
+
+  // A post without replies is not a thread
+  const secret = channel(source.channels, "acme/secret");
+  assert.equal(secret.messages[0].threadId, undefined);
+  assert.equal(secret.messages[0].files, 1);
+
+  assert.equal(toImportMessageId(reply.id), "1700000060000-bob-stone");
+});
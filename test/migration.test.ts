@@ -0,0 +1,184 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import axios from "axios";
+import { readMigrationSource, type MigrationSource } from "../src/services/migration-sources.js";
+import { planMigration, runMigration, type MigrationOptions } from "../src/services/migration.js";
+import { runWithApiClient } from "../src/services/api-client.js";
+import { MigrationPlatform } from "../src/constants.js";
+import { startStandIn, type StandIn, type RecordedRequest, type StandInResponse } from "./stand-in.js";
+
+const FIXTURES = path.join(path.dirname(fileURLToPath(import.meta.url)), "fixtures");
+const OPTIONS: MigrationOptions = { userMap: {}, spacePrefix: "", targetSpaces: {}, completeImport: false };
+
+let standIn: StandIn;
+// Message IDs the stand-in answers with 409 (already imported) or 400 (rejected)
+let existing = new Set<string>();
+let rejected = new Set<string>();
+
+before(async () => {
+  process.env.GOOGLE_IMPERSONATE_ALLOWLIST = "*@example.com";
+  standIn = await startStandIn((request: RecordedRequest): StandInResponse => {
+    const messageId = request.query.get("messageId") || "";
+    if (existing.has(messageId)) {
+      return { status: 409, body: { error: { message: "already exists" } } };
+    }
+    if (rejected.has(messageId)) {
+      return { status: 400, body: { error: { message: "text too long" } } };
+    }
+    if (request.path === "/spaces") {
+      return { body: { name: "spaces/NEW" } };
+    }
+    if (request.path.endsWith(":completeImport")) {
+      return { body: { space: { name: request.path.slice(1, -":completeImport".length) } } };
+    }
+    return { body: { name: `${request.path.slice(1)}/${messageId || "created"}` } };
+  });
+});
+
+after(async () => {
+  delete process.env.GOOGLE_IMPERSONATE_ALLOWLIST;
+  delete process.env.GOOGLE_IMPERSONATE_USER;
+  await standIn.close();
+});
+
+function run(source: MigrationSource, options: Partial<MigrationOptions>) {
+  standIn.requests.length = 0;
+  return runWithApiClient(axios.create({ baseURL: standIn.url }), () =>
+    runMigration(source, { ...OPTIONS, ...options }, async () => {}));
+}
+
+function posted(suffix: string): RecordedRequest[] {
+  return standIn.requests.filter(request => request.method === "POST" && request.path.endsWith(suffix));
+}
+
+test("a dry run reports what cannot be carried over and who needs mapping", async () => {
+  const source = await readMigrationSource(MigrationPlatform.SLACK, path.join(FIXTURES, "slack"));
+
+  const unmapped = planMigration(source, OPTIONS);
+  assert.deepEqual(unmapped.unmappedUsers, ["Bob Stone (bob, U02BOB)"]);
+  const [general, secret] = unmapped.channels;
+  assert.equal(general.creator, "ana@example.com");
+  assert.equal(general.messages, 5);
+  // The bot's message and Bob's two messages are posted as Ana with their author's name
+  assert.equal(general.postedAsCreator, 3);
+  // Bob's thumbs up cannot be added as him, and :partyparrot: has no Unicode emoji
+  assert.equal(general.reactions, 0);
+  assert.equal(general.skippedReactions, 2);
+  assert.deepEqual(general.unknownEmoji, ["partyparrot"]);
+  assert.equal(general.systemMessages, 2);
+  assert.equal(general.membersWithoutEmail, 1);
+  assert.match(secret.error!, /No one to create the space as/);
+
+  // Users can be mapped by source ID or by username
+  for (const userMap of [{ U02BOB: "bob@example.com" }, { bob: "bob@example.com" }] as Record<string, string>[]) {
+    const mapped = planMigration(source, { ...OPTIONS, userMap });
+    assert.deepEqual(mapped.unmappedUsers, []);
+    assert.equal(mapped.channels[0].postedAsCreator, 1);
+    assert.equal(mapped.channels[0].reactions, 1);
+    assert.equal(mapped.channels[0].skippedReactions, 1);
+    assert.equal(mapped.channels[0].members, 2);
+    assert.equal(mapped.channels[1].creator, "bob@example.com");
+  }
+
+  const picked = planMigration(source, { ...OPTIONS, channels: ["general", "random"] });
+  assert.deepEqual(picked.channels.map(channel => channel.channel), ["general"]);
+  assert.ok(picked.notes.includes("Channel 'random' is not in the export."));
+});
+
+test("a run continued through targetSpaces counts messages already there and completes the import", async () => {
+  process.env.GOOGLE_IMPERSONATE_USER = "admin@example.com";
+  const source = await readMigrationSource(MigrationPlatform.MATTERMOST, path.join(FIXTURES, "mattermost"));
+  existing = new Set(["client-1700000000000-ana"]);
+  rejected = new Set();
+
+  const report = await run(source, {
+    channels: ["acme/town-square"],
+    targetSpaces: { "acme/town-square": "spaces/TOWN" },
+    completeImport: true
+  });
+  const [channel] = report.channels;
+
+  assert.equal(channel.space, "spaces/TOWN");
+  assert.equal(posted("/spaces").length, 0);
+  assert.equal(channel.alreadyImported, 1);
+  assert.equal(channel.imported, 1);
+  assert.equal(channel.failed, 0);
+  // Reactions are still added to the message that was already there
+  assert.equal(posted("/spaces/TOWN/messages/client-1700000000000-ana/reactions").length, 2);
+  assert.equal(channel.importCompleted, true);
+  assert.deepEqual(posted(":completeImport").map(request => request.path), ["/spaces/TOWN:completeImport"]);
+});
+
+test("the import is not completed while any message failed", async () => {
+  process.env.GOOGLE_IMPERSONATE_USER = "admin@example.com";
+  const source = await readMigrationSource(MigrationPlatform.MATTERMOST, path.join(FIXTURES, "mattermost"));
+  existing = new Set();
+  rejected = new Set(["client-1700000060000-bob-stone"]);
+
+  const report = await run(source, { channels: ["acme/town-square"], completeImport: true });
+  const [channel] = report.channels;
+
+  assert.equal(channel.space, "spaces/NEW");
+  assert.equal(channel.imported, 1);
+  assert.equal(channel.failed, 1);
+  assert.equal(channel.importCompleted, undefined);
+  assert.equal(posted(":completeImport").length, 0);
+  assert.match(report.errors[0], /^acme\/town-square: message from 2023-11-14T22:14:20.000Z: /);
+});
+
+test("posts too long for one message are split into parts with their own IDs", async () => {
+  process.env.GOOGLE_IMPERSONATE_USER = "admin@example.com";
+  existing = new Set();
+  rejected = new Set();
+  const paragraph = `${"word ".repeat(199)}word`;
+  const text = Array.from({ length: 10 }, () => paragraph).join("\n");
+  const source: MigrationSource = {
+    platform: MigrationPlatform.SLACK,
+    users: new Map([["U1", { id: "U1", username: "ana", name: "Ana", email: "ana@example.com", bot: false }]]),
+    channels: [{
+      id: "C1",
+      name: "essays",
+      displayName: "essays",
+      private: false,
+      members: ["U1"],
+      messages: [{
+        id: "1551431100.000200",
+        user: "U1",
+        authorName: "Ana",
+        text,
+        createTime: "2019-03-01T09:05:00.000Z",
+        reactions: [{ name: "tada", emoji: "🎉", users: ["U1"] }],
+        files: 0
+      }],
+      skipped: 0
+    }],
+    notes: []
+  };
+
+  assert.equal(planMigration(source, OPTIONS).channels[0].splitMessages, 1);
+
+  const report = await run(source, {});
+  const parts = posted("/spaces/NEW/messages").map(request => ({
+    messageId: request.query.get("messageId"),
+    ...(JSON.parse(request.body.toString()) as { text: string; createTime: string })
+  }));
+
+  assert.deepEqual(parts.map(part => part.messageId), [
+    "client-1551431100-000200",
+    "client-1551431100-000200-p2",
+    "client-1551431100-000200-p3"
+  ]);
+  assert.ok(parts.every(part => part.text.length <= 4096));
+  assert.ok(parts.slice(1).every(part => part.text.startsWith("_(continued)_\n")));
+  assert.equal(parts.map(part => part.text.replace("_(continued)_\n", "")).join("\n"), text);
+  assert.deepEqual(parts.map(part => part.createTime), [
+    "2019-03-01T09:05:00.000Z",
+    "2019-03-01T09:05:00.001Z",
+    "2019-03-01T09:05:00.002Z"
+  ]);
+  // Reactions go on the first part only
+  assert.equal(posted("/reactions").length, 1);
+  assert.equal(report.channels[0].imported, 3);
+});
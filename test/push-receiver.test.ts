@@ -0,0 +1,154 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { LoginTicket, type OAuth2Client, type TokenPayload } from "google-auth-library";
+import { createMcpExpressApp } from "@modelcontextprotocol/sdk/server/express.js";
+import { createPushHandler, decodePushBody, type PushReceiverConfig } from "../src/services/push-receiver.js";
+import { onSpaceEvent } from "../src/services/event-hub.js";
+import type { SpaceEvent } from "../src/types.js";
+
+const CREATED = "google.workspace.chat.message.v1.created";
+const PUSHER = "pusher@acme.iam.gserviceaccount.com";
+const AUDIENCE = "https://chat-mcp.example.com/events";
+
+let server: Server;
+let url: string;
+const published: [string, SpaceEvent][] = [];
+let stopListening: () => void;
+
+/**
+ * Accepts the token "valid" as signed for whichever email it was created with.
+ */
+function verifierFor(email: string): Pick<OAuth2Client, "verifyIdToken"> {
+  return {
+    verifyIdToken: async ({ idToken, audience }: { idToken: string; audience?: string | string[] }) => {
+      if (idToken !== "valid") {
+        throw new Error("Invalid token signature");
+      }
+      const payload: TokenPayload = {
+        iss: "https://accounts.google.com",
+        sub: "1234",
+        aud: String(audience),
+        iat: 0,
+        exp: 0,
+        email,
+        email_verified: true
+      };
+      return new LoginTicket(undefined, payload);
+    }
+  } as unknown as Pick<OAuth2Client, "verifyIdToken">;
+}
+
+function pubSubEnvelope(id: string, type: string): unknown {
+  const data = { message: { name: "spaces/AAAA/messages/m1", text: "hello" } };
+  return {
+    message: {
+      data: Buffer.from(JSON.stringify(data)).toString("base64"),
+      attributes: {
+        "ce-id": id,
+        "ce-type": type,
+        "ce-subject": "//chat.googleapis.com/spaces/AAAA",
+        "ce-time": "2026-01-01T00:00:00Z"
+      },
+      messageId: "1",
+      publishTime: "2026-01-01T00:00:01Z"
+    },
+    subscription: "projects/acme/subscriptions/chat"
+  };
+}
+
+before(async () => {
+  stopListening = onSpaceEvent((spaceName, event) => {
+    published.push([spaceName, event]);
+  });
+
+  const verified: PushReceiverConfig = { path: "/events", audience: AUDIENCE, serviceAccount: PUSHER, skipVerify: false };
+  const app = createMcpExpressApp({ host: "127.0.0.1" });
+  app.post("/events", createPushHandler(verified, verifierFor(PUSHER)));
+  app.post("/impostor", createPushHandler(verified, verifierFor("someone@example.com")));
+  app.post("/unverified", createPushHandler({ path: "/unverified", skipVerify: true }));
+
+  await new Promise<void>(resolve => {
+    server = app.listen(0, "127.0.0.1", () => resolve());
+  });
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  stopListening();
+  await new Promise(resolve => server.close(resolve));
+});
+
+function push(path: string, body: unknown, token?: string): Promise<Response> {
+  return fetch(`${url}${path}`, {
+    method: "POST",
+    headers: { "content-type": "application/json", ...(token ? { authorization: `Bearer ${token}` } : {}) },
+    body: JSON.stringify(body)
+  });
+}
+
+test("a Pub/Sub envelope decodes to a space event", () => {
+  const decoded = decodePushBody(pubSubEnvelope("ce-1", CREATED));
+
+  assert.deepEqual(decoded, {
+    spaceName: "spaces/AAAA",
+    event: {
+      name: "spaces/AAAA/spaceEvents/ce-1",
+      eventTime: "2026-01-01T00:00:00Z",
+      eventType: CREATED,
+      messageCreatedEventData: { message: { name: "spaces/AAAA/messages/m1", text: "hello" } }
+    }
+  });
+});
+
+test("a structured-mode CloudEvent decodes to a space event", () => {
+  const decoded = decodePushBody({
+    specversion: "1.0",
+    id: "ce-2",
+    type: "google.workspace.chat.reaction.v1.batchCreated",
+    source: "//chat.googleapis.com/spaces/BBBB",
+    time: "2026-01-01T00:00:00Z",
+    data: { reactions: [{ reaction: { name: "spaces/BBBB/messages/m1/reactions/r1" } }] }
+  });
+
+  // Without a subject, the space comes from the resource names in the payload
+  assert.equal(decoded?.spaceName, "spaces/BBBB");
+  assert.deepEqual(decoded?.event.reactionBatchCreatedEventData, {
+    reactions: [{ reaction: { name: "spaces/BBBB/messages/m1/reactions/r1" } }]
+  });
+});
+
+test("events that are not Chat space events decode to null", () => {
+  assert.equal(decodePushBody(pubSubEnvelope("ce-3", "google.workspace.events.subscription.v1.expirationReminder")), null);
+  assert.throws(() => decodePushBody("not an object"), /must be a JSON object/);
+});
+
+test("pushes signed by the expected service account are published", async () => {
+  published.length = 0;
+  const response = await push("/events", pubSubEnvelope("ce-4", CREATED), "valid");
+
+  assert.equal(response.status, 204);
+  assert.deepEqual(published.map(([spaceName, event]) => [spaceName, event.name]), [
+    ["spaces/AAAA", "spaces/AAAA/spaceEvents/ce-4"]
+  ]);
+});
+
+test("pushes without a valid token from the push service account are refused", async () => {
+  published.length = 0;
+
+  assert.equal((await push("/events", pubSubEnvelope("ce-5", CREATED))).status, 401);
+  assert.equal((await push("/events", pubSubEnvelope("ce-5", CREATED), "forged")).status, 401);
+  const impostor = await push("/impostor", pubSubEnvelope("ce-5", CREATED), "valid");
+  assert.equal(impostor.status, 403);
+  assert.match(((await impostor.json()) as { error: string }).error, /expected service account/);
+  assert.deepEqual(published, []);
+});
+
+test("with verification skipped, pushes are published without a token", async () => {
+  published.length = 0;
+
+  assert.equal((await push("/unverified", pubSubEnvelope("ce-6", CREATED))).status, 204);
+  assert.equal((await push("/unverified", { hello: "world" })).status, 400);
+  assert.deepEqual(published.map(([, event]) => event.name), ["spaces/AAAA/spaceEvents/ce-6"]);
+});
@@ -0,0 +1,71 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import axios from "axios";
+import { searchMessages, type MessageSearchQuery } from "../src/services/search.js";
+import { runWithApiClient } from "../src/services/api-client.js";
+import type { Message } from "../src/types.js";
+import { startStandIn, type StandIn, type RecordedRequest, type StandInResponse } from "./stand-in.js";
+
+const SPACES = ["spaces/AAAA", "spaces/BBBB", "spaces/CCCC"];
+let standIn: StandIn;
+let texts: string[] = [];
+
+before(async () => {
+  standIn = await startStandIn((request: RecordedRequest): StandInResponse => {
+    const spaceName = request.path.replace(/^\/|\/messages$/g, "");
+    const messages: Message[] = texts.map((text, i) => ({
+      name: `${spaceName}/messages/m${i}`,
+      text,
+      createTime: new Date(Date.UTC(2026, 0, 1, 0, texts.length - i)).toISOString()
+    }));
+    return { body: { messages } };
+  });
+});
+
+after(async () => {
+  await standIn.close();
+});
+
+function search(query: Partial<MessageSearchQuery>, signal?: AbortSignal) {
+  standIn.requests.length = 0;
+  return runWithApiClient(axios.create({ baseURL: standIn.url }), () => searchMessages({
+    query: "",
+    regex: false,
+    spaces: SPACES,
+    maxResults: 20,
+    maxMessagesPerSpace: 100,
+    ...query
+  }, async () => {}, signal));
+}
+
+test("keyword hits are ranked and their snippets bold every match", async () => {
+  texts = ["the budget is final", "nothing here", "Budget review: the budget for Q3"];
+  const result = await search({ query: "budget", spaces: ["spaces/AAAA"] });
+
+  assert.equal(result.totalHits, 2);
+  assert.equal(result.hits[0].message.name, "spaces/AAAA/messages/m2");
+  assert.equal(result.hits[0].snippet, "**Budget** review: the **budget** for Q3");
+  assert.equal(result.hits[1].snippet, "the **budget** is final");
+});
+
+test("a regular expression that backtracks too long stops the search", async () => {
+  texts = [`${"a".repeat(40)}!`];
+  const started = Date.now();
+  const result = await search({ query: "(a+)+$", regex: true });
+
+  // Matching gives up after a second and is not retried in the other spaces
+  assert.ok(Date.now() - started < 3000);
+  assert.equal(result.totalHits, 0);
+  assert.equal(result.errors.length, 1);
+  assert.match(result.errors[0].error, /took longer than 1000 ms/);
+});
+
+test("an aborted search scans no further spaces", async () => {
+  texts = ["hello"];
+  const controller = new AbortController();
+  controller.abort();
+  const result = await search({ query: "hello" }, controller.signal);
+
+  assert.equal(result.spacesSearched, 0);
+  assert.equal(standIn.requests.length, 0);
+});
@@ -0,0 +1,57 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  headers: http.IncomingHttpHeaders;
+  body: Buffer;
+}
+
+export interface StandInResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+export interface StandIn {
+  url: string;
+  requests: RecordedRequest[];
+  close(): Promise<void>;
+}
+
+/**
+ * Start a local HTTP server that records every request and answers with handler's response.
+ */
+export async function startStandIn(
+  handler: (request: RecordedRequest) => StandInResponse | Promise<StandInResponse>
+): Promise<StandIn> {
+  const requests: RecordedRequest[] = [];
+  const server = http.createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    const url = new URL(req.url || "/", "http://stand-in");
+    const request: RecordedRequest = {
+      method: req.method || "GET",
+      path: url.pathname,
+      query: url.searchParams,
+      headers: req.headers,
+      body: Buffer.concat(chunks)
+    };
+    requests.push(request);
+
+    const response = await handler(request);
+    res.writeHead(response.status || 200, { "Content-Type": "application/json", ...response.headers });
+    res.end(response.body === undefined ? "" : JSON.stringify(response.body));
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    requests,
+    close: () => new Promise(resolve => server.close(() => resolve()))
+  };
+}
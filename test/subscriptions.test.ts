@@ -0,0 +1,157 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { AxiosError, type AxiosResponse } from "axios";
+import { createSubscriptionManager, type SpaceEventSource, type Subscription } from "../src/services/subscriptions.js";
+import type { SpaceEvent } from "../src/types.js";
+
+const CREATED = "google.workspace.chat.message.v1.created";
+
+function event(id: string, eventTime: string): SpaceEvent {
+  return { name: `spaces/AAAA/spaceEvents/${id}`, eventType: CREATED, eventTime };
+}
+
+function unauthorized(): AxiosError {
+  return new AxiosError("Request failed with status code 401", "ERR_BAD_REQUEST", undefined, undefined,
+    { status: 401, data: {} } as AxiosResponse);
+}
+
+function waitFor(condition: () => boolean): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const started = Date.now();
+    const check = () => {
+      if (condition()) {
+        resolve();
+      } else if (Date.now() - started > 2000) {
+        reject(new Error("timed out waiting for the subscription"));
+      } else {
+        setTimeout(check, 5);
+      }
+    };
+    check();
+  });
+}
+
+test("polls deliver new events oldest first and move the cursor", async () => {
+  const start = new Date(Date.now() - 60 * 60000);
+  const delivered: SpaceEvent[][] = [];
+  const queries: (string | undefined)[] = [];
+  const at = (minutes: number) => new Date(start.getTime() + minutes * 60000).toISOString();
+  let pending = [event("2", at(2)), event("1", at(1))];
+  const source: SpaceEventSource = async (_spaceName, query) => {
+    queries.push(query.startTime);
+    return { spaceEvents: pending };
+  };
+
+  const manager = createSubscriptionManager((_subscription, events) => {
+    delivered.push(events);
+  }, { source });
+  try {
+    const subscription = manager.subscribe({ spaceName: "spaces/AAAA", startTime: start.toISOString() });
+    await manager.poll(subscription.id);
+    // The cursor's own event comes back on the next poll and is skipped
+    pending = [event("2", at(2)), event("3", at(3))];
+    await manager.poll(subscription.id);
+
+    assert.deepEqual(delivered.map(events => events.map(e => e.name.split("/").pop())), [["1", "2"], ["3"]]);
+    assert.deepEqual(queries, [start.toISOString(), at(2)]);
+    assert.equal(subscription.cursor, at(3));
+    assert.equal(subscription.delivered, 3);
+  } finally {
+    manager.stopAll();
+  }
+});
+
+test("pushed events are delivered once and leave the cursor to polls", async () => {
+  const start = new Date(Date.now() - 60 * 60000);
+  const at = (minutes: number) => new Date(start.getTime() + minutes * 60000).toISOString();
+  const message = (id: string) => ({ messageCreatedEventData: { message: { name: `spaces/AAAA/messages/${id}` } } });
+  const delivered: string[] = [];
+  let pending: SpaceEvent[] = [];
+  const source: SpaceEventSource = async () => ({ spaceEvents: pending });
+
+  const manager = createSubscriptionManager((_subscription, events) => {
+    delivered.push(...events.map(e => e.name));
+  }, { source });
+  try {
+    const subscription = manager.subscribe({ spaceName: "spaces/AAAA", startTime: start.toISOString() });
+    await manager.poll(subscription.id);
+
+    // Pushed events are named after the CloudEvent id, polled ones after the space event
+    await manager.deliver("spaces/AAAA", [{ ...event("ce-2", at(2)), ...message("m2") }]);
+    assert.equal(subscription.cursor, start.toISOString());
+
+    pending = [
+      { ...event("1", at(1)), ...message("m1") },
+      { ...event("2", at(2).replace("Z", "000Z")), ...message("m2") }
+    ];
+    await manager.poll(subscription.id);
+
+    assert.deepEqual(delivered, ["spaces/AAAA/spaceEvents/ce-2", "spaces/AAAA/spaceEvents/1"]);
+    assert.equal(subscription.cursor, at(2).replace("Z", "000Z"));
+  } finally {
+    manager.stopAll();
+  }
+});
+
+test("background polls run in the async context of the subscribe call", async () => {
+  const caller = new AsyncLocalStorage<string>();
+  const seenBy: (string | undefined)[] = [];
+  const source: SpaceEventSource = async () => {
+    seenBy.push(caller.getStore());
+    return {};
+  };
+
+  const manager = createSubscriptionManager(() => {}, { source });
+  try {
+    caller.run("ana@example.com", () => manager.subscribe({ spaceName: "spaces/AAAA", intervalMs: 5 }));
+    await waitFor(() => seenBy.length >= 2);
+    assert.deepEqual(new Set(seenBy), new Set(["ana@example.com"]));
+  } finally {
+    manager.stopAll();
+  }
+});
+
+test("a subscription ends when Google rejects its credentials", async () => {
+  const ended: [Subscription, string][] = [];
+  const source: SpaceEventSource = async () => {
+    throw unauthorized();
+  };
+
+  const manager = createSubscriptionManager(() => {}, {
+    source,
+    onEnd: (subscription, reason) => {
+      ended.push([subscription, reason]);
+    }
+  });
+  const subscription = manager.subscribe({ spaceName: "spaces/AAAA", intervalMs: 5 });
+  await waitFor(() => ended.length > 0);
+
+  assert.equal(ended[0][0], subscription);
+  assert.match(ended[0][1], /rejected the credentials/);
+  assert.equal(subscription.lastError, ended[0][1]);
+  assert.deepEqual(manager.list(), []);
+});
+
+test("a subscription ends without polling once its credentials expire", async () => {
+  let polls = 0;
+  const ended: string[] = [];
+  const source: SpaceEventSource = async () => {
+    polls++;
+    return {};
+  };
+
+  const manager = createSubscriptionManager(() => {}, {
+    source,
+    onEnd: (_subscription, reason) => {
+      ended.push(reason);
+    }
+  });
+  const expiresAt = new Date(Date.now() + 20).toISOString();
+  manager.subscribe({ spaceName: "spaces/AAAA", intervalMs: 60000, expiresAt });
+  await waitFor(() => ended.length > 0);
+
+  assert.equal(polls, 0);
+  assert.equal(ended[0], `The credentials this subscription was created with expired at ${expiresAt}.`);
+  assert.deepEqual(manager.list(), []);
+});
@@ -0,0 +1,131 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import axios from "axios";
+import { uploadAttachment } from "../src/services/uploads.js";
+import { runWithApiClient } from "../src/services/api-client.js";
+import { UploadType } from "../src/constants.js";
+import { startStandIn, type StandIn, type StandInResponse, type RecordedRequest } from "./stand-in.js";
+
+const DATA_REF = { resourceName: "spaces/AAAA/attachments/ref", attachmentUploadToken: "token" };
+
+let standIn: StandIn;
+// Bytes the resumable session has persisted, and how many of each chunk to keep
+let persisted = 0;
+let keepPerChunk = Infinity;
+
+before(async () => {
+  standIn = await startStandIn((request: RecordedRequest): StandInResponse => {
+    if (request.query.get("uploadType") === "multipart") {
+      return { body: { attachmentDataRef: DATA_REF } };
+    }
+    if (request.query.get("uploadType") === "resumable") {
+      persisted = 0;
+      return { headers: { Location: `${standIn.url}/session/1` } };
+    }
+    if (request.path === "/session/1") {
+      const [, start, , total] = /bytes (\d+)-(\d+)\/(\d+)/.exec(String(request.headers["content-range"]))!.map(Number);
+      if (start !== persisted) {
+        return { status: 400, body: { error: { message: `chunk starts at ${start}, expected ${persisted}` } } };
+      }
+      persisted += Math.min(request.body.length, keepPerChunk);
+      if (persisted === total) {
+        return { body: { attachmentDataRef: DATA_REF } };
+      }
+      return { status: 308, headers: { Range: `bytes=0-${persisted - 1}` } };
+    }
+    return { status: 404, body: { error: { message: "not found" } } };
+  });
+  process.env.GOOGLE_CHAT_UPLOAD_BASE_URL = `${standIn.url}/upload/v1/`;
+});
+
+after(async () => {
+  delete process.env.GOOGLE_CHAT_UPLOAD_BASE_URL;
+  await standIn.close();
+});
+
+function upload(content: Buffer, uploadType: UploadType, chunkSize?: number) {
+  standIn.requests.length = 0;
+  const progress: number[] = [];
+  return runWithApiClient(axios.create(), async () => {
+    const result = await uploadAttachment("spaces/AAAA", "notes.txt", "text/plain", content, {
+      uploadType,
+      chunkSize,
+      onProgress: async (done) => {
+        progress.push(done);
+      }
+    });
+    return { result, progress };
+  });
+}
+
+test("multipart upload sends metadata and content in one request", async () => {
+  const content = Buffer.from("hello from the stand-in");
+  const { result, progress } = await upload(content, UploadType.AUTO);
+
+  assert.equal(result.uploadType, UploadType.MULTIPART);
+  assert.deepEqual(result.attachmentDataRef, DATA_REF);
+  assert.equal(result.requests, 1);
+  assert.deepEqual(progress, [0, content.length]);
+
+  const [request] = standIn.requests;
+  assert.equal(request.path, "/upload/v1/spaces/AAAA/attachments:upload");
+  const boundary = /boundary=(\S+)/.exec(String(request.headers["content-type"]))![1];
+  const parts = request.body.toString().split(`--${boundary}`);
+  assert.equal(parts.length, 4);
+  assert.match(parts[1], /Content-Type: application\/json[^]*\{"filename":"notes.txt"\}/);
+  assert.match(parts[2], /Content-Type: text\/plain\r\n\r\nhello from the stand-in\r\n$/);
+  assert.equal(parts[3], "--\r\n");
+});
+
+test("resumable upload sends chunks with Content-Range until the server finishes", async () => {
+  keepPerChunk = Infinity;
+  const content = Buffer.alloc(1000, "a");
+  const { result, progress } = await upload(content, UploadType.RESUMABLE, 400);
+
+  assert.equal(result.uploadType, UploadType.RESUMABLE);
+  assert.deepEqual(result.attachmentDataRef, DATA_REF);
+  assert.equal(result.requests, 4);
+  assert.deepEqual(progress, [0, 400, 800, 1000]);
+
+  const [session, ...chunks] = standIn.requests;
+  assert.equal(session.headers["x-upload-content-length"], "1000");
+  assert.equal(session.headers["x-upload-content-type"], "text/plain");
+  assert.deepEqual(JSON.parse(session.body.toString()), { filename: "notes.txt" });
+  assert.deepEqual(chunks.map(chunk => chunk.headers["content-range"]), [
+    "bytes 0-399/1000",
+    "bytes 400-799/1000",
+    "bytes 800-999/1000"
+  ]);
+});
+
+test("resumable upload resends from the offset the server reports", async () => {
+  keepPerChunk = 300;
+  try {
+    const content = Buffer.alloc(1000, "b");
+    const { result } = await upload(content, UploadType.RESUMABLE, 400);
+
+    assert.deepEqual(result.attachmentDataRef, DATA_REF);
+    assert.deepEqual(standIn.requests.slice(1).map(chunk => chunk.headers["content-range"]), [
+      "bytes 0-399/1000",
+      "bytes 300-699/1000",
+      "bytes 600-999/1000",
+      "bytes 900-999/1000"
+    ]);
+  } finally {
+    keepPerChunk = Infinity;
+  }
+});
+
+test("resumable upload stops when the server makes no progress", async () => {
+  keepPerChunk = 0;
+  try {
+    await assert.rejects(upload(Buffer.alloc(1000, "c"), UploadType.RESUMABLE, 400), /made no progress at byte 0/);
+  } finally {
+    keepPerChunk = Infinity;
+  }
+});
+
+test("empty content is rejected before any request", async () => {
+  await assert.rejects(upload(Buffer.alloc(0), UploadType.AUTO), /empty/);
+  assert.equal(standIn.requests.length, 0);
+});